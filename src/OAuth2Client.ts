@@ -0,0 +1,275 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+
+export type FormPoster = (url: string, form: Record<string, string>, headers: Record<string, string>, clientCert?: any) => Promise<{ statusCode: number, body: string }>;
+
+export interface ClientCredentialsRequest {
+    tokenUrl: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string[];
+    clientAuthentication?: 'header' | 'body'; // client_secret_basic (default) or client_secret_post
+}
+
+export interface AuthorizationCodeRequest extends ClientCredentialsRequest {
+    authorizationUrl: string;
+    redirectPort?: number; // Loopback port for the redirect URI; 0 or unset picks a free port
+}
+
+export interface TokenInfo {
+    expiresAt: number; // Epoch milliseconds; 0 when the server did not say
+    hasRefreshToken: boolean;
+}
+
+// Opens the authorization URL in the user's browser
+export type BrowserOpener = (url: string) => Promise<void>;
+
+interface CachedToken {
+    accessToken: string;
+    tokenType: string;
+    refreshToken?: string;
+    expiresAt: number; // Epoch milliseconds; 0 when the server did not say
+    scopes: string[]; // Scopes the token was requested with
+}
+
+interface PendingToken {
+    scopes: string[]; // Scopes the token is being requested with
+    accessToken: Promise<string>;
+}
+
+// Tokens are renewed this long before they expire so a request never goes out with a token about to lapse
+const EXPIRY_MARGIN_MS = 30000;
+// How long the loopback listener waits for the browser to come back with a code
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Obtains OAuth2 access tokens and caches them per grant, token URL, client and scopes.
+ * An expired token is renewed with its refresh token when the server issued one,
+ * otherwise by requesting a new token. The authorization code flow uses PKCE and a
+ * temporary listener on 127.0.0.1 to receive the redirect (RFC 8252). Concurrent requests for
+ * the same token share one token request, or one browser sign-in.
+ */
+export class OAuth2Client {
+    private readonly _tokens = new Map<string, CachedToken>();
+    private readonly _pending = new Map<string, PendingToken>(); // Token requests in flight, by cache key
+
+    constructor(private readonly _post: FormPoster) {}
+
+    public async getClientCredentialsToken(request: ClientCredentialsRequest, clientCert?: any): Promise<string> {
+        return this._getToken(OAuth2Client._cacheKey('client_credentials', request), request, clientCert, () => {
+            const form: Record<string, string> = { grant_type: 'client_credentials' };
+            if (request.scopes.length > 0) {
+                form.scope = request.scopes.join(' ');
+            }
+            return this._requestToken(request, form, clientCert);
+        });
+    }
+
+    /**
+     * Returns the cached authorization code token, refreshing it when it has expired.
+     * When there is none (or it cannot be refreshed) the interactive flow runs in the browser.
+     */
+    public async getAuthorizationCodeToken(request: AuthorizationCodeRequest, openBrowser: BrowserOpener, clientCert?: any): Promise<string> {
+        // One token per user and client: a token lacking a scope this request needs is replaced by one covering both
+        const key = OAuth2Client._cacheKey('authorization_code', { ...request, scopes: [] });
+        // A sign-in in progress is shared when it covers the scopes; otherwise this one follows it, as both need the same port
+        let pending: PendingToken | undefined;
+        while ((pending = this._pending.get(key))) {
+            if (request.scopes.every(scope => pending!.scopes.includes(scope))) {
+                return pending.accessToken;
+            }
+            await pending.accessToken.catch(() => undefined);
+        }
+        const cached = this._tokens.get(key);
+        if (cached && !request.scopes.every(scope => cached.scopes.includes(scope))) {
+            this._tokens.delete(key);
+            request = { ...request, scopes: Array.from(new Set([...cached.scopes, ...request.scopes])) };
+        }
+        return this._getToken(key, request, clientCert, () => this._authorize(request, openBrowser, clientCert));
+    }
+
+    /** Runs the interactive authorization code flow even when a token is cached, e.g. to switch accounts. */
+    public async authorize(request: AuthorizationCodeRequest, openBrowser: BrowserOpener, clientCert?: any): Promise<TokenInfo> {
+        const token = await this._authorize(request, openBrowser, clientCert);
+        this._tokens.set(OAuth2Client._cacheKey('authorization_code', { ...request, scopes: [] }), token);
+        return { expiresAt: token.expiresAt, hasRefreshToken: !!token.refreshToken };
+    }
+
+    public clear() {
+        this._tokens.clear();
+    }
+
+    private _getToken(key: string, request: ClientCredentialsRequest, clientCert: any, acquire: () => Promise<CachedToken>): Promise<string> {
+        let pending = this._pending.get(key);
+        if (!pending) {
+            const accessToken = this._acquireToken(key, request, clientCert, acquire).finally(() => this._pending.delete(key));
+            pending = { scopes: request.scopes, accessToken };
+            this._pending.set(key, pending);
+        }
+        return pending.accessToken;
+    }
+
+    private async _acquireToken(key: string, request: ClientCredentialsRequest, clientCert: any, acquire: () => Promise<CachedToken>): Promise<string> {
+        const cached = this._tokens.get(key);
+        if (cached && !OAuth2Client._isExpired(cached)) {
+            return cached.accessToken;
+        }
+
+        if (cached?.refreshToken) {
+            try {
+                const refreshed = await this._requestToken(request, { grant_type: 'refresh_token', refresh_token: cached.refreshToken }, clientCert);
+                this._tokens.set(key, { ...refreshed, refreshToken: refreshed.refreshToken || cached.refreshToken });
+                return refreshed.accessToken;
+            } catch (error) {
+                console.log('Token refresh failed, requesting a new token:', error);
+            }
+        }
+
+        const token = await acquire();
+        this._tokens.set(key, token);
+        return token.accessToken;
+    }
+
+    private async _authorize(request: AuthorizationCodeRequest, openBrowser: BrowserOpener, clientCert?: any): Promise<CachedToken> {
+        const codeVerifier = OAuth2Client._base64Url(crypto.randomBytes(32));
+        const codeChallenge = OAuth2Client._base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+        const state = OAuth2Client._base64Url(crypto.randomBytes(16));
+
+        const listener = await OAuth2Client._listenForRedirect(request.redirectPort || 0, state);
+        try {
+            const authorizationUrl = new URL(request.authorizationUrl);
+            authorizationUrl.searchParams.set('response_type', 'code');
+            authorizationUrl.searchParams.set('client_id', request.clientId);
+            authorizationUrl.searchParams.set('redirect_uri', listener.redirectUri);
+            if (request.scopes.length > 0) {
+                authorizationUrl.searchParams.set('scope', request.scopes.join(' '));
+            }
+            authorizationUrl.searchParams.set('state', state);
+            authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+            authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+
+            console.log(`Opening OAuth2 authorization URL, waiting for the redirect to ${listener.redirectUri}`);
+            await openBrowser(authorizationUrl.toString());
+            const code = await listener.code;
+
+            return await this._requestToken(request, {
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: listener.redirectUri,
+                code_verifier: codeVerifier
+            }, clientCert);
+        } finally {
+            listener.close();
+        }
+    }
+
+    private async _requestToken(request: ClientCredentialsRequest, form: Record<string, string>, clientCert?: any): Promise<CachedToken> {
+        const headers: Record<string, string> = {};
+        const body = { ...form };
+        if (request.clientAuthentication === 'body' || !request.clientSecret) {
+            // Public clients (no secret) identify themselves with client_id in the body
+            body.client_id = request.clientId;
+            if (request.clientSecret) {
+                body.client_secret = request.clientSecret;
+            }
+        } else {
+            // RFC 6749 section 2.3.1: client id and secret are form-encoded before being base64-encoded
+            const credentials = `${encodeURIComponent(request.clientId)}:${encodeURIComponent(request.clientSecret)}`;
+            headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        }
+
+        console.log(`Requesting OAuth2 token (${form.grant_type}) from ${request.tokenUrl}`);
+        const response = await this._post(request.tokenUrl, body, headers, clientCert);
+
+        let payload: any;
+        try {
+            payload = JSON.parse(response.body);
+        } catch {
+            payload = {};
+        }
+        if (response.statusCode >= 400 || typeof payload.access_token !== 'string') {
+            const reason = payload.error
+                ? `${payload.error}${payload.error_description ? `: ${payload.error_description}` : ''}`
+                : response.body.substring(0, 200);
+            throw new Error(`Token request to ${request.tokenUrl} failed with HTTP ${response.statusCode}: ${reason}`);
+        }
+
+        const expiresIn = Number(payload.expires_in);
+        return {
+            accessToken: payload.access_token,
+            tokenType: payload.token_type || 'Bearer',
+            refreshToken: payload.refresh_token,
+            expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : 0,
+            scopes: request.scopes
+        };
+    }
+
+    private static _listenForRedirect(port: number, state: string): Promise<{ redirectUri: string, code: Promise<string>, close: () => void }> {
+        return new Promise((resolveListener, rejectListener) => {
+            let resolveCode: (code: string) => void;
+            let rejectCode: (error: Error) => void;
+            const code = new Promise<string>((resolve, reject) => {
+                resolveCode = resolve;
+                rejectCode = reject;
+            });
+            code.catch(() => undefined); // Rejections surface when the flow awaits the code
+
+            const server = http.createServer((req, res) => {
+                const url = new URL(req.url || '/', 'http://127.0.0.1');
+                if (url.pathname !== '/callback') {
+                    res.writeHead(404).end();
+                    return;
+                }
+
+                const error = url.searchParams.get('error');
+                const receivedCode = url.searchParams.get('code');
+                // A redirect not meant for this flow, e.g. from an earlier attempt, must not end it
+                if (url.searchParams.get('state') !== state) {
+                    res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+                    res.end('<!DOCTYPE html><html><body><p>Authorization failed: the state parameter does not match this request.</p></body></html>');
+                    return;
+                }
+
+                let message: string;
+                if (error || !receivedCode) {
+                    const description = url.searchParams.get('error_description');
+                    message = `Authorization failed: ${error || 'no code returned'}${description ? ` (${description})` : ''}`;
+                    rejectCode(new Error(`OAuth2 authorization failed: ${error || 'no code returned'}${description ? `: ${description}` : ''}`));
+                } else {
+                    message = 'Authorization complete. You can close this window and return to VS Code.';
+                    resolveCode(receivedCode);
+                }
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(`<!DOCTYPE html><html><body><p>${message.replace(/</g, '&lt;')}</p></body></html>`);
+            });
+
+            server.on('error', rejectListener);
+            server.listen(port, '127.0.0.1', () => {
+                // Armed only once listening, so a port that cannot be bound leaves no timer behind
+                const timer = setTimeout(() => rejectCode(new Error('OAuth2 authorization timed out waiting for the browser redirect')), AUTHORIZATION_TIMEOUT_MS);
+                const address = server.address();
+                const listeningPort = address && typeof address === 'object' ? address.port : port;
+                resolveListener({
+                    redirectUri: `http://127.0.0.1:${listeningPort}/callback`,
+                    code,
+                    close: () => {
+                        clearTimeout(timer);
+                        server.close();
+                    }
+                });
+            });
+        });
+    }
+
+    private static _cacheKey(grant: string, request: ClientCredentialsRequest): string {
+        return JSON.stringify([grant, request.tokenUrl, request.clientId, [...request.scopes].sort()]);
+    }
+
+    private static _base64Url(buffer: Buffer): string {
+        return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    private static _isExpired(token: CachedToken): boolean {
+        return token.expiresAt > 0 && Date.now() >= token.expiresAt - EXPIRY_MARGIN_MS;
+    }
+}
@@ -0,0 +1,259 @@
+export type DocumentLoader = (url: string) => Promise<any>;
+
+/**
+ * Replaces every local, relative-file and remote `$ref` in a spec with the value it points to,
+ * including refs to subschemas identified by a JSON Schema 2020-12 `$id`.
+ * Circular refs stay as local `#/...` refs so the result remains JSON-serializable; circular
+ * targets from other files are hoisted into `components.schemas` (`definitions` for Swagger 2.0).
+ */
+export class RefResolver {
+    private readonly _documents = new Map<string, any>(); // Parsed documents by absolute URL
+    private readonly _identified = new Map<string, any>(); // JSON Schema 2020-12 subschemas by absolute `$id`
+    private readonly _resolved = new Map<string, any>(); // Dereferenced values by absolute ref
+    private readonly _hoisted = new Map<string, string>(); // Absolute ref -> local ref for hoisted circular targets
+    private readonly _circularRefs = new Set<string>();
+    private _root: any = null;
+    private _rootUrl = '';
+
+    constructor(private readonly _loader: DocumentLoader) {}
+
+    /** Absolute refs that were found to be circular during the last dereference. */
+    public get circularRefs(): string[] {
+        return Array.from(this._circularRefs);
+    }
+
+    public async dereference(root: any, rootUrl: string): Promise<any> {
+        this._rootUrl = RefResolver._stripFragment(rootUrl);
+        this._root = root;
+        this._documents.set(this._rootUrl, root);
+        this._indexIds(root, this._rootUrl);
+
+        // Load every external document up front so the dereference pass itself is synchronous
+        await this._loadExternalDocuments(root, this._rootUrl);
+
+        const result = this._dereferenceNode(root, this._rootUrl, `${this._rootUrl}#`, []);
+
+        // Hoisted targets are dereferenced with themselves on the stack, so their self-references stay as refs.
+        // Dereferencing one hoisted target can hoist further targets, hence the loop.
+        const written = new Set<string>();
+        let pending: Array<[string, string]>;
+        while ((pending = Array.from(this._hoisted.entries()).filter(([absoluteRef]) => !written.has(absoluteRef))).length > 0) {
+            pending.forEach(([absoluteRef, localRef]) => {
+                written.add(absoluteRef);
+                const [documentUrl, pointer] = RefResolver._splitRef(absoluteRef);
+                const target = RefResolver.resolvePointer(this._documentFor(documentUrl), pointer);
+                RefResolver._setPointer(result, localRef.substring(1), this._dereferenceNode(target, documentUrl, absoluteRef, []));
+            });
+        }
+
+        if (this._circularRefs.size > 0) {
+            console.log('Circular references kept as local refs:', this.circularRefs);
+        }
+        return result;
+    }
+
+    /** Resolves a JSON pointer such as `/components/schemas/User` (RFC 6901) against a document. */
+    public static resolvePointer(document: any, pointer: string): any {
+        if (!pointer) {
+            return document;
+        }
+        let current = document;
+        for (const part of pointer.replace(/^\//, '').split('/')) {
+            let key: string;
+            try {
+                key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+            } catch {
+                // A malformed percent-escape points nowhere
+                return undefined;
+            }
+            if (current && typeof current === 'object' && key in current) {
+                current = current[key];
+            } else {
+                return undefined;
+            }
+        }
+        return current;
+    }
+
+    private async _loadExternalDocuments(node: any, baseUrl: string): Promise<void> {
+        // Every ref is checked before any document is fetched, so a refused ref leaves no load behind
+        const documentUrls = new Set<string>();
+        this._collectRefs(node, baseUrl, (ref, refBaseUrl) => {
+            const documentUrl = RefResolver._stripFragment(RefResolver._resolveUrl(ref, refBaseUrl));
+            // A remote spec must not be able to inline files from this machine; checked against the
+            // referencing document itself, as an `$id` could set any base URL
+            if (documentUrl.startsWith('file:') && !baseUrl.startsWith('file:')) {
+                throw new Error(`Refused to load ${documentUrl}: local files can only be referenced from local documents, not from ${baseUrl}`);
+            }
+            documentUrls.add(documentUrl);
+        });
+
+        const pending: Array<Promise<void>> = [];
+        documentUrls.forEach(documentUrl => {
+            if (!this._documents.has(documentUrl) && !this._identified.has(documentUrl)) {
+                this._documents.set(documentUrl, null); // Reserve so each document is fetched once
+                pending.push((async () => {
+                    console.log('Loading referenced document:', documentUrl);
+                    let document: any;
+                    try {
+                        document = await this._loader(documentUrl);
+                    } catch (error) {
+                        throw new Error(`Failed to load referenced document ${documentUrl}: ${error instanceof Error ? error.message : error}`);
+                    }
+                    this._documents.set(documentUrl, document);
+                    this._indexIds(document, documentUrl);
+                    await this._loadExternalDocuments(document, documentUrl);
+                })());
+            }
+        });
+        await Promise.all(pending);
+    }
+
+    private _collectRefs(node: any, baseUrl: string, onRef: (ref: string, baseUrl: string) => void) {
+        if (Array.isArray(node)) {
+            node.forEach(item => this._collectRefs(item, baseUrl, onRef));
+        } else if (node && typeof node === 'object') {
+            const nodeBaseUrl = RefResolver._baseUrlOf(node, baseUrl);
+            if (typeof node.$ref === 'string' && !node.$ref.startsWith('#')) {
+                onRef(node.$ref, nodeBaseUrl);
+            }
+            Object.keys(node).forEach(key => {
+                if (key !== '$ref') {
+                    this._collectRefs(node[key], nodeBaseUrl, onRef);
+                }
+            });
+        }
+    }
+
+    // A 2020-12 `$id` names a subschema by URL; refs to that URL resolve to it without fetching anything
+    private _indexIds(node: any, baseUrl: string) {
+        if (Array.isArray(node)) {
+            node.forEach(item => this._indexIds(item, baseUrl));
+        } else if (node && typeof node === 'object') {
+            const nodeBaseUrl = RefResolver._baseUrlOf(node, baseUrl);
+            if (nodeBaseUrl !== baseUrl && !this._identified.has(nodeBaseUrl)) {
+                this._identified.set(nodeBaseUrl, node);
+            }
+            Object.keys(node).forEach(key => this._indexIds(node[key], nodeBaseUrl));
+        }
+    }
+
+    private _documentFor(documentUrl: string): any {
+        return this._documents.get(documentUrl) ?? this._identified.get(documentUrl);
+    }
+
+    // `location` is the absolute ref of `node` itself; `stack` holds the locations of all its ancestors,
+    // so a ref back to any of them is a cycle
+    private _dereferenceNode(node: any, baseUrl: string, location: string, stack: string[]): any {
+        if (!node || typeof node !== 'object') {
+            return node;
+        }
+        baseUrl = Array.isArray(node) ? baseUrl : RefResolver._baseUrlOf(node, baseUrl);
+        const childStack = [...stack, location];
+        const childLocation = (key: string | number) => `${location}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+        if (Array.isArray(node)) {
+            return node.map((item, index) => this._dereferenceNode(item, baseUrl, childLocation(index), childStack));
+        }
+
+        if (typeof node.$ref === 'string') {
+            const absoluteRef = RefResolver._resolveUrl(node.$ref, baseUrl);
+            const siblings = { ...node };
+            delete siblings.$ref;
+
+            let value: any;
+            if (childStack.includes(absoluteRef)) {
+                this._circularRefs.add(absoluteRef);
+                value = { $ref: this._localRefFor(absoluteRef) };
+            } else if (this._resolved.has(absoluteRef)) {
+                value = this._resolved.get(absoluteRef);
+            } else {
+                const [documentUrl, pointer] = RefResolver._splitRef(absoluteRef);
+                const target = RefResolver.resolvePointer(this._documentFor(documentUrl), pointer);
+                if (target === undefined) {
+                    console.warn('Could not resolve reference:', node.$ref, 'from', baseUrl);
+                    return node;
+                }
+                value = this._dereferenceNode(target, documentUrl, absoluteRef, childStack);
+                this._resolved.set(absoluteRef, value);
+            }
+
+            // OpenAPI 3.1 allows summary/description next to $ref; they override the target's values
+            return Object.keys(siblings).length > 0 && value && typeof value === 'object' && !value.$ref
+                ? { ...value, ...this._dereferenceNode(siblings, baseUrl, location, stack) }
+                : value;
+        }
+
+        const result: any = {};
+        Object.keys(node).forEach(key => {
+            result[key] = this._dereferenceNode(node[key], baseUrl, childLocation(key), childStack);
+        });
+        return result;
+    }
+
+    private _localRefFor(absoluteRef: string): string {
+        const [documentUrl, pointer] = RefResolver._splitRef(absoluteRef);
+        if (documentUrl === this._rootUrl) {
+            return `#${pointer}`;
+        }
+
+        const existing = this._hoisted.get(absoluteRef);
+        if (existing) {
+            return existing;
+        }
+
+        // Name the hoisted schema after its pointer (or file name), avoiding clashes with existing schemas
+        const container = this._root?.swagger ? '/definitions' : '/components/schemas';
+        const lastSegment = pointer.split('/').filter(Boolean).pop()
+            || documentUrl.split('/').pop()!.replace(/\.(json|ya?ml)$/i, '');
+        const baseName = lastSegment.replace(/[^A-Za-z0-9._-]/g, '_') || 'Schema';
+        const taken = new Set(Array.from(this._hoisted.values()));
+        let name = baseName;
+        for (let i = 2; RefResolver.resolvePointer(this._root, `${container}/${name}`) !== undefined || taken.has(`#${container}/${name}`); i++) {
+            name = `${baseName}${i}`;
+        }
+
+        const localRef = `#${container}/${name}`;
+        this._hoisted.set(absoluteRef, localRef);
+        return localRef;
+    }
+
+    private static _setPointer(document: any, pointer: string, value: any) {
+        const parts = pointer.replace(/^\//, '').split('/');
+        let current = document;
+        parts.slice(0, -1).forEach(part => {
+            if (!current[part] || typeof current[part] !== 'object') {
+                current[part] = {};
+            }
+            current = current[part];
+        });
+        current[parts[parts.length - 1]] = value;
+    }
+
+    private static _baseUrlOf(node: any, baseUrl: string): string {
+        if (typeof node.$id !== 'string') {
+            return baseUrl;
+        }
+        try {
+            return RefResolver._stripFragment(new URL(node.$id, baseUrl).toString());
+        } catch {
+            return baseUrl;
+        }
+    }
+
+    private static _resolveUrl(ref: string, baseUrl: string): string {
+        const resolved = new URL(ref, baseUrl).toString();
+        // Keep "#" on local refs so absolute refs always have a document part and a pointer part
+        return resolved.includes('#') ? resolved : `${resolved}#`;
+    }
+
+    private static _splitRef(absoluteRef: string): [string, string] {
+        const hashIndex = absoluteRef.indexOf('#');
+        return [absoluteRef.substring(0, hashIndex), absoluteRef.substring(hashIndex + 1)];
+    }
+
+    private static _stripFragment(url: string): string {
+        const hashIndex = url.indexOf('#');
+        return hashIndex === -1 ? url : url.substring(0, hashIndex);
+    }
+}
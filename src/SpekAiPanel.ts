@@ -1,9 +1,28 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as https from 'https';
-import * as http from 'http';
 import * as fs from 'fs';
-import * as yaml from 'js-yaml';
+import { randomUUID } from 'crypto';
+import { evaluateAssertions } from './assertions';
+import { SNIPPET_LANGUAGES, SnippetLanguage, renderSnippet } from './codeSnippets';
+import { COLLECTION_FORMAT, Collection, CollectionRunResult, runCollection } from './collectionRunner';
+import { parseCurlCommand } from './curl';
+import { extractValues } from './extraction';
+import { ImportResult } from './importedRequests';
+import { importRequests, linkToOperations, matchOperation, matchToTestData, mergeImportResults } from './importers';
+import { HttpRequestOptions, HttpResponse, RequestAbortedError, httpRequest } from './httpClient';
+import { AuthorizationCodeRequest, OAuth2Client } from './OAuth2Client';
+import { exportPostmanCollection } from './postman';
+import { RefResolver } from './RefResolver';
+import { REPORT_FORMATS, ReportFormat, createReport, renderReport } from './reporters';
+import { HistoryEntry, HistoryLimits, MASKED_HEADER_VALUE, RequestHistory } from './requestHistory';
+import { diffResponses } from './responseDiff';
+import { composeSchema, normalizeSchema } from './schemaComposition';
+import { ValidationOptions, validateRequest, validateResponse } from './schemaValidator';
+import { SchemeCredentials, applySecurity, oauth2Flow } from './securitySchemes';
+import { checkSnapshot } from './snapshots';
+import { loadSpec } from './specLoader';
+import { SavedTestData, isSavedTestData, savedResponseBody, testDataToCollection } from './testData';
+import { substituteInJson, substituteVariables } from './variables';
 
 export class SpekAiPanel {
     public static currentPanel: SpekAiPanel | undefined;
@@ -13,8 +32,15 @@ export class SpekAiPanel {
     private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
     private _openApiSpec: any = null; // Store the full OpenAPI spec for reference resolution
-
-    public static createOrShow(extensionUri: vscode.Uri) {
+    private _pendingRequests = new Map<string, { requestId?: string, controller: AbortController }>(); // In-flight operation requests by operation id
+    private _variantSelections: Record<string, number> = {}; // oneOf/anyOf branch chosen in the UI, by data path
+    private _collectionRun: AbortController | undefined; // Collection run in progress, if any
+    private _lastCollectionRun: CollectionRunResult | undefined; // Result of the last completed run, for Export Report
+    private readonly _oauth2 = new OAuth2Client((url, form, headers, clientCert) => this._postForm(url, form, headers, clientCert));
+    private readonly _history: RequestHistory;
+    private _historyFilter = { query: '', pinnedOnly: false }; // Search the history list was last asked for
+
+    public static createOrShow(extensionUri: vscode.Uri, storageUri: vscode.Uri) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -35,12 +61,13 @@ export class SpekAiPanel {
             }
         );
 
-        SpekAiPanel.currentPanel = new SpekAiPanel(panel, extensionUri);
+        SpekAiPanel.currentPanel = new SpekAiPanel(panel, extensionUri, storageUri);
     }
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, storageUri: vscode.Uri) {
         this._panel = panel;
         this._extensionUri = extensionUri;
+        this._history = new RequestHistory(path.join(storageUri.fsPath, 'request-history.json'), () => this._getHistoryLimits());
 
         this._update();
 
@@ -55,8 +82,21 @@ export class SpekAiPanel {
                     case 'testApiOperation':
                         this._testApiOperation(message.operation);
                         return;
+                    case 'cancelApiOperation':
+                        this._cancelApiOperation(message.operationId, message.requestId);
+                        return;
+                    case 'getEnvironments':
+                        this._postEnvironments();
+                        return;
+                    case 'saveEnvironments':
+                        this._saveEnvironments(message.environments);
+                        return;
+                    case 'authorizeOAuth2':
+                        this._authorizeOAuth2(message.schemeName, message.scheme, message.credentials, message.baseUrl, message.clientCert);
+                        return;
                     case 'generateLLMJson':
                         this._openApiSpec = message.openApiSpec; // Store the spec for reference resolution
+                        this._variantSelections = message.variantSelections || {};
                         this._generateLLMJson(message.prompt, message.operationId, message.operation, message.locale, message.globalHeaders);
                         return;
                     case 'saveTestData':
@@ -65,6 +105,55 @@ export class SpekAiPanel {
                     case 'loadTestData':
                         this._loadTestData(message.currentOperationId);
                         return;
+                    case 'runCollection':
+                        this._runCollection(message.collection, message.variables, message.credentials, message.clientCert);
+                        return;
+                    case 'cancelCollectionRun':
+                        this._collectionRun?.abort();
+                        return;
+                    case 'saveCollection':
+                        this._saveCollection(message.collection);
+                        return;
+                    case 'loadCollection':
+                        this._loadCollection();
+                        return;
+                    case 'importRequests':
+                        this._importRequests();
+                        return;
+                    case 'exportPostman':
+                        this._exportPostman(message.operations, message.collection, message.environment, message.variables);
+                        return;
+                    case 'importCurl':
+                        this._importCurl();
+                        return;
+                    case 'copyRequestAs':
+                        this._copyRequestAs(message.operation);
+                        return;
+                    case 'exportReport':
+                        this._exportReport();
+                        return;
+                    case 'getHistory':
+                        this._historyFilter = { query: message.query || '', pinnedOnly: !!message.pinnedOnly };
+                        this._postHistory();
+                        return;
+                    case 'openHistoryEntry':
+                        this._openHistoryEntry(message.id);
+                        return;
+                    case 'resendHistoryEntry':
+                        this._resendHistoryEntry(message.id, message.credentials, message.clientCert, message.variables);
+                        return;
+                    case 'pinHistoryEntry':
+                        this._updateHistory(() => this._history.setPinned(message.id, message.pinned));
+                        return;
+                    case 'deleteHistoryEntry':
+                        this._updateHistory(() => this._history.remove(message.id));
+                        return;
+                    case 'clearHistory':
+                        this._clearHistory();
+                        return;
+                    case 'diffResponse':
+                        this._diffResponse(message.operationId, message.response, message.source, message.baseline);
+                        return;
                     case 'browseFile':
                         this._browseFile(message.fileType);
                         return;
@@ -73,11 +162,22 @@ export class SpekAiPanel {
             null,
             this._disposables
         );
+
+        // Keep the panel in sync with environments edited directly in settings.json
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('spekai.environments')) {
+                this._postEnvironments();
+            }
+        }, null, this._disposables);
     }
 
     public dispose() {
         SpekAiPanel.currentPanel = undefined;
 
+        this._pendingRequests.forEach(pending => pending.controller.abort());
+        this._pendingRequests.clear();
+        this._collectionRun?.abort();
+
         this._panel.dispose();
 
         while (this._disposables.length) {
@@ -117,46 +217,14 @@ export class SpekAiPanel {
 
     private async _fetchOpenApiSpec(url: string, clientCert?: any, globalHeaders?: Array<{key: string, value: string}>) {
         try {
-            let content: string;
-            let spec: any;
-
-            if (url.startsWith('file://')) {
-                // Handle local file loading
-                let filePath = url.replace('file://', '');
-                
-                // Handle Windows-style paths vs Unix-style paths
-                if (process.platform === 'win32') {
-                    // On Windows, remove leading slash and convert forward slashes to backslashes
-                    filePath = filePath.replace(/^\//, '').replace(/\//g, '\\');
-                } else {
-                    // On Unix-like systems, ensure leading slash is present
-                    if (!filePath.startsWith('/')) {
-                        filePath = '/' + filePath;
-                    }
-                }
-                
-                content = await fs.promises.readFile(filePath, 'utf8');
-            } else {
-                // Handle HTTP/HTTPS URLs
-                content = await this._httpGet(url, clientCert, globalHeaders);
-            }
-
-            // Parse the content - try JSON first, then YAML
-            try {
-                spec = JSON.parse(content);
-            } catch (jsonError) {
-                // If JSON parsing fails, try YAML parsing
-                try {
-                    spec = yaml.load(content);
-                } catch (yamlError) {
-                    throw new Error(`Failed to parse as JSON or YAML: JSON error: ${jsonError}, YAML error: ${yamlError}`);
-                }
-            }
+            const { spec, circularRefs } = await loadSpec(url, documentUrl => this._httpGet(documentUrl, clientCert, globalHeaders));
+            this._openApiSpec = spec;
             
             this._panel.webview.postMessage({
                 command: 'openApiSpecLoaded',
                 spec: spec,
-                specUrl: url
+                specUrl: url,
+                circularRefs
             });
         } catch (error) {
             this._panel.webview.postMessage({
@@ -167,128 +235,643 @@ export class SpekAiPanel {
     }
 
     private async _testApiOperation(operation: any) {
+        // Supersede any request still in flight for the same operation; the UI tells their messages apart by request id
+        this._pendingRequests.get(operation.id)?.controller.abort();
+        const requestId: string | undefined = operation.requestId;
+        const controller = new AbortController();
+        this._pendingRequests.set(operation.id, { requestId, controller });
+        let prepared: { url: string, headers: Record<string, string>, body?: string } | undefined;
+
         try {
-            // Handle request body properly - don't double-stringify
-            let requestBody: string | undefined;
-            if (operation.body !== undefined) {
-                // Safety check: make sure we're not sending schema objects
-                if (typeof operation.body === 'object' && 
-                    (operation.body.hasOwnProperty('content') || 
-                     operation.body.hasOwnProperty('schema') ||
-                     operation.body.hasOwnProperty('description'))) {
-                    console.error('Detected schema object being sent as request body:', operation.body);
-                    requestBody = undefined;
-                } else if (typeof operation.body === 'string') {
-                    requestBody = operation.body;
-                } else {
-                    requestBody = JSON.stringify(operation.body);
+            // Pre-flight check against the spec; the UI re-sends with skipValidation to send anyway
+            if (operation.validation && !operation.skipValidation) {
+                const violations = validateRequest(
+                    operation.validation.parameters,
+                    operation.validation.parameterValues,
+                    operation.validation.requestBody,
+                    operation.body,
+                    this._getValidationOptions()
+                );
+                if (violations.length > 0) {
+                    this._panel.webview.postMessage({
+                        command: 'requestValidationFailed',
+                        operationId: operation.id,
+                        requestId,
+                        violations
+                    });
+                    return;
                 }
             }
 
-            const result = await this._httpRequest(operation.url, {
+            prepared = await this._prepareRequest(operation);
+            const result = await this._httpRequest(prepared.url, {
                 method: operation.method,
-                headers: operation.headers || {},
-                body: requestBody,
-                clientCert: operation.clientCert
+                headers: prepared.headers,
+                body: prepared.body,
+                clientCert: operation.clientCert,
+                timeout: this._getRequestTimeout(operation.timeout),
+                signal: controller.signal
             });
+
+            // Check the response against the operation's declared responses, when the UI sent them
+            const validation = operation.responses
+                ? validateResponse(operation.responses, result.statusCode, result.contentType, result.body, this._getValidationOptions())
+                : undefined;
+
+            // Values for later requests, pulled out by the operation's extraction rules
+            const extracted = operation.extractionRules?.length > 0
+                ? extractValues(operation.extractionRules, result)
+                : undefined;
+
+            // Declarative checks on the response, reported green/red in the UI
+            const assertions = operation.assertions?.length > 0
+                ? evaluateAssertions(operation.assertions, { ...result, duration: result.timings.total }, operation.responses, this._getValidationOptions())
+                : undefined;
+
+            // Regression check against the response accepted as the operation's snapshot
+            const snapshot = operation.snapshot ? checkSnapshot(operation.snapshot, result) : undefined;
             
             this._panel.webview.postMessage({
                 command: 'operationTestResult',
                 operationId: operation.id,
+                requestId,
                 result: result.body,
-                status: result.statusCode
+                status: result.statusCode,
+                statusText: result.statusText,
+                headers: result.headers,
+                contentType: result.contentType,
+                size: result.size,
+                timings: result.timings,
+                finalUrl: result.url,
+                redirects: result.redirects,
+                validation,
+                extracted,
+                assertions,
+                snapshot
+            });
+            this._recordHistory(operation, prepared.body, {
+                status: result.statusCode,
+                statusText: result.statusText,
+                responseHeaders: result.headers,
+                contentType: result.contentType,
+                response: result.body,
+                size: result.size,
+                timings: result.timings,
+                // Only shown with a redirect chain; without one it is the resolved request URL
+                finalUrl: result.redirects.length > 0 ? result.url : undefined,
+                redirects: result.redirects,
+                assertions
             });
         } catch (error) {
+            const aborted = error instanceof RequestAbortedError;
+            const message = aborted ? error.message : `Test failed: ${error}`;
             this._panel.webview.postMessage({
                 command: 'operationTestError',
                 operationId: operation.id,
-                error: `Test failed: ${error}`
+                requestId,
+                error: message,
+                state: aborted ? error.reason : undefined
             });
+            // Requests cancelled from the UI, or superseded by a new one, are left out of the history
+            if (prepared && !(aborted && error.reason === 'cancelled')) {
+                this._recordHistory(operation, prepared.body, { error: message });
+            }
+        } finally {
+            if (this._pendingRequests.get(operation.id)?.controller === controller) {
+                this._pendingRequests.delete(operation.id);
+            }
         }
     }
 
-    private async _httpGet(url: string, clientCert?: any, globalHeaders?: Array<{key: string, value: string}>): Promise<string> {
-        // Build headers object from global headers
-        const headers: Record<string, string> = {};
-        if (globalHeaders && globalHeaders.length > 0) {
-            globalHeaders.forEach(header => {
-                if (header.key.trim() && header.value.trim()) {
-                    headers[header.key.trim()] = header.value.trim();
-                }
+    // The URL, headers and body of a request from the UI as they are sent, with the auth panel's credentials applied
+    private async _prepareRequest(operation: any): Promise<{ url: string, headers: Record<string, string>, body?: string }> {
+        const body = this._serializeBody(operation.body);
+
+        // Add the credentials for the operation's security requirements from the auth panel
+        let url: string = operation.url;
+        let headers: Record<string, string> = operation.headers || {};
+        if (operation.security) {
+            const authenticated = await applySecurity(url, headers, operation.security,
+                (scheme, credentials, scopes, requestUrl) => this._getOAuth2Token(scheme, credentials, scopes, requestUrl, operation.clientCert));
+            url = authenticated.url;
+            headers = authenticated.headers;
+            console.log('Applied security schemes:', authenticated.applied.join(', ') || 'none');
+        }
+        return { url, headers, body };
+    }
+
+    // Handle request body properly - don't double-stringify
+    private _serializeBody(body: any): string | undefined {
+        if (body === undefined) {
+            return undefined;
+        }
+        // Safety check: make sure we're not sending schema objects
+        if (typeof body === 'object' && 
+            (body.hasOwnProperty('content') || 
+             body.hasOwnProperty('schema') ||
+             body.hasOwnProperty('description'))) {
+            console.error('Detected schema object being sent as request body:', body);
+            return undefined;
+        }
+        return typeof body === 'string' ? body : JSON.stringify(body);
+    }
+
+    /**
+     * Records a request with its URL, headers and body as the UI had them before {{variables}} were
+     * resolved, and before the auth panel's credentials were applied; credential headers typed in as
+     * literal values are masked by the history itself.
+     */
+    private async _recordHistory(operation: any, body: string | undefined, outcome: Partial<HistoryEntry>) {
+        try {
+            const entry = await this._history.add({
+                operationId: operation.id,
+                summary: operation.summary,
+                method: operation.method,
+                url: operation.urlTemplate ?? operation.url,
+                headers: operation.headerTemplates || operation.headers || {},
+                body: operation.bodyTemplate !== undefined ? this._serializeBody(operation.bodyTemplate) : body,
+                security: operation.security && { requirements: operation.security.requirements, schemes: operation.security.schemes },
+                timeout: operation.timeout,
+                ...outcome
             });
-            console.log('Using global headers for OpenAPI spec request:', Object.keys(headers).join(', '));
+            if (entry) {
+                this._postHistory();
+            }
+        } catch (error) {
+            console.error('Failed to record request history:', error);
         }
+    }
 
-        const response = await this._httpRequest(url, {
-            method: 'GET',
-            headers: headers,
-            clientCert: clientCert
-        });
-        return response.body;
+    private async _postHistory() {
+        try {
+            this._panel.webview.postMessage({
+                command: 'historyLoaded',
+                entries: await this._history.list(this._historyFilter.query, this._historyFilter.pinnedOnly)
+            });
+        } catch (error) {
+            console.error('Failed to read request history:', error);
+        }
     }
 
-    private _httpRequest(url: string, options: any): Promise<{body: string, statusCode: number}> {
-        return new Promise((resolve, reject) => {
-            let urlObj: URL;
-            try {
-                urlObj = new URL(url);
-            } catch (error) {
-                reject(new Error(`Invalid URL: ${url}. Error: ${error}`));
-                return;
+    private async _updateHistory(update: () => Promise<void>) {
+        try {
+            await update();
+            this._postHistory();
+        } catch (error) {
+            console.error('Update history error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to update the request history: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _clearHistory() {
+        const choice = await vscode.window.showWarningMessage('Delete all request history except pinned entries?', { modal: true }, 'Delete');
+        if (choice === 'Delete') {
+            this._updateHistory(() => this._history.clear());
+        }
+    }
+
+    private async _openHistoryEntry(id: string) {
+        try {
+            const entry = await this._getHistoryEntry(id);
+            const operationId = this._showHistoryRequest(entry);
+            if (entry.status !== undefined) {
+                this._panel.webview.postMessage({
+                    command: 'operationTestResult',
+                    operationId,
+                    result: entry.response ?? '',
+                    status: entry.status,
+                    statusText: entry.statusText,
+                    headers: entry.responseHeaders,
+                    contentType: entry.contentType,
+                    size: entry.size,
+                    timings: entry.timings,
+                    finalUrl: entry.finalUrl,
+                    redirects: entry.redirects,
+                    assertions: entry.assertions
+                });
+            } else {
+                this._panel.webview.postMessage({ command: 'operationTestError', operationId, error: entry.error });
             }
-            const client = urlObj.protocol === 'https:' ? https : http;
-            
-            const requestOptions: any = {
-                hostname: urlObj.hostname,
-                port: urlObj.port,
-                path: urlObj.pathname + urlObj.search,
-                method: options.method || 'GET',
-                headers: options.headers || {}
-            };
+        } catch (error) {
+            console.error('Open history entry error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to open history entry: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
 
-            // Add client certificate options if provided
-            if (options.clientCert && options.clientCert.enabled) {
+    // Sends a recorded request again with the auth panel's current credentials, client certificate and environment variables
+    private async _resendHistoryEntry(id: string, credentials: Record<string, SchemeCredentials> | undefined, clientCert: any,
+        variables: Record<string, string> | undefined) {
+        try {
+            const entry = await this._getHistoryEntry(id);
+            if (entry.bodyTruncated) {
+                throw new Error('its request body was larger than the history keeps');
+            }
+            const operationId = this._showHistoryRequest(entry);
+            const requestId = randomUUID();
+            this._panel.webview.postMessage({ command: 'historyRequestSent', operationId, requestId });
+            const values = variables || {};
+            const headers = Object.fromEntries(Object.entries(entry.headers)
+                .filter(([, value]) => value !== MASKED_HEADER_VALUE)
+                .map(([key, value]) => [key, substituteVariables(value, values)]));
+            let body = entry.body;
+            if (body !== undefined) {
                 try {
-                    if (options.clientCert.certPath) {
-                        requestOptions.cert = fs.readFileSync(options.clientCert.certPath);
-                    }
-                    if (options.clientCert.keyPath) {
-                        requestOptions.key = fs.readFileSync(options.clientCert.keyPath);
-                    }
-                    if (options.clientCert.passphrase) {
-                        requestOptions.passphrase = options.clientCert.passphrase;
-                    }
-                    if (options.clientCert.caCertPath) {
-                        requestOptions.ca = fs.readFileSync(options.clientCert.caCertPath);
-                    }
-                } catch (certError) {
-                    reject(new Error(`Client certificate error: ${certError}`));
+                    // Substituted value by value, so a variable holding quotes cannot break the JSON
+                    body = JSON.stringify(substituteInJson(JSON.parse(body), values));
+                } catch {
+                    body = substituteVariables(body, values);
+                }
+            }
+            await this._testApiOperation({
+                id: operationId,
+                requestId,
+                summary: entry.summary,
+                method: entry.method,
+                url: substituteVariables(entry.url, values),
+                urlTemplate: entry.url,
+                headers,
+                headerTemplates: entry.headers,
+                body,
+                bodyTemplate: entry.body,
+                timeout: entry.timeout,
+                clientCert,
+                security: entry.security && { ...entry.security, credentials: credentials || {} }
+            });
+        } catch (error) {
+            console.error('Re-send history entry error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to re-send history entry: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    // Compares a response with the saved output, the previous run, or a history entry picked here
+    private async _diffResponse(operationId: string, response: string, source: 'saved' | 'previous' | 'history', baseline?: string) {
+        try {
+            let label = source === 'saved' ? 'the saved response' : 'the previous run';
+            if (source === 'saved' && baseline !== undefined) {
+                baseline = savedResponseBody(baseline);
+            } else if (source === 'history') {
+                const entry = await this._pickHistoryEntry(operationId);
+                if (!entry) {
                     return;
                 }
+                baseline = entry.response ?? '';
+                label = `the ${entry.status} response of ${entry.method} ${entry.url} from ${new Date(entry.timestamp).toLocaleString()}`;
+                if (entry.responseTruncated) {
+                    label += ' (cut off at the history size limit)';
+                }
+            }
+            if (baseline === undefined) {
+                throw new Error(`there is no ${label.replace(/^the /, '')} to compare with`);
             }
+            this._panel.webview.postMessage({
+                command: 'responseDiff',
+                operationId,
+                baseline: label,
+                diff: diffResponses(baseline, response)
+            });
+        } catch (error) {
+            console.error('Diff response error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to compare responses: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
 
-            const req = client.request(requestOptions, (res) => {
-                let data = '';
-                res.on('data', (chunk) => data += chunk);
-                res.on('end', () => {
-                    resolve({
-                        body: data,
-                        statusCode: res.statusCode || 0
-                    });
-                });
+    // Entries of the same operation are offered first; when it has none, every entry with a response
+    private async _pickHistoryEntry(operationId: string): Promise<HistoryEntry | undefined> {
+        const responses = (await this._history.list()).filter(entry => entry.status !== undefined);
+        const sameOperation = responses.filter(entry => entry.operationId === operationId);
+        const candidates = sameOperation.length > 0 ? sameOperation : responses;
+        if (candidates.length === 0) {
+            throw new Error('the request history has no responses yet');
+        }
+        const choice = await vscode.window.showQuickPick(candidates.map(entry => ({
+            label: `${entry.status} ${entry.method} ${entry.url}`,
+            description: new Date(entry.timestamp).toLocaleString(),
+            detail: entry.pinned ? 'Pinned' : undefined,
+            id: entry.id
+        })), { placeHolder: 'Compare the response with the one from' });
+        return choice && this._getHistoryEntry(choice.id);
+    }
+
+    private async _getHistoryEntry(id: string): Promise<HistoryEntry> {
+        const entry = await this._history.get(id);
+        if (!entry) {
+            throw new Error('it is no longer in the history');
+        }
+        return entry;
+    }
+
+    /**
+     * Opens a recorded request in the operation it was sent from, with its parameters back in the input
+     * editor, or in Manual API Testing when that operation is not loaded. Returns the operation id used.
+     */
+    private _showHistoryRequest(entry: HistoryEntry): string {
+        // Masked credentials would only be sent as they are, so the auth panel has to supply them again
+        const headers = Object.entries(entry.headers)
+            .filter(([, value]) => value !== MASKED_HEADER_VALUE)
+            .map(([key, value]) => ({ key, value }));
+        // Webhook payloads go to a callback URL, so only requests to spec operations are matched
+        const match = /^(fallback|WEBHOOK)_/.test(entry.operationId) ? undefined : matchOperation(this._openApiSpec, entry.method, entry.url, headers);
+        if (match) {
+            const testData: SavedTestData = {
+                ...matchToTestData({ id: entry.id, name: entry.summary || '', method: entry.method, url: entry.url, headers, body: entry.body }, match),
+                timeout: entry.timeout
+            };
+            this._panel.webview.postMessage({ command: 'testDataLoaded', testData });
+            return testData.operation.id;
+        }
+
+        let body = entry.body;
+        try {
+            body = body && JSON.stringify(JSON.parse(body), null, 2);
+        } catch {
+            // Not JSON; shown as it was sent
+        }
+        this._panel.webview.postMessage({
+            command: 'historyRequestOpened',
+            request: { method: entry.method, url: entry.url, headers, body },
+            timeout: entry.timeout
+        });
+        return `fallback_${entry.method.toLowerCase()}`;
+    }
+
+    private async _copyRequestAs(operation: any) {
+        try {
+            const choice = await vscode.window.showQuickPick(
+                (Object.keys(SNIPPET_LANGUAGES) as SnippetLanguage[]).map(language => ({ ...SNIPPET_LANGUAGES[language], language })),
+                { placeHolder: `Copy ${operation.method} ${operation.url} as` }
+            );
+            if (!choice) {
+                return;
+            }
+
+            const { url, headers, body } = await this._prepareRequest(operation);
+            const snippet = renderSnippet({ method: operation.method, url, headers, body, clientCert: operation.clientCert, timeout: operation.timeout }, choice.language);
+            await vscode.env.clipboard.writeText(snippet);
+            vscode.window.showInformationMessage(`Copied ${operation.method} ${url} as ${choice.label} (${choice.description})`);
+        } catch (error) {
+            console.error('Copy request error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to copy the request: ${error instanceof Error ? error.message : error}`
             });
+        }
+    }
 
-            req.on('error', reject);
+    private async _importCurl() {
+        try {
+            // A command on the clipboard is filled in, so copying it from the docs is all it takes
+            const clipboard = (await vscode.env.clipboard.readText()).trim();
+            const command = await vscode.window.showInputBox({
+                title: 'Import cURL',
+                prompt: 'Paste a cURL command',
+                placeHolder: 'curl -X POST https://api.example.com/items -H \'Content-Type: application/json\' -d \'{"name": "item"}\'',
+                value: /^curl\s/.test(clipboard) ? clipboard : '',
+                ignoreFocusOut: true
+            });
+            if (!command) {
+                return;
+            }
 
-            if (options.body) {
-                req.write(options.body);
+            const imported = parseCurlCommand(command);
+            const step = imported.step;
+            if (!['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(step.method)) {
+                imported.warnings.push(`Manual API Testing cannot send ${step.method} requests; the request opens as a GET`);
+            }
+            this._panel.webview.postMessage({
+                command: 'curlImported',
+                request: { method: step.method, url: step.url, headers: step.headers, body: step.body },
+                clientCert: imported.clientCert,
+                timeout: imported.timeout
+            });
+            await this._reportWarnings(`Imported ${step.method} ${step.url} from cURL`, imported.warnings);
+        } catch (error) {
+            console.error('Import cURL error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to import the cURL command: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _runCollection(collection: Collection, variables: Record<string, string>, credentials: Record<string, SchemeCredentials>, clientCert?: any) {
+        this._collectionRun?.abort();
+        const controller = new AbortController();
+        this._collectionRun = controller;
+
+        try {
+            const result = await runCollection(collection, {
+                variables: variables || {},
+                credentials: credentials || {},
+                spec: this._openApiSpec,
+                send: (request, signal) => this._httpRequest(request.url, {
+                    method: request.method,
+                    headers: request.headers,
+                    body: request.body,
+                    clientCert,
+                    timeout: this._getRequestTimeout(request.timeout),
+                    signal
+                }),
+                getToken: (scheme, schemeCredentials, scopes, requestUrl) => this._getOAuth2Token(scheme, schemeCredentials, scopes, requestUrl, clientCert),
+                signal: controller.signal,
+                onStepStart: step => this._panel.webview.postMessage({ command: 'collectionStepStarted', stepId: step.id }),
+                onStepComplete: stepResult => this._panel.webview.postMessage({ command: 'collectionStepResult', result: stepResult })
+            });
+            this._lastCollectionRun = result;
+            this._panel.webview.postMessage({ command: 'collectionRunComplete', result });
+        } catch (error) {
+            this._panel.webview.postMessage({
+                command: 'collectionRunError',
+                error: `Collection run failed: ${error instanceof Error ? error.message : error}`
+            });
+        } finally {
+            if (this._collectionRun === controller) {
+                this._collectionRun = undefined;
             }
+        }
+    }
+
+    private async _getOAuth2Token(scheme: any, credentials: SchemeCredentials, scopes: string[], requestUrl: string, clientCert?: any): Promise<string> {
+        if (oauth2Flow(scheme, credentials) === 'authorizationCode') {
+            return this._oauth2.getAuthorizationCodeToken(this._getAuthorizationCodeRequest(scheme, credentials, scopes, requestUrl),
+                url => this._openExternal(url), clientCert);
+        }
+
+        const flow = scheme.flows?.clientCredentials;
+        if (!flow?.tokenUrl) {
+            throw new Error('Enter an access token for this OAuth2 scheme; only the client credentials and authorization code flows can fetch tokens');
+        }
+        return this._oauth2.getClientCredentialsToken({
+            // OpenAPI 3.1 allows token URLs relative to the API server
+            tokenUrl: new URL(flow.tokenUrl, requestUrl).toString(),
+            clientId: credentials.clientId!,
+            clientSecret: credentials.clientSecret,
+            scopes,
+            clientAuthentication: credentials.clientAuthentication
+        }, clientCert);
+    }
+
+    private async _authorizeOAuth2(schemeName: string, scheme: any, credentials: SchemeCredentials, baseUrl: string, clientCert?: any) {
+        try {
+            const scopes = (credentials.scope || '').split(/[\s,]+/).filter(Boolean);
+            const token = await this._oauth2.authorize(this._getAuthorizationCodeRequest(scheme, credentials, scopes, baseUrl),
+                url => this._openExternal(url), clientCert);
+            this._panel.webview.postMessage({
+                command: 'oauth2Authorized',
+                schemeName,
+                expiresAt: token.expiresAt,
+                hasRefreshToken: token.hasRefreshToken
+            });
+        } catch (error) {
+            this._panel.webview.postMessage({
+                command: 'oauth2AuthorizationFailed',
+                schemeName,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    private _getAuthorizationCodeRequest(scheme: any, credentials: SchemeCredentials, scopes: string[], baseUrl: string): AuthorizationCodeRequest {
+        const flow = scheme.flows?.authorizationCode;
+        if (!flow?.authorizationUrl || !flow?.tokenUrl) {
+            throw new Error('The authorization code flow needs both an authorizationUrl and a tokenUrl');
+        }
+        const config = vscode.workspace.getConfiguration('spekai');
+        return {
+            // OpenAPI 3.1 allows flow URLs relative to the API server
+            authorizationUrl: new URL(flow.authorizationUrl, baseUrl).toString(),
+            tokenUrl: new URL(flow.tokenUrl, baseUrl).toString(),
+            clientId: credentials.clientId!,
+            clientSecret: credentials.clientSecret,
+            scopes,
+            clientAuthentication: credentials.clientAuthentication,
+            redirectPort: config.get<number>('oauth2RedirectPort', 0)
+        };
+    }
+
+    private async _openExternal(url: string): Promise<void> {
+        const opened = await vscode.env.openExternal(vscode.Uri.parse(url));
+        if (!opened) {
+            throw new Error(`Could not open the authorization URL in a browser: ${url}`);
+        }
+    }
 
-            req.end();
+    private async _postForm(url: string, form: Record<string, string>, headers: Record<string, string>, clientCert?: any): Promise<HttpResponse> {
+        return this._httpRequest(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json',
+                ...headers
+            },
+            body: new URLSearchParams(form).toString(),
+            clientCert,
+            timeout: this._getRequestTimeout()
         });
     }
 
+    private _getValidationOptions(): ValidationOptions {
+        return {
+            // Only local refs kept for circular schemas remain after the spec is dereferenced
+            resolveRef: (ref: string) => ref.startsWith('#/') ? RefResolver.resolvePointer(this._openApiSpec, ref.substring(1)) : undefined,
+            spec: this._openApiSpec
+        };
+    }
+
+    private _postEnvironments() {
+        const config = vscode.workspace.getConfiguration('spekai');
+        this._panel.webview.postMessage({
+            command: 'environmentsLoaded',
+            environments: config.get<Record<string, Record<string, string>>>('environments', {})
+        });
+    }
+
+    private async _saveEnvironments(environments: Record<string, Record<string, string>>) {
+        try {
+            // Write back to the workspace when the environments came from there, otherwise to user settings
+            const config = vscode.workspace.getConfiguration('spekai');
+            const inspected = config.inspect('environments');
+            const target = inspected?.workspaceValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await config.update('environments', environments, target);
+        } catch (error) {
+            this._panel.webview.postMessage({
+                command: 'error',
+                message: `Failed to save environments: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    // A cancel for a request that has since been superseded must not abort the request that replaced it
+    private _cancelApiOperation(operationId: string, requestId?: string) {
+        const pending = this._pendingRequests.get(operationId);
+        if (pending && (!requestId || pending.requestId === requestId)) {
+            console.log('Cancelling in-flight request for operation:', operationId);
+            pending.controller.abort();
+        }
+    }
 
+    private _getHistoryLimits(): HistoryLimits {
+        const config = vscode.workspace.getConfiguration('spekai');
+        return {
+            maxEntries: Math.max(0, config.get<number>('historySize', 500)),
+            maxBodySize: Math.max(0, config.get<number>('historyMaxBodySize', 256)) * 1024
+        };
+    }
+
+    private _getRequestTimeout(requestTimeout?: number): number {
+        // A positive per-request timeout overrides the global spekai.requestTimeout setting
+        if (typeof requestTimeout === 'number' && requestTimeout > 0) {
+            return requestTimeout;
+        }
+        const config = vscode.workspace.getConfiguration('spekai');
+        return Math.max(0, config.get<number>('requestTimeout', 30000));
+    }
+
+    private async _httpGet(url: string, clientCert?: any, globalHeaders?: Array<{key: string, value: string}>): Promise<HttpResponse> {
+        // Build headers object from global headers
+        const headers: Record<string, string> = {};
+        if (globalHeaders && globalHeaders.length > 0) {
+            globalHeaders.forEach(header => {
+                if (header.key.trim() && header.value.trim()) {
+                    headers[header.key.trim()] = header.value.trim();
+                }
+            });
+            console.log('Using global headers for OpenAPI spec request:', Object.keys(headers).join(', '));
+        }
+
+        const response = await this._httpRequest(url, {
+            method: 'GET',
+            headers: headers,
+            clientCert: clientCert,
+            timeout: this._getRequestTimeout()
+        });
+        if (response.statusCode >= 400) {
+            throw new Error(`${url} returned HTTP ${response.statusCode} ${response.statusText}`);
+        }
+        return response;
+    }
+
+    private _httpRequest(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+        const config = vscode.workspace.getConfiguration('spekai');
+        return httpRequest(url, {
+            ...options,
+            followRedirects: options.followRedirects ?? config.get<boolean>('followRedirects', true),
+            maxRedirects: options.maxRedirects ?? config.get<number>('maxRedirects', 10)
+        });
+    }
 
     private _buildSchemaInfo(operation: any): string {
         let schemaInfo = `Operation: ${operation.method.toUpperCase()} ${operation.path}\n`;
@@ -385,19 +968,13 @@ export class SpekAiPanel {
         
         console.log('Attempting to resolve reference:', refPath);
         
-        // Parse the reference path (e.g., "#/components/schemas/Activity")
+        // The spec is dereferenced on load, so only local refs (kept for circular schemas) remain,
+        // e.g. "#/components/schemas/Activity"
         if (refPath.startsWith('#/')) {
-            const pathParts = refPath.substring(2).split('/'); // Remove "#/" and split
-            
-            // Navigate through the spec object
-            let current = this._openApiSpec;
-            for (const part of pathParts) {
-                if (current && typeof current === 'object' && part in current) {
-                    current = current[part];
-                } else {
-                    console.warn(`Could not find path part "${part}" in reference: ${refPath}`);
-                    return null;
-                }
+            const current = RefResolver.resolvePointer(this._openApiSpec, refPath.substring(1));
+            if (current === undefined) {
+                console.warn(`Could not resolve reference: ${refPath}`);
+                return null;
             }
             
             console.log('Successfully resolved reference to:', current);
@@ -408,6 +985,24 @@ export class SpekAiPanel {
         return null;
     }
 
+    private _isTooDeep(path: string): boolean {
+        return (path.match(/\.|\[\]/g) || []).length > 8;
+    }
+
+    // Flattens allOf/oneOf/anyOf using the variant selected for this data path
+    private _composeSchema(schema: any, path: string): any {
+        const composed = composeSchema(schema, path, {
+            resolveRef: (s: any) => this._resolveSchemaRef(s),
+            spec: this._openApiSpec,
+            selections: this._variantSelections
+        });
+        if (composed && typeof composed === 'object' && !composed.type) {
+            if (composed.properties) return { ...composed, type: 'object' };
+            if (composed.items || composed.prefixItems) return { ...composed, type: 'array' };
+        }
+        return composed;
+    }
+
     private _buildExampleStructure(operation: any): string {
         let example = '{\n';
         
@@ -468,7 +1063,8 @@ export class SpekAiPanel {
         return example;
     }
 
-    private _generateExampleValue(schema: any, fieldName?: string): any {
+    private _generateExampleValue(schema: any, fieldName?: string, path: string = '$'): any {
+        schema = this._composeSchema(schema, path) || {};
         if (schema.example !== undefined) {
             return schema.example;
         }
@@ -486,22 +1082,32 @@ export class SpekAiPanel {
                 return schema.minimum || 1;
             case 'boolean':
                 return true;
+            case 'null':
+                return null;
             case 'array':
-                return schema.items ? [this._generateExampleValue(schema.items)] : [];
+                // 2020-12 tuples describe each position with prefixItems
+                if (Array.isArray(schema.prefixItems)) {
+                    return schema.prefixItems.map((item: any, index: number) => this._generateExampleValue(item, undefined, `${path}[${index}]`));
+                }
+                return schema.items ? [this._generateExampleValue(schema.items, undefined, `${path}[]`)] : [];
             case 'object':
-                return this._generateExampleFromSchema(schema);
+                return this._generateExampleFromSchema(schema, path);
             default:
                 return 'example';
         }
     }
 
-    private _generateExampleFromSchema(schema: any): any {
+    private _generateExampleFromSchema(schema: any, path: string = '$'): any {
         if (!schema || typeof schema !== 'object') {
             return {};
         }
         
-        // Resolve any references in the schema first
-        const resolvedSchema = this._resolveSchemaRef(schema);
+        if (this._isTooDeep(path)) {
+            return {}; // Circular schemas keep their refs, so stop expanding them at some depth
+        }
+        
+        // Resolve any references and composition keywords in the schema first
+        const resolvedSchema = this._composeSchema(schema, path);
         if (!resolvedSchema) {
             return {};
         }
@@ -510,7 +1116,7 @@ export class SpekAiPanel {
         
         if (resolvedSchema.properties) {
             Object.keys(resolvedSchema.properties).forEach(key => {
-                example[key] = this._generateExampleValue(resolvedSchema.properties[key], key);
+                example[key] = this._generateExampleValue(resolvedSchema.properties[key], key, `${path}.${key}`);
             });
         }
         
@@ -615,7 +1221,7 @@ export class SpekAiPanel {
                     
                     // Check for schema example
                     if (mediaTypeObj.schema) {
-                        const schema = this._resolveSchemaRef(mediaTypeObj.schema);
+                        const schema = this._composeSchema(mediaTypeObj.schema, '$');
                         if (schema && schema.example !== undefined) {
                             console.log('🔍 Found example in schema');
                             return schema.example;
@@ -646,7 +1252,7 @@ export class SpekAiPanel {
         let hasAnyExample = false;
         
         for (const [propName, propSchema] of Object.entries(properties)) {
-            const resolvedSchema = this._resolveSchemaRef(propSchema);
+            const resolvedSchema = normalizeSchema(this._resolveSchemaRef(propSchema));
             if (resolvedSchema && resolvedSchema.example !== undefined) {
                 example[propName] = resolvedSchema.example;
                 hasAnyExample = true;
@@ -697,7 +1303,9 @@ export class SpekAiPanel {
         return this._generateBasicRealisticObject(locale);
     }
     
-    private _generateRealisticValueFromSchema(schema: any, locale: string, fieldName?: string): any {
+    private _generateRealisticValueFromSchema(schema: any, locale: string, fieldName?: string, path: string = '$'): any {
+        schema = this._composeSchema(schema, path) || {};
+        
         // Use existing example if available
         if (schema.example !== undefined) {
             return schema.example;
@@ -719,23 +1327,29 @@ export class SpekAiPanel {
             case 'boolean':
                 return Math.random() > 0.5;
                 
+            case 'null':
+                return null;
+                
             case 'array':
+                if (Array.isArray(schema.prefixItems)) {
+                    return schema.prefixItems.map((item: any, index: number) => this._generateRealisticValueFromSchema(item, locale, undefined, `${path}[${index}]`));
+                }
                 if (schema.items) {
                     const itemCount = Math.floor(Math.random() * 3) + 1; // 1-3 items
                     const items = [];
                     for (let i = 0; i < itemCount; i++) {
-                        items.push(this._generateRealisticValueFromSchema(schema.items, locale));
+                        items.push(this._generateRealisticValueFromSchema(schema.items, locale, undefined, `${path}[]`));
                     }
                     return items;
                 }
                 return [];
                 
             case 'object':
-                return this._generateRealisticObjectFromSchema(schema, locale);
+                return this._generateRealisticObjectFromSchema(schema, locale, path);
                 
             default:
                 console.log('🎯 Unknown schema type:', schema.type, 'using basic generation');
-                return this._generateExampleValue(schema, fieldName);
+                return this._generateExampleValue(schema, fieldName, path);
         }
     }
     
@@ -846,13 +1460,12 @@ export class SpekAiPanel {
         return Math.round(Math.random() * 1000 * 100) / 100; // Up to 1000.00 with 2 decimals
     }
     
-    private _generateRealisticObjectFromSchema(schema: any, locale: string): any {
+    private _generateRealisticObjectFromSchema(schema: any, locale: string, path: string = '$'): any {
         const result: any = {};
         
-        if (schema.properties) {
+        if (schema.properties && !this._isTooDeep(path)) {
             Object.keys(schema.properties).forEach(key => {
-                const propSchema = this._resolveSchemaRef(schema.properties[key]);
-                result[key] = this._generateRealisticValueFromSchema(propSchema, locale, key);
+                result[key] = this._generateRealisticValueFromSchema(schema.properties[key], locale, key, `${path}.${key}`);
             });
         }
         
@@ -1323,6 +1936,301 @@ Provider availability: GitHub Copilot=${providers.copilot}
         }
     }
 
+    private async _saveCollection(collection: Collection) {
+        try {
+            // Collections are kept next to the spekai-test-*.json files they are usually built from
+            const safeName = (collection.name || 'collection').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collection';
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`spekai-collection-${safeName}.json`),
+                filters: {
+                    'JSON Files': ['json'],
+                    'All Files': ['*']
+                }
+            });
+
+            if (saveUri) {
+                await fs.promises.writeFile(saveUri.fsPath, JSON.stringify(collection, null, 2), 'utf8');
+                this._panel.webview.postMessage({
+                    command: 'collectionSaved',
+                    filePath: saveUri.fsPath
+                });
+                vscode.window.showInformationMessage(`Collection saved to ${path.basename(saveUri.fsPath)}`);
+            }
+        } catch (error) {
+            console.error('Save collection error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to save collection: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _loadCollection() {
+        try {
+            const openUri = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                filters: {
+                    'JSON Files': ['json'],
+                    'All Files': ['*']
+                }
+            });
+
+            if (openUri && openUri[0]) {
+                const collection = JSON.parse(await fs.promises.readFile(openUri[0].fsPath, 'utf8'));
+                if (collection.format !== COLLECTION_FORMAT || !Array.isArray(collection.steps)) {
+                    throw new Error('Not a SpekAi collection file');
+                }
+
+                this._panel.webview.postMessage({
+                    command: 'collectionLoaded',
+                    collection
+                });
+                vscode.window.showInformationMessage(
+                    `Collection "${collection.name}" loaded from ${path.basename(openUri[0].fsPath)} (${collection.steps.length} steps)`
+                );
+            }
+        } catch (error) {
+            console.error('Load collection error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to load collection: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _importRequests() {
+        try {
+            const openUris = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: true, // A collection can be imported together with its environments
+                openLabel: 'Import',
+                filters: {
+                    'Postman, Insomnia and HAR Exports': ['json', 'har'],
+                    'All Files': ['*']
+                }
+            });
+            if (!openUris || openUris.length === 0) {
+                return;
+            }
+
+            const results: ImportResult[] = [];
+            for (const uri of openUris) {
+                results.push(importRequests(await fs.promises.readFile(uri.fsPath, 'utf8'), path.basename(uri.fsPath)));
+            }
+            const imported = mergeImportResults(results);
+
+            // Imported variables are added to spekai.environments without overwriting values already set there
+            if (Object.keys(imported.environments).length > 0) {
+                const existing = vscode.workspace.getConfiguration('spekai').get<Record<string, Record<string, string>>>('environments', {});
+                const environments = { ...existing };
+                Object.entries(imported.environments).forEach(([name, variables]) => {
+                    environments[name] = { ...variables, ...(existing[name] || {}) };
+                });
+                await this._saveEnvironments(environments);
+            }
+
+            // With a spec loaded, requests sent to its operations are linked to them
+            if (this._openApiSpec) {
+                linkToOperations(imported.collections, this._openApiSpec);
+            }
+
+            const collection = await this._pickImportedCollection(imported.collections);
+            const step = collection?.steps.length === 1 ? collection.steps[0] : undefined;
+            const match = step && this._openApiSpec ? matchOperation(this._openApiSpec, step.method, step.url, step.headers) : undefined;
+            if (step && match) {
+                // A single request opens in its operation, with its values in the parameter editor
+                this._panel.webview.postMessage({ command: 'testDataLoaded', testData: matchToTestData(step, match, collection?.environment) });
+            } else if (collection) {
+                this._panel.webview.postMessage({ command: 'requestsImported', collection });
+            }
+
+            const linked = collection ? collection.steps.filter(entry => entry.operation).length : 0;
+            const summary = collection
+                ? `Imported "${collection.name}" (${collection.steps.length} request${collection.steps.length === 1 ? '' : 's'}${linked > 0 ? `, ${linked} matching the spec` : ''}) from ${imported.source}`
+                : `Imported ${Object.keys(imported.environments).length} environment(s) from ${imported.source}`;
+            await this._reportWarnings(summary, imported.warnings);
+        } catch (error) {
+            console.error('Import error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to import: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _exportPostman(operations: Collection | undefined, collection: Collection | undefined, environment: string, variables: Record<string, string>) {
+        try {
+            const sources = [
+                ...(operations && operations.steps.length > 0 ? [{
+                    label: 'Spec operations',
+                    description: `${operations.steps.length} operation${operations.steps.length === 1 ? '' : 's'}`,
+                    detail: 'With their current parameter values, custom headers and request bodies',
+                    source: 'operations'
+                }] : []),
+                ...(collection && collection.steps.length > 0 ? [{
+                    label: `Collection "${collection.name}"`,
+                    description: `${collection.steps.length} request${collection.steps.length === 1 ? '' : 's'}`,
+                    source: 'collection'
+                }] : []),
+                { label: 'Saved test data files...', description: 'spekai-test-*.json', source: 'files' }
+            ];
+            const choice = await vscode.window.showQuickPick(sources, { placeHolder: 'Choose the requests to export as a Postman collection' });
+            if (!choice) {
+                return;
+            }
+
+            let name: string;
+            let collections: Collection[];
+            const environmentVariables = { ...(variables || {}) };
+            if (choice.source === 'operations') {
+                name = operations!.name;
+                collections = [operations!];
+            } else if (choice.source === 'collection') {
+                name = collection!.name;
+                collections = [collection!];
+            } else {
+                const openUris = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: true,
+                    openLabel: 'Export',
+                    filters: {
+                        'SpekAi Test Data': ['json'],
+                        'All Files': ['*']
+                    }
+                });
+                if (!openUris || openUris.length === 0) {
+                    return;
+                }
+                const configured = vscode.workspace.getConfiguration('spekai').get<Record<string, Record<string, string>>>('environments', {});
+                collections = [];
+                for (const uri of openUris) {
+                    const testData = JSON.parse(await fs.promises.readFile(uri.fsPath, 'utf8'));
+                    if (!isSavedTestData(testData)) {
+                        throw new Error(`${path.basename(uri.fsPath)} is not a SpekAi test data file`);
+                    }
+                    collections.push(testDataToCollection(testData));
+                    // Values of the environment each test was saved with fill in variables the active environment lacks
+                    Object.entries(testData.environment ? configured[testData.environment] || {} : {}).forEach(([key, value]) => {
+                        if (!(key in environmentVariables)) {
+                            environmentVariables[key] = value;
+                        }
+                    });
+                }
+                name = collections.length === 1 ? collections[0].name : 'SpekAi saved requests';
+            }
+
+            const exported = exportPostmanCollection(name, collections, environmentVariables, environment || name);
+            const safeName = name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'spekai';
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`${safeName}.postman_collection.json`),
+                filters: {
+                    'Postman Collections': ['json'],
+                    'All Files': ['*']
+                }
+            });
+            if (!saveUri) {
+                return;
+            }
+
+            await fs.promises.writeFile(saveUri.fsPath, JSON.stringify(exported.collection, null, 2), 'utf8');
+            // The environment is written next to the collection under Postman's own file naming
+            const written = [path.basename(saveUri.fsPath)];
+            if (exported.environment) {
+                const environmentPath = path.join(path.dirname(saveUri.fsPath),
+                    `${exported.environment.name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'spekai'}.postman_environment.json`);
+                await fs.promises.writeFile(environmentPath, JSON.stringify(exported.environment, null, 2), 'utf8');
+                written.push(path.basename(environmentPath));
+            }
+
+            const steps = collections.reduce((count, entry) => count + entry.steps.length, 0);
+            await this._reportWarnings(`Exported ${steps} request${steps === 1 ? '' : 's'} to ${written.join(' and ')}`, exported.warnings);
+        } catch (error) {
+            console.error('Export to Postman error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to export to Postman: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    // Parts of an import or export that could not be carried over are listed in a document on request
+    private async _reportWarnings(summary: string, warnings: string[]) {
+        if (warnings.length === 0) {
+            vscode.window.showInformationMessage(summary);
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(`${summary}; ${warnings.length} item(s) could not be carried over`, 'Show Details');
+        if (choice === 'Show Details') {
+            const document = await vscode.workspace.openTextDocument({
+                content: warnings.map(warning => `- ${warning}`).join('\n'),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(document);
+        }
+    }
+
+    // The first collection of an import holds all of its requests; the rest are suites such as top-level Postman folders
+    private async _pickImportedCollection(collections: Collection[]): Promise<Collection | undefined> {
+        if (collections.length <= 1) {
+            return collections[0];
+        }
+        const choice = await vscode.window.showQuickPick(
+            collections.map(collection => ({
+                label: collection.name,
+                description: `${collection.steps.length} request${collection.steps.length === 1 ? '' : 's'}`,
+                collection
+            })),
+            { placeHolder: 'Choose the requests to open as a collection' }
+        );
+        return choice?.collection;
+    }
+
+    private async _exportReport() {
+        try {
+            const run = this._lastCollectionRun;
+            if (!run) {
+                throw new Error('Run the collection first');
+            }
+            const choice = await vscode.window.showQuickPick(
+                (Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => ({ label: REPORT_FORMATS[format].label, format })),
+                { placeHolder: 'Report format' }
+            );
+            if (!choice) {
+                return;
+            }
+
+            const extension = REPORT_FORMATS[choice.format].extension;
+            const safeName = (run.name || 'collection').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collection';
+            const timestamp = run.startedAt.replace(/[:.]/g, '-').replace(/-\d+Z$/, '');
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`spekai-report-${safeName}-${timestamp}.${extension}`),
+                filters: {
+                    [`${REPORT_FORMATS[choice.format].label} Files`]: [extension],
+                    'All Files': ['*']
+                }
+            });
+
+            if (saveUri) {
+                await fs.promises.writeFile(saveUri.fsPath, renderReport(createReport(run.name, [run]), choice.format), 'utf8');
+                this._panel.webview.postMessage({
+                    command: 'reportExported',
+                    filePath: saveUri.fsPath
+                });
+                vscode.window.showInformationMessage(`Report saved to ${path.basename(saveUri.fsPath)}`);
+            }
+        } catch (error) {
+            console.error('Export report error:', error);
+            this._panel.webview.postMessage({
+                command: 'saveLoadError',
+                error: `Failed to export report: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
     private async _browseFile(fileType: string) {
         try {
             // Determine file filters based on file type
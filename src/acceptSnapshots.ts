@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { StepResult, runCollection } from './collectionRunner';
+import { httpRequest } from './httpClient';
+import { SavedTestData, acceptSnapshot, isSavedTestData, testDataToCollection } from './testData';
+
+interface SnapshotChange {
+    uri: vscode.Uri;
+    testData: SavedTestData;
+    step: StepResult;
+}
+
+/**
+ * The SpekAi: Accept New Snapshots command. Re-runs every saved test in the workspace that has a
+ * snapshot, lists the ones whose response no longer matches, and saves the picked responses as
+ * their new snapshots. Tests run with the environment they were saved with, as the CLI runner does.
+ */
+export async function acceptNewSnapshots() {
+    const tests = await findSnapshotTests();
+    if (tests.length === 0) {
+        vscode.window.showInformationMessage('No saved tests with a snapshot were found in the workspace');
+        return;
+    }
+
+    const changes = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Checking snapshots',
+        cancellable: true
+    }, (progress, token) => runSnapshotTests(tests, progress, token));
+    if (!changes) {
+        return;
+    }
+
+    // Tests whose request failed have no response to accept
+    const failed = changes.filter(change => !change.step.snapshot?.diff || !change.step.response);
+    const acceptable = changes.filter(change => !failed.includes(change));
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(`${failed.length} test(s) could not be checked: ` +
+            failed.map(change => `${path.basename(change.uri.fsPath)} (${change.step.error || change.step.snapshot?.message})`).join(', '));
+    }
+    if (acceptable.length === 0) {
+        if (failed.length === 0) {
+            vscode.window.showInformationMessage(`All ${tests.length} snapshot(s) match`);
+        }
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(acceptable.map(change => ({
+        label: path.basename(change.uri.fsPath),
+        description: change.step.snapshot!.message.replace(/^Response does not match the snapshot: /, ''),
+        detail: `${change.step.method} ${change.step.url}`,
+        picked: true,
+        change
+    })), {
+        canPickMany: true,
+        placeHolder: `${acceptable.length} of ${tests.length} snapshot(s) changed; pick the responses to accept as new snapshots`
+    });
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    try {
+        for (const { change } of picked) {
+            if (acceptSnapshot(change.testData, change.step)) {
+                await fs.promises.writeFile(change.uri.fsPath, JSON.stringify(change.testData, null, 2), 'utf8');
+            }
+        }
+        vscode.window.showInformationMessage(`Accepted ${picked.length} new snapshot(s)`);
+    } catch (error) {
+        console.error('Accept snapshots error:', error);
+        vscode.window.showErrorMessage(`Failed to save snapshots: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function findSnapshotTests(): Promise<Array<{ uri: vscode.Uri, testData: SavedTestData }>> {
+    const uris = await vscode.workspace.findFiles('**/spekai-test-*.json', '**/node_modules/**');
+    const tests: Array<{ uri: vscode.Uri, testData: SavedTestData }> = [];
+    for (const uri of uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+        try {
+            const testData = JSON.parse(await fs.promises.readFile(uri.fsPath, 'utf8'));
+            if (isSavedTestData(testData) && testData.snapshot) {
+                tests.push({ uri, testData });
+            }
+        } catch (error) {
+            // Files that are not valid JSON are not saved tests
+            console.log(`Skipping ${uri.fsPath}:`, error);
+        }
+    }
+    return tests;
+}
+
+// Returns the tests whose snapshot did not match, or undefined when the run was cancelled
+async function runSnapshotTests(tests: Array<{ uri: vscode.Uri, testData: SavedTestData }>,
+    progress: vscode.Progress<{ message?: string, increment?: number }>, token: vscode.CancellationToken): Promise<SnapshotChange[] | undefined> {
+    const config = vscode.workspace.getConfiguration('spekai');
+    const environments = config.get<Record<string, Record<string, string>>>('environments', {});
+    const controller = new AbortController();
+    const cancellation = token.onCancellationRequested(() => controller.abort());
+    const changes: SnapshotChange[] = [];
+
+    try {
+        for (const [index, test] of tests.entries()) {
+            if (controller.signal.aborted) {
+                return undefined;
+            }
+            progress.report({ message: `${index + 1} of ${tests.length}: ${path.basename(test.uri.fsPath)}`, increment: 100 / tests.length });
+            const collection = testDataToCollection(test.testData);
+            const clientCert = test.testData.clientCert?.enabled ? test.testData.clientCert : undefined;
+            const result = await runCollection(collection, {
+                variables: environments[collection.environment || ''] || {},
+                credentials: {},
+                send: (request, signal) => httpRequest(request.url, {
+                    method: request.method,
+                    headers: request.headers,
+                    body: request.body,
+                    clientCert,
+                    timeout: request.timeout || Math.max(0, config.get<number>('requestTimeout', 30000)),
+                    followRedirects: config.get<boolean>('followRedirects', true),
+                    maxRedirects: config.get<number>('maxRedirects', 10),
+                    signal
+                }),
+                getToken: async () => {
+                    throw new Error('OAuth2 tokens are not requested when checking snapshots; use an environment variable in an Authorization header');
+                },
+                signal: controller.signal
+            });
+            const step = result.steps[0];
+            if (step.status !== 'skipped' && step.snapshot?.passed !== true) {
+                changes.push({ uri: test.uri, testData: test.testData, step });
+            }
+        }
+        return controller.signal.aborted ? undefined : changes;
+    } finally {
+        cancellation.dispose();
+    }
+}
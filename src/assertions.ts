@@ -0,0 +1,190 @@
+import { isSingularJsonPath, queryJsonPath } from './jsonPath';
+import { ValidationOptions, validateResponse, validateSchema } from './schemaValidator';
+
+export interface Assertion {
+    type: 'status' | 'jsonPath' | 'header' | 'responseTime' | 'schema';
+    target?: string; // JSONPath for jsonPath assertions, the header name for header assertions
+    operator?: 'equals' | 'contains' | 'matches' | 'exists' | 'present';
+    expected?: string; // Status code or range, expected value, regular expression, maximum milliseconds, or an inline JSON Schema
+}
+
+export interface AssertionResult {
+    assertion: Assertion;
+    passed: boolean;
+    message: string; // What was checked and, on failure, what was found instead
+}
+
+export interface AssertionResponse {
+    statusCode: number;
+    headers: Record<string, string | string[]>;
+    body: string;
+    contentType: string;
+    duration: number; // Total response time in milliseconds
+}
+
+/**
+ * Checks a response against declarative assertions. Schema assertions use the inline JSON Schema in
+ * `expected` when there is one, and otherwise validate against the operation's declared `responses`.
+ */
+export function evaluateAssertions(assertions: Assertion[], response: AssertionResponse, responses?: any, options: ValidationOptions = {}): AssertionResult[] {
+    let parsedBody: any;
+    let bodyError: string | undefined;
+    try {
+        parsedBody = JSON.parse(response.body);
+    } catch {
+        bodyError = 'Response body is not JSON';
+    }
+
+    return assertions.map(assertion => {
+        try {
+            switch (assertion.type) {
+                case 'status':
+                    return checkStatus(assertion, response.statusCode);
+                case 'jsonPath':
+                    return bodyError ? { assertion, passed: false, message: bodyError } : checkJsonPath(assertion, parsedBody);
+                case 'header':
+                    return checkHeader(assertion, response.headers);
+                case 'responseTime': {
+                    const limit = Number(assertion.expected);
+                    if (!Number.isFinite(limit) || limit <= 0) {
+                        return { assertion, passed: false, message: `Invalid response time limit "${assertion.expected}"` };
+                    }
+                    return { assertion, passed: response.duration < limit, message: `Response time ${response.duration} ms (limit ${limit} ms)` };
+                }
+                case 'schema':
+                    return checkSchema(assertion, response, parsedBody, bodyError, responses, options);
+                default:
+                    return { assertion, passed: false, message: `Unknown assertion type "${assertion.type}"` };
+            }
+        } catch (error) {
+            return { assertion, passed: false, message: error instanceof Error ? error.message : String(error) };
+        }
+    });
+}
+
+/** Describes an assertion in one line, e.g. `status is 2XX` or `$.id equals 7`. */
+export function describeAssertion(assertion: Assertion): string {
+    switch (assertion.type) {
+        case 'status':
+            return `status is ${assertion.expected}`;
+        case 'jsonPath':
+            return assertion.operator === 'exists'
+                ? `${assertion.target} exists`
+                : `${assertion.target} ${assertion.operator || 'equals'} ${assertion.expected ?? ''}`;
+        case 'header':
+            return assertion.operator === 'equals'
+                ? `header ${assertion.target} equals ${assertion.expected ?? ''}`
+                : `header ${assertion.target} is present`;
+        case 'responseTime':
+            return `response time below ${assertion.expected} ms`;
+        case 'schema':
+            return assertion.expected?.trim() ? 'body matches the given schema' : 'body matches the response schema';
+    }
+}
+
+/** Whether a status assertion is among the assertions, i.e. whether the status code alone should decide a pass. */
+export function hasStatusAssertion(assertions?: Assertion[]): boolean {
+    return (assertions || []).some(assertion => assertion.type === 'status');
+}
+
+function checkStatus(assertion: Assertion, statusCode: number): AssertionResult {
+    // Accepts "200", "2XX", "200-299" and comma-separated lists of those
+    const expected = (assertion.expected || '').trim();
+    const passed = expected.split(',').map(part => part.trim()).filter(Boolean).some(part => {
+        const range = /^(\d{3})\s*-\s*(\d{3})$/.exec(part);
+        if (range) {
+            return statusCode >= Number(range[1]) && statusCode <= Number(range[2]);
+        }
+        if (/^\dxx$/i.test(part)) {
+            return Math.floor(statusCode / 100) === Number(part[0]);
+        }
+        if (/^\d{3}$/.test(part)) {
+            return statusCode === Number(part);
+        }
+        throw new Error(`Invalid status "${part}"; use a code (200), a class (2XX) or a range (200-299)`);
+    });
+    return { assertion, passed, message: `Status ${statusCode}${passed ? '' : `, expected ${expected}`}` };
+}
+
+function checkJsonPath(assertion: Assertion, body: any): AssertionResult {
+    const matches = queryJsonPath(body, assertion.target || '$');
+    if (assertion.operator === 'exists') {
+        return { assertion, passed: matches.length > 0, message: matches.length > 0 ? `${matches.length} match(es)` : `No match for ${assertion.target}` };
+    }
+    if (matches.length === 0) {
+        return { assertion, passed: false, message: `No match for ${assertion.target}` };
+    }
+
+    const expected = assertion.expected ?? '';
+    // A path that can select several values is checked as a list however many it found, so `$.items[*].id contains 3` works
+    const actual = isSingularJsonPath(assertion.target || '$') ? matches[0] : matches;
+    let passed: boolean;
+    switch (assertion.operator) {
+        case 'contains':
+            passed = Array.isArray(actual)
+                ? actual.some(item => sameValue(item, expected))
+                : typeof actual === 'string' ? actual.includes(expected) : stringify(actual).includes(expected);
+            break;
+        case 'matches':
+            passed = new RegExp(expected).test(stringify(actual));
+            break;
+        default:
+            passed = sameValue(actual, expected);
+    }
+    return { assertion, passed, message: `Found ${truncate(stringify(actual))}` };
+}
+
+function checkHeader(assertion: Assertion, headers: Record<string, string | string[]>): AssertionResult {
+    const target = (assertion.target || '').trim().toLowerCase();
+    const name = Object.keys(headers).find(key => key.toLowerCase() === target);
+    if (name === undefined) {
+        return { assertion, passed: false, message: `No ${assertion.target} header in the response` };
+    }
+    const value = Array.isArray(headers[name]) ? (headers[name] as string[]).join(', ') : headers[name] as string;
+    if (assertion.operator !== 'equals') {
+        return { assertion, passed: true, message: `${name}: ${truncate(value)}` };
+    }
+    return { assertion, passed: value === (assertion.expected ?? ''), message: `${name}: ${truncate(value)}` };
+}
+
+function checkSchema(assertion: Assertion, response: AssertionResponse, body: any, bodyError: string | undefined,
+    responses: any, options: ValidationOptions): AssertionResult {
+    let violations;
+    if (assertion.expected?.trim()) {
+        if (bodyError) {
+            return { assertion, passed: false, message: bodyError };
+        }
+        violations = validateSchema(body, JSON.parse(assertion.expected), { ...options, direction: 'response' });
+    } else {
+        if (!responses || Object.keys(responses).length === 0) {
+            return { assertion, passed: false, message: 'No response schema is declared for this request' };
+        }
+        const validation = validateResponse(responses, response.statusCode, response.contentType, response.body, options);
+        violations = validation.violations;
+        if (validation.valid && validation.skipped) {
+            return { assertion, passed: true, message: validation.skipped };
+        }
+    }
+    return violations.length === 0
+        ? { assertion, passed: true, message: 'Body matches the schema' }
+        : { assertion, passed: false, message: violations.map(item => `${item.pointer || '/'}: ${item.message}`).join('; ') };
+}
+
+// Compares a value with expected text, which is read as JSON when it parses (so 7, true and null match their types)
+function sameValue(actual: any, expected: string): boolean {
+    let parsed: any = expected;
+    try {
+        parsed = JSON.parse(expected);
+    } catch {
+        // Plain text
+    }
+    return JSON.stringify(actual) === JSON.stringify(parsed) || (typeof actual === 'string' && actual === expected);
+}
+
+function stringify(value: any): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function truncate(text: string): string {
+    return text.length > 200 ? `${text.substring(0, 200)}…` : text;
+}
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { describeAssertion } from './assertions';
+import { COLLECTION_FORMAT, Collection, CollectionRunResult, runCollection } from './collectionRunner';
+import { ClientCertificate, HttpResponse, httpRequest } from './httpClient';
+import { REPORT_FORMATS, ReportFormat, createReport, isReportFormat, renderReport } from './reporters';
+import { loadSpec } from './specLoader';
+import { SavedTestData, acceptSnapshot, isSavedTestData, testDataToCollection } from './testData';
+
+const USAGE = `Usage: spekai run [options] <file|directory>...
+
+Replays saved test data (spekai-test-*.json) and collections (spekai-collection-*.json).
+Directories are searched for both kinds of file. Exits with 1 when a request, assertion or snapshot fails.
+
+Options:
+  --base-url <url>       Send requests to this base URL instead of the saved one
+  --env-file <file>      JSON file of variables, or of named environments like the spekai.environments setting
+  --env <name>           Environment to use from --env-file (default: the one each file was saved with)
+  --var <name=value>     Set a variable; repeatable, and takes precedence over the environment
+  --spec <url|file>      OpenAPI spec for schema assertions (default: the one each file was saved with)
+  --timeout <ms>         Request timeout (default: 30000)
+  --cert <file>          Client certificate for mTLS
+  --key <file>           Client certificate key
+  --passphrase <text>    Client certificate key passphrase
+  --cacert <file>        CA certificate
+  --bail                 Stop after the first file with failures
+  --update-snapshots     Accept the responses of tests whose snapshot no longer matches, and save them as the new snapshots
+  --reporter <fmt:file>  Write a report when the run ends; fmt is junit, html or json. Repeatable
+  -h, --help             Show this help`;
+
+// Fields of a snapshot mismatch listed per test; the HTML report has all of them
+const MAX_PRINTED_DIFFERENCES = 10;
+const SNAPSHOT_UPDATED = 'Snapshot updated';
+
+interface CliOptions {
+    files: string[];
+    baseUrl?: string;
+    envFile?: string;
+    env?: string;
+    variables: Record<string, string>;
+    spec?: string;
+    timeout: number;
+    clientCert?: ClientCertificate;
+    bail: boolean;
+    updateSnapshots: boolean;
+    reporters: Array<{ format: ReportFormat, file: string }>;
+}
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+    if (argv.length === 0 || argv[0] === '-h' || argv[0] === '--help') {
+        console.log(USAGE);
+        return 0;
+    }
+    if (argv[0] !== 'run') {
+        throw new UsageError(`Unknown command "${argv[0]}"`);
+    }
+
+    const options = parseArguments(argv.slice(1));
+    const environments = options.envFile ? readEnvironments(options.envFile) : {};
+    const specs = new Map<string, Promise<any>>();
+    let variables: Record<string, string> = {};
+    const results: CollectionRunResult[] = [];
+    let failedFiles = 0;
+    let updatedSnapshots = 0;
+
+    for (const file of expandFiles(options.files)) {
+        const { collection, clientCert, testData } = readCollection(file, options.baseUrl);
+        const environment = options.env || collection.environment || '';
+        // Values extracted by earlier files stay available, so files can be chained like collection steps
+        variables = { ...(environments[environment] || environments[''] || {}), ...variables, ...options.variables };
+
+        console.log(`\n${path.basename(file)} (${collection.steps.length} step${collection.steps.length === 1 ? '' : 's'})`);
+        const result = await runCollection(collection, {
+            variables,
+            credentials: {},
+            send: (request, signal) => httpRequest(request.url, {
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
+                clientCert: options.clientCert || clientCert,
+                timeout: request.timeout || options.timeout,
+                signal
+            }),
+            getToken: async () => {
+                throw new Error('OAuth2 token requests are not supported by the command-line runner; pass a token with --var and an Authorization header');
+            },
+            spec: needsSpec(collection) ? await getSpec(specs, options.spec || collection.openApiSpecUrl, options) : undefined
+        });
+        variables = { ...variables, ...result.variables };
+
+        const step = result.steps[0];
+        if (options.updateSnapshots && testData && acceptSnapshot(testData, step)) {
+            fs.writeFileSync(file, JSON.stringify(testData, null, 2), 'utf8');
+            updatedSnapshots++;
+            // A test that failed only on its snapshot passes with the new one
+            if (step.error === step.snapshot!.message) {
+                step.status = 'passed';
+                step.error = undefined;
+                result.failed--;
+                result.passed++;
+            }
+            step.snapshot = { ...step.snapshot!, passed: true, message: SNAPSHOT_UPDATED };
+        }
+        results.push(result);
+
+        printResult(result);
+        if (result.failed > 0) {
+            failedFiles++;
+            if (options.bail) {
+                break;
+            }
+        }
+    }
+
+    if (updatedSnapshots > 0) {
+        console.log(`\n${updatedSnapshots} snapshot(s) updated`);
+    }
+    console.log(failedFiles > 0 ? `\n${failedFiles} file(s) with failures` : '\nAll tests passed');
+    if (options.reporters.length > 0) {
+        const report = createReport('spekai run', results);
+        options.reporters.forEach(reporter => {
+            fs.mkdirSync(path.dirname(path.resolve(reporter.file)), { recursive: true });
+            fs.writeFileSync(reporter.file, renderReport(report, reporter.format), 'utf8');
+            console.log(`${REPORT_FORMATS[reporter.format].label} report written to ${reporter.file}`);
+        });
+    }
+    return failedFiles > 0 ? 1 : 0;
+}
+
+function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = { files: [], variables: {}, timeout: 30000, bail: false, updateSnapshots: false, reporters: [] };
+    const clientCert: ClientCertificate = { enabled: false };
+    const value = (index: number) => {
+        if (index >= args.length) {
+            throw new UsageError(`${args[index - 1]} needs a value`);
+        }
+        return args[index];
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '--base-url': options.baseUrl = value(++i); break;
+            case '--env-file': options.envFile = value(++i); break;
+            case '--env': options.env = value(++i); break;
+            case '--spec': options.spec = value(++i); break;
+            case '--var': {
+                const assignment = value(++i);
+                const separator = assignment.indexOf('=');
+                if (separator <= 0) {
+                    throw new UsageError(`--var expects name=value, got "${assignment}"`);
+                }
+                options.variables[assignment.substring(0, separator)] = assignment.substring(separator + 1);
+                break;
+            }
+            case '--timeout': {
+                options.timeout = Number(value(++i));
+                if (!Number.isFinite(options.timeout) || options.timeout < 0) {
+                    throw new UsageError(`Invalid --timeout "${args[i]}"`);
+                }
+                break;
+            }
+            case '--cert': clientCert.certPath = value(++i); clientCert.enabled = true; break;
+            case '--key': clientCert.keyPath = value(++i); clientCert.enabled = true; break;
+            case '--passphrase': clientCert.passphrase = value(++i); break;
+            case '--cacert': clientCert.caCertPath = value(++i); clientCert.enabled = true; break;
+            case '--bail': options.bail = true; break;
+            case '--update-snapshots': options.updateSnapshots = true; break;
+            case '--reporter': {
+                const reporter = value(++i);
+                const separator = reporter.indexOf(':');
+                const format = separator > 0 ? reporter.substring(0, separator) : reporter;
+                if (!isReportFormat(format)) {
+                    throw new UsageError(`Unknown report format "${format}"; use ${Object.keys(REPORT_FORMATS).join(', ')}`);
+                }
+                // Without a file name the report goes to spekai-report.<extension> in the working directory
+                options.reporters.push({ format, file: separator > 0 ? reporter.substring(separator + 1) : `spekai-report.${REPORT_FORMATS[format].extension}` });
+                break;
+            }
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option "${arg}"`);
+                }
+                options.files.push(arg);
+        }
+    }
+
+    if (options.files.length === 0) {
+        throw new UsageError('No test data or collection files given');
+    }
+    options.clientCert = clientCert.enabled ? clientCert : undefined;
+    return options;
+}
+
+function expandFiles(inputs: string[]): string[] {
+    return inputs.flatMap(input => {
+        if (!fs.existsSync(input)) {
+            throw new UsageError(`No such file or directory: ${input}`);
+        }
+        if (!fs.statSync(input).isDirectory()) {
+            return [input];
+        }
+        return fs.readdirSync(input)
+            .filter(name => /^spekai-(test|collection)-.*\.json$/.test(name))
+            .sort()
+            .map(name => path.join(input, name));
+    });
+}
+
+function readCollection(file: string, baseUrl?: string): { collection: Collection, clientCert?: ClientCertificate, testData?: SavedTestData } {
+    const content = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (content.format === COLLECTION_FORMAT && Array.isArray(content.steps)) {
+        return { collection: baseUrl ? { ...content, baseUrl } : content };
+    }
+    if (isSavedTestData(content)) {
+        // Tests saved with a client certificate keep using it unless one is given on the command line
+        return {
+            collection: testDataToCollection(content, baseUrl),
+            clientCert: content.clientCert?.enabled ? content.clientCert : undefined,
+            testData: content
+        };
+    }
+    throw new Error(`${file} is neither SpekAi test data nor a SpekAi collection`);
+}
+
+function readEnvironments(file: string): Record<string, Record<string, string>> {
+    let content = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (content['spekai.environments']) {
+        content = content['spekai.environments'];
+    }
+    const values = Object.values(content);
+    // A flat object of strings is a single, unnamed environment
+    if (values.every(item => typeof item !== 'object')) {
+        return { '': Object.fromEntries(Object.entries(content).map(([name, item]) => [name, String(item)])) };
+    }
+    return content;
+}
+
+function needsSpec(collection: Collection): boolean {
+    return collection.steps.some(step => step.operation && (step.assertions || []).some(assertion => assertion.type === 'schema' && !assertion.expected?.trim()));
+}
+
+function getSpec(specs: Map<string, Promise<any>>, location: string | undefined, options: CliOptions): Promise<any> {
+    if (!location) {
+        return Promise.resolve(undefined);
+    }
+    const url = /^(https?|file):\/\//i.test(location) ? location : pathToFileURL(path.resolve(location)).toString();
+    if (!specs.has(url)) {
+        const httpGet = async (documentUrl: string): Promise<HttpResponse> => {
+            const response = await httpRequest(documentUrl, { clientCert: options.clientCert, timeout: options.timeout });
+            if (response.statusCode >= 400) {
+                throw new Error(`${documentUrl} returned HTTP ${response.statusCode} ${response.statusText}`);
+            }
+            return response;
+        };
+        specs.set(url, loadSpec(url, httpGet).then(loaded => loaded.spec).catch(error => {
+            console.error(`Could not load the OpenAPI spec ${url} for schema assertions: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        }));
+    }
+    return specs.get(url)!;
+}
+
+function printResult(result: CollectionRunResult) {
+    result.steps.forEach(step => {
+        const mark = step.status === 'passed' ? '✓' : step.status === 'failed' ? '✗' : '-';
+        const status = step.response ? ` ${step.response.statusCode}` : '';
+        console.log(`  ${mark} ${step.name}${status} (${step.duration} ms)`);
+        if (step.error) {
+            console.log(`      ${step.error}`);
+        }
+        (step.assertions || []).filter(assertion => !assertion.passed).forEach(assertion => {
+            console.log(`      ✗ ${describeAssertion(assertion.assertion)}: ${assertion.message}`);
+        });
+        if (step.snapshot?.passed === false) {
+            const differences = step.snapshot.diff?.differences || [];
+            differences.slice(0, MAX_PRINTED_DIFFERENCES).forEach(difference => console.log(`      ${difference.kind} ${difference.path}`));
+            if (differences.length > MAX_PRINTED_DIFFERENCES) {
+                console.log(`      … and ${differences.length - MAX_PRINTED_DIFFERENCES} more`);
+            }
+        } else if (step.snapshot?.message === SNAPSHOT_UPDATED) {
+            console.log(`      ${SNAPSHOT_UPDATED}`);
+        }
+    });
+    console.log(`  ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped in ${result.duration} ms`);
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, error => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `spekai: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 2;
+});
@@ -0,0 +1,272 @@
+import { ClientCertificate } from './httpClient';
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go';
+
+export const SNIPPET_LANGUAGES: Record<SnippetLanguage, { label: string, description: string }> = {
+    curl: { label: 'cURL', description: 'bash' },
+    fetch: { label: 'fetch', description: 'JavaScript (Node.js 18+)' },
+    axios: { label: 'axios', description: 'JavaScript (Node.js)' },
+    python: { label: 'requests', description: 'Python' },
+    go: { label: 'net/http', description: 'Go' }
+};
+
+/** A request as it is sent: variables resolved and credentials applied. */
+export interface SnippetRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    clientCert?: ClientCertificate;
+    timeout?: number; // Milliseconds; only a timeout set on the request itself is written out
+}
+
+export function renderSnippet(request: SnippetRequest, language: SnippetLanguage): string {
+    const normalized = { ...request, method: request.method.toUpperCase(), clientCert: request.clientCert?.enabled ? request.clientCert : undefined };
+    switch (language) {
+        case 'curl':
+            return toCurl(normalized);
+        case 'fetch':
+            return toFetch(normalized);
+        case 'axios':
+            return toAxios(normalized);
+        case 'python':
+            return toPythonRequests(normalized);
+        case 'go':
+            return toGo(normalized);
+    }
+}
+
+export function toCurl(request: SnippetRequest): string {
+    const lines = [`curl ${request.method === 'HEAD' ? '--head' : request.method === 'GET' ? '' : `-X ${request.method} `}${shellQuote(request.url)}`];
+    Object.entries(request.headers).forEach(([key, value]) => lines.push(`-H ${shellQuote(`${key}: ${value}`)}`));
+    if (request.body !== undefined) {
+        lines.push(`--data-raw ${shellQuote(request.body)}`);
+    }
+    const cert = request.clientCert;
+    if (cert?.certPath) {
+        // curl reads --cert as file:passphrase, so colons other than a drive letter's are escaped
+        lines.push(`--cert ${shellQuote(cert.certPath.replace(/(?<!^[A-Za-z]):/g, '\\:'))}`);
+    }
+    if (cert?.keyPath) {
+        lines.push(`--key ${shellQuote(cert.keyPath)}`);
+    }
+    if (cert?.passphrase) {
+        lines.push(`--pass ${shellQuote(cert.passphrase)}`);
+    }
+    if (cert?.caCertPath) {
+        lines.push(`--cacert ${shellQuote(cert.caCertPath)}`);
+    }
+    if (request.timeout) {
+        lines.push(`--max-time ${request.timeout / 1000}`);
+    }
+    return lines.join(' \\\n  ') + '\n';
+}
+
+export function toFetch(request: SnippetRequest): string {
+    const cert = request.clientCert;
+    const lines: string[] = [];
+    if (cert) {
+        // fetch has no TLS options of its own; Node.js takes them from an undici dispatcher
+        lines.push('import { readFileSync } from \'node:fs\';', 'import { Agent } from \'undici\';', '');
+        lines.push(`const dispatcher = new Agent({\n  connect: ${tlsOptions(cert, 1)}\n});`, '');
+    }
+    const options = [`method: ${jsString(request.method)}`];
+    if (Object.keys(request.headers).length > 0) {
+        options.push(`headers: ${jsObject(request.headers, 1)}`);
+    }
+    if (request.body !== undefined) {
+        options.push(`body: ${jsBody(request)}`);
+    }
+    if (cert) {
+        options.push('dispatcher');
+    }
+    if (request.timeout) {
+        options.push(`signal: AbortSignal.timeout(${request.timeout})`);
+    }
+    lines.push(`const response = await fetch(${jsString(request.url)}, {\n  ${options.join(',\n  ')}\n});`);
+    lines.push('console.log(response.status, await response.text());');
+    return lines.join('\n') + '\n';
+}
+
+export function toAxios(request: SnippetRequest): string {
+    const cert = request.clientCert;
+    const lines = ['import axios from \'axios\';'];
+    if (cert) {
+        lines.push('import { readFileSync } from \'node:fs\';', 'import https from \'node:https\';', '');
+        lines.push(`const httpsAgent = new https.Agent(${tlsOptions(cert, 0)});`);
+    }
+    lines.push('');
+    const options = [`method: ${jsString(request.method.toLowerCase())}`, `url: ${jsString(request.url)}`];
+    if (Object.keys(request.headers).length > 0) {
+        options.push(`headers: ${jsObject(request.headers, 1)}`);
+    }
+    if (request.body !== undefined) {
+        options.push(`data: ${jsBody(request)}`);
+    }
+    if (cert) {
+        options.push('httpsAgent');
+    }
+    if (request.timeout) {
+        options.push(`timeout: ${request.timeout}`);
+    }
+    // Responses are read as text so the body is printed as it was received
+    options.push('responseType: \'text\'', 'validateStatus: () => true');
+    lines.push(`const response = await axios.request({\n  ${options.join(',\n  ')}\n});`);
+    lines.push('console.log(response.status, response.data);');
+    return lines.join('\n') + '\n';
+}
+
+export function toPythonRequests(request: SnippetRequest): string {
+    const cert = request.clientCert;
+    const lines = ['import requests', ''];
+    if (cert?.passphrase) {
+        lines.push('# requests cannot read encrypted private keys; decrypt the key first, e.g. with openssl rsa');
+    }
+    const args = [pyString(request.method), pyString(request.url)];
+    if (Object.keys(request.headers).length > 0) {
+        const entries = Object.entries(request.headers).map(([key, value]) => `        ${pyString(key)}: ${pyString(value)},`);
+        args.push(`headers={\n${entries.join('\n')}\n    }`);
+    }
+    if (request.body !== undefined) {
+        args.push(`data=${pyString(request.body)}`);
+    }
+    if (cert?.certPath) {
+        args.push(cert.keyPath ? `cert=(${pyString(cert.certPath)}, ${pyString(cert.keyPath)})` : `cert=${pyString(cert.certPath)}`);
+    }
+    if (cert?.caCertPath) {
+        args.push(`verify=${pyString(cert.caCertPath)}`);
+    }
+    if (request.timeout) {
+        args.push(`timeout=${request.timeout / 1000}`);
+    }
+    lines.push(`response = requests.request(\n    ${args.join(',\n    ')},\n)`);
+    lines.push('print(response.status_code, response.text)');
+    return lines.join('\n') + '\n';
+}
+
+export function toGo(request: SnippetRequest): string {
+    const cert = request.clientCert;
+    const imports = new Set(['fmt', 'io', 'net/http']);
+    const body: string[] = [];
+
+    let bodyArgument = 'nil';
+    if (request.body !== undefined) {
+        imports.add('strings');
+        body.push(`\tbody := strings.NewReader(${goString(request.body)})`);
+        bodyArgument = 'body';
+    }
+    body.push(`\treq, err := http.NewRequest(${goString(request.method)}, ${goString(request.url)}, ${bodyArgument})`);
+    body.push('\tif err != nil {', '\t\tpanic(err)', '\t}');
+    Object.entries(request.headers).forEach(([key, value]) => {
+        // Go sends the Host header from req.Host, not from the header map
+        body.push(key.toLowerCase() === 'host' ? `\treq.Host = ${goString(value)}` : `\treq.Header.Set(${goString(key)}, ${goString(value)})`);
+    });
+    body.push('');
+
+    const clientFields: Array<[string, string]> = [];
+    if (cert) {
+        imports.add('crypto/tls');
+        const tlsFields: string[] = [];
+        if (cert.certPath) {
+            if (cert.passphrase) {
+                body.push('\t// LoadX509KeyPair cannot read encrypted private keys; decrypt the key first, e.g. with openssl rsa');
+            }
+            body.push(`\tcert, err := tls.LoadX509KeyPair(${goString(cert.certPath)}, ${goString(cert.keyPath || cert.certPath)})`);
+            body.push('\tif err != nil {', '\t\tpanic(err)', '\t}');
+            tlsFields.push('Certificates: []tls.Certificate{cert}');
+        }
+        if (cert.caCertPath) {
+            imports.add('crypto/x509');
+            imports.add('os');
+            body.push(`\tcaCert, err := os.ReadFile(${goString(cert.caCertPath)})`);
+            body.push('\tif err != nil {', '\t\tpanic(err)', '\t}');
+            body.push('\tcaPool := x509.NewCertPool()', '\tcaPool.AppendCertsFromPEM(caCert)');
+            tlsFields.push('RootCAs: caPool');
+        }
+        clientFields.push(['Transport', `&http.Transport{TLSClientConfig: &tls.Config{${tlsFields.join(', ')}}}`]);
+    }
+    if (request.timeout) {
+        imports.add('time');
+        clientFields.push(['Timeout', `${request.timeout} * time.Millisecond`]);
+    }
+    if (clientFields.length > 0) {
+        // Values aligned as gofmt does
+        const width = Math.max(...clientFields.map(([key]) => key.length));
+        body.push('\tclient := &http.Client{', ...clientFields.map(([key, value]) => `\t\t${`${key}:`.padEnd(width + 2)}${value},`), '\t}');
+    } else {
+        body.push('\tclient := &http.Client{}');
+    }
+    body.push('\tresp, err := client.Do(req)', '\tif err != nil {', '\t\tpanic(err)', '\t}', '\tdefer resp.Body.Close()', '');
+    body.push('\tdata, err := io.ReadAll(resp.Body)', '\tif err != nil {', '\t\tpanic(err)', '\t}');
+    body.push('\tfmt.Println(resp.Status, string(data))');
+
+    return [
+        'package main',
+        '',
+        'import (',
+        ...[...imports].sort().map(name => `\t"${name}"`),
+        ')',
+        '',
+        'func main() {',
+        ...body,
+        '}',
+        ''
+    ].join('\n');
+}
+
+// Node.js TLS options reading the certificate files, for https.Agent and undici's connect options
+function tlsOptions(cert: ClientCertificate, indent: number): string {
+    const entries: string[] = [];
+    if (cert.certPath) {
+        entries.push(`cert: readFileSync(${jsString(cert.certPath)})`);
+    }
+    if (cert.keyPath) {
+        entries.push(`key: readFileSync(${jsString(cert.keyPath)})`);
+    }
+    if (cert.passphrase) {
+        entries.push(`passphrase: ${jsString(cert.passphrase)}`);
+    }
+    if (cert.caCertPath) {
+        entries.push(`ca: readFileSync(${jsString(cert.caCertPath)})`);
+    }
+    const padding = '  '.repeat(indent);
+    return `{\n${entries.map(entry => `${padding}  ${entry}`).join(',\n')}\n${padding}}`;
+}
+
+// JSON bodies sent as JSON are written as objects, so they are easy to edit; anything else as the exact string
+function jsBody(request: SnippetRequest): string {
+    const contentType = Object.entries(request.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1] || '';
+    if (/json/i.test(contentType)) {
+        try {
+            return `JSON.stringify(${JSON.stringify(JSON.parse(request.body!), null, 2).replace(/\n/g, '\n  ')})`;
+        } catch {
+            // Not valid JSON after all
+        }
+    }
+    return jsString(request.body!);
+}
+
+function jsObject(values: Record<string, string>, indent: number): string {
+    const padding = '  '.repeat(indent);
+    const entries = Object.entries(values).map(([key, value]) => `${padding}  ${jsString(key)}: ${jsString(value)}`);
+    return `{\n${entries.join(',\n')}\n${padding}}`;
+}
+
+function jsString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\r/g, '\\r').replace(/\n/g, '\\n').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029')}'`;
+}
+
+// JSON string escapes are also valid in Python string literals
+function pyString(value: string): string {
+    return JSON.stringify(value);
+}
+
+// Raw strings keep bodies readable; they cannot hold backquotes or carriage returns
+function goString(value: string): string {
+    return value.includes('\n') && !/[`\r]/.test(value) ? `\`${value}\`` : JSON.stringify(value);
+}
+
+// POSIX single quotes, with embedded quotes closed, escaped and reopened
+function shellQuote(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, '\'\\\'\'')}'`;
+}
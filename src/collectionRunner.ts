@@ -0,0 +1,285 @@
+import { Assertion, AssertionResult, evaluateAssertions, hasStatusAssertion } from './assertions';
+import { ExtractedValue, ExtractionRule, extractValues } from './extraction';
+import { HttpTimings } from './httpClient';
+import { RefResolver } from './RefResolver';
+import { SchemeCredentials, TokenProvider, applySecurity } from './securitySchemes';
+import { ResponseSnapshot, SnapshotResult, checkSnapshot } from './snapshots';
+import { substituteInJson, substituteVariables } from './variables';
+
+export const COLLECTION_FORMAT = 'spekai-collection';
+
+export interface CollectionStep {
+    id: string;
+    name: string;
+    operation?: { method: string, path: string }; // Spec operation the step was created from; absent for manual requests
+    method: string;
+    url: string; // Absolute, or relative to the collection's baseUrl; may contain {{variables}}
+    headers: Array<{ key: string, value: string }>;
+    body?: string; // Request body text, JSON when it parses as JSON
+    variables?: Array<{ key: string, value: string }>; // Overrides of environment variables for this step only
+    security?: Array<Record<string, string[]>>;
+    extractionRules?: ExtractionRule[];
+    assertions?: Assertion[];
+    snapshot?: ResponseSnapshot; // Expected response, from saved test data
+    timeout?: number;
+}
+
+export interface Collection {
+    format: typeof COLLECTION_FORMAT;
+    version: 1;
+    name: string;
+    baseUrl: string;
+    openApiSpecUrl?: string;
+    environment?: string; // Environment the collection was written against
+    mode: 'sequential' | 'parallel';
+    stopOnFailure: boolean;
+    headers: Array<{ key: string, value: string }>; // Sent with every step; step headers override them
+    securitySchemes?: Record<string, any>;
+    credentials?: Record<string, SchemeCredentials>; // Kept with the collection, e.g. imported auth settings; the auth panel's take precedence
+    steps: CollectionStep[];
+}
+
+export interface StepRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    timeout?: number;
+}
+
+export interface StepResponse {
+    statusCode: number;
+    statusText: string;
+    headers: Record<string, string | string[]>;
+    body: string;
+    contentType: string;
+    size: number;
+    timings?: HttpTimings;
+}
+
+export interface StepResult {
+    stepId: string;
+    name: string;
+    status: 'passed' | 'failed' | 'skipped';
+    start: number; // Milliseconds since the run started
+    duration: number;
+    method: string;
+    url: string;
+    request?: StepRequest; // As sent, after variables and credentials were applied
+    response?: StepResponse;
+    error?: string;
+    extracted?: ExtractedValue[];
+    assertions?: AssertionResult[];
+    snapshot?: SnapshotResult;
+}
+
+export interface CollectionRunResult {
+    name: string;
+    startedAt: string; // ISO timestamp
+    duration: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    steps: StepResult[];
+    variables: Record<string, string>; // Variables after the run, including extracted values
+    secretParameters?: string[]; // Query parameters that carry API keys, masked in reports
+}
+
+export interface RunOptions {
+    variables: Record<string, string>; // Active environment and session variables
+    credentials: Record<string, SchemeCredentials>;
+    send: (request: StepRequest, signal: AbortSignal) => Promise<StepResponse>;
+    getToken: TokenProvider;
+    spec?: any; // Loaded OpenAPI document; schema assertions of steps built from its operations use their declared responses
+    signal?: AbortSignal;
+    onStepStart?: (step: CollectionStep) => void;
+    onStepComplete?: (result: StepResult) => void;
+}
+
+/**
+ * Runs the steps of a collection and reports a result per step. Sequential runs feed the values
+ * extracted by each step into the steps after it; parallel runs start every step with the initial
+ * variables. With stopOnFailure, the first failure skips the steps that have not run yet and
+ * cancels the ones still in flight.
+ */
+export async function runCollection(collection: Collection, options: RunOptions): Promise<CollectionRunResult> {
+    const startedAt = Date.now();
+    const variables = { ...options.variables };
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const results: StepResult[] = new Array(collection.steps.length);
+
+    const runStep = async (step: CollectionStep, index: number) => {
+        if (controller.signal.aborted) {
+            results[index] = skippedResult(step, startedAt, options.signal?.aborted ? 'Run cancelled' : 'Skipped after an earlier step failed');
+        } else {
+            options.onStepStart?.(step);
+            const overrides = (step.variables || []).filter(entry => entry.key.trim()).map(entry => [entry.key.trim(), entry.value]);
+            results[index] = await executeStep(collection, step, { ...variables, ...Object.fromEntries(overrides) }, options, controller.signal, startedAt);
+            (results[index].extracted || []).forEach(item => {
+                if (item.value !== undefined) {
+                    variables[item.variable] = item.value;
+                }
+            });
+            if (results[index].status === 'failed' && collection.stopOnFailure) {
+                controller.abort();
+            }
+        }
+        options.onStepComplete?.(results[index]);
+    };
+
+    try {
+        if (collection.mode === 'parallel') {
+            await Promise.all(collection.steps.map((step, index) => runStep(step, index)));
+        } else {
+            for (let index = 0; index < collection.steps.length; index++) {
+                await runStep(collection.steps[index], index);
+            }
+        }
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    return {
+        name: collection.name,
+        startedAt: new Date(startedAt).toISOString(),
+        duration: Date.now() - startedAt,
+        passed: results.filter(result => result.status === 'passed').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        steps: results,
+        variables,
+        secretParameters: Object.values(collection.securitySchemes || {})
+            .filter(scheme => scheme?.type === 'apiKey' && scheme.in === 'query' && typeof scheme.name === 'string')
+            .map(scheme => scheme.name)
+    };
+}
+
+/** Joins a step URL onto the collection's base URL unless it is already absolute. */
+export function resolveStepUrl(baseUrl: string, url: string): string {
+    if (!baseUrl || /^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+        return url;
+    }
+    const base = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+    return base + (url.startsWith('/') || url.startsWith('?') ? url : `/${url}`);
+}
+
+async function executeStep(collection: Collection, step: CollectionStep, variables: Record<string, string>,
+    options: RunOptions, signal: AbortSignal, runStart: number): Promise<StepResult> {
+    const start = Date.now();
+    const result: StepResult = {
+        stepId: step.id,
+        name: step.name,
+        status: 'failed',
+        start: start - runStart,
+        duration: 0,
+        method: step.method.toUpperCase(),
+        // Variables are resolved first, as a step URL like {{baseUrl}}/users is absolute only once they are
+        url: resolveStepUrl(substituteVariables(collection.baseUrl, variables), substituteVariables(step.url, variables))
+    };
+
+    try {
+        let headers: Record<string, string> = {};
+        [...(collection.headers || []), ...(step.headers || [])].forEach(header => {
+            const key = substituteVariables(header.key, variables).trim();
+            const value = substituteVariables(header.value, variables).trim();
+            if (key && value) {
+                headers[key] = value;
+            }
+        });
+
+        let body: string | undefined;
+        if (step.body && step.body.trim()) {
+            try {
+                body = JSON.stringify(substituteInJson(JSON.parse(step.body), variables));
+                if (!Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+                    headers['Content-Type'] = 'application/json';
+                }
+            } catch {
+                body = substituteVariables(step.body, variables);
+            }
+        }
+
+        let url = result.url;
+        if (step.security && step.security.length > 0) {
+            const authenticated = await applySecurity(url, headers, {
+                requirements: step.security,
+                schemes: collection.securitySchemes || {},
+                credentials: substituteInJson({ ...(collection.credentials || {}), ...options.credentials }, variables)
+            }, options.getToken);
+            url = authenticated.url;
+            headers = authenticated.headers;
+        }
+
+        result.request = { method: result.method, url, headers, body, timeout: step.timeout };
+        const sentAt = Date.now();
+        const response = await options.send(result.request, signal);
+        result.response = response;
+        if (step.assertions && step.assertions.length > 0) {
+            // The response time as the panel measures it, without variable resolution or token requests
+            const duration = response.timings?.total ?? Date.now() - sentAt;
+            result.assertions = evaluateAssertions(step.assertions, { ...response, duration },
+                findResponses(options.spec, step.operation), validationOptions(options.spec));
+        }
+
+        if (step.snapshot) {
+            result.snapshot = checkSnapshot(step.snapshot, response);
+        }
+
+        // A status assertion or a snapshot, which includes the status, replaces the default rule that 4xx and 5xx responses fail
+        const failedAssertions = (result.assertions || []).filter(assertion => !assertion.passed);
+        if (!hasStatusAssertion(step.assertions) && !step.snapshot && response.statusCode >= 400) {
+            result.error = `HTTP ${response.statusCode} ${response.statusText}`;
+        } else if (failedAssertions.length > 0) {
+            result.error = `${failedAssertions.length} of ${result.assertions!.length} assertions failed`;
+        } else if (result.snapshot && !result.snapshot.passed) {
+            result.error = result.snapshot.message;
+        } else {
+            result.status = 'passed';
+        }
+        if (step.extractionRules && step.extractionRules.length > 0) {
+            result.extracted = extractValues(step.extractionRules, response);
+        }
+    } catch (error) {
+        if (signal.aborted) {
+            result.status = 'skipped';
+            result.error = options.signal?.aborted ? 'Run cancelled' : 'Cancelled after an earlier step failed';
+        } else {
+            result.error = error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    result.duration = Date.now() - start;
+    return result;
+}
+
+function findResponses(spec: any, operation?: { method: string, path: string }): any {
+    if (!spec || !operation) {
+        return undefined;
+    }
+    const method = operation.method.toLowerCase();
+    return spec.paths?.[operation.path]?.[method]?.responses ?? spec.webhooks?.[operation.path]?.[method]?.responses;
+}
+
+function validationOptions(spec: any) {
+    return {
+        // Only local refs kept for circular schemas remain after the spec is dereferenced
+        resolveRef: (ref: string) => spec && ref.startsWith('#/') ? RefResolver.resolvePointer(spec, ref.substring(1)) : undefined,
+        spec
+    };
+}
+
+function skippedResult(step: CollectionStep, runStart: number, reason: string): StepResult {
+    return {
+        stepId: step.id,
+        name: step.name,
+        status: 'skipped',
+        start: Date.now() - runStart,
+        duration: 0,
+        method: step.method.toUpperCase(),
+        url: step.url,
+        error: reason
+    };
+}
@@ -0,0 +1,357 @@
+import { CollectionStep } from './collectionRunner';
+import { ClientCertificate } from './httpClient';
+import { createImportContext, createStep, setDefaultHeader, setMultipartBody } from './importedRequests';
+
+/** A request read from a cURL command, with the client certificate and timeout it was run with. */
+export interface CurlImport {
+    step: CollectionStep;
+    clientCert?: ClientCertificate;
+    timeout?: number; // From --max-time, in milliseconds
+    warnings: string[];
+}
+
+// Options that take a value; anything else starting with "-" is a flag
+const SHORT_OPTIONS_WITH_VALUE = new Set(['X', 'H', 'd', 'u', 'F', 'A', 'b', 'e', 'm', 'o', 'x', 'w', 'E', 'T', 'r', 'c', 'K', 'U']);
+const LONG_OPTIONS_WITH_VALUE = new Set([
+    'request', 'header', 'data', 'data-raw', 'data-binary', 'data-ascii', 'data-urlencode', 'json', 'user', 'form', 'form-string',
+    'url', 'user-agent', 'cookie', 'referer', 'max-time', 'cert', 'key', 'cacert', 'pass', 'cert-type', 'key-type', 'capath',
+    'output', 'proxy', 'proxy-user', 'write-out', 'connect-timeout', 'retry', 'retry-delay', 'retry-max-time', 'resolve',
+    'connect-to', 'interface', 'limit-rate', 'max-redirs', 'oauth2-bearer', 'cookie-jar', 'upload-file', 'range', 'config'
+]);
+const SHORT_ALIASES: Record<string, string> = {
+    X: 'request', H: 'header', d: 'data', u: 'user', F: 'form', A: 'user-agent', b: 'cookie', e: 'referer', m: 'max-time',
+    E: 'cert', G: 'get', I: 'head', k: 'insecure', T: 'upload-file', K: 'config', x: 'proxy', o: 'output', w: 'write-out',
+    r: 'range', c: 'cookie-jar', U: 'proxy-user'
+};
+// Flags that only change what curl prints or how it follows redirects, which SpekAi does on its own
+const IGNORED_FLAGS = new Set(['location', 'silent', 'show-error', 'verbose', 'include', 'globoff', 'fail', 'no-buffer',
+    'progress-bar', 'http1.0', 'http1.1', 'http2', 'http2-prior-knowledge', 'location-trusted', 'no-progress-meter']);
+const IGNORED_SHORT_FLAGS = new Set(['L', 's', 'S', 'v', 'i', 'g', 'f', 'N', '#']);
+
+/**
+ * Reads a cURL command, e.g. one copied from API docs or from the browser's "Copy as cURL", into a
+ * request. Line continuations and the quoting of bash and zsh are understood; options that change
+ * how curl itself behaves (output, retries, proxies) are reported and left out.
+ */
+export function parseCurlCommand(command: string): CurlImport {
+    const args = tokenize(command);
+    if (args[0] !== 'curl') {
+        throw new Error('Not a cURL command: it must start with curl');
+    }
+
+    const context = createImportContext('curl');
+    const warnings = context.warnings;
+    const headers: Array<{ key: string, value: string }> = [];
+    const data: string[] = [];
+    const form: Array<{ name: string, value: string, file?: boolean }> = [];
+    const clientCert: ClientCertificate = { enabled: false };
+    let method: string | undefined;
+    let url: string | undefined;
+    let user: string | undefined;
+    let timeout: number | undefined;
+    let asQuery = false;
+    let json = false;
+
+    for (const [option, flagValue] of readOptions(args.slice(1), warnings)) {
+        const value = flagValue ?? '';
+        switch (option) {
+            case '':
+            case 'url':
+                if (url !== undefined) {
+                    warnings.push(`Only the first URL is imported; ${value} was left out`);
+                } else {
+                    url = value;
+                }
+                break;
+            case 'request':
+                method = value.toUpperCase();
+                break;
+            case 'head':
+                method = 'HEAD';
+                break;
+            case 'get':
+                asQuery = true;
+                break;
+            case 'header': {
+                const separator = value.indexOf(':');
+                if (separator > 0) {
+                    headers.push({ key: value.substring(0, separator).trim(), value: value.substring(separator + 1).trim() });
+                } else if (value.endsWith(';')) {
+                    // "-H 'Name;'" sends the header with an empty value
+                    headers.push({ key: value.slice(0, -1).trim(), value: '' });
+                }
+                break;
+            }
+            case 'data':
+            case 'data-ascii':
+            case 'data-binary':
+            case 'data-raw':
+                if (option !== 'data-raw' && value.startsWith('@')) {
+                    warnings.push(`The body is read from ${value.substring(1)} by curl and was left out; paste the file's contents into the request body`);
+                } else {
+                    data.push(option === 'data-binary' || option === 'data-raw' ? value : value.replace(/[\r\n]/g, ''));
+                }
+                break;
+            case 'data-urlencode':
+                data.push(urlEncodeData(value, warnings));
+                break;
+            case 'json':
+                json = true;
+                data.push(value);
+                break;
+            case 'form':
+            case 'form-string':
+                form.push(readFormField(value, option === 'form-string'));
+                break;
+            case 'user':
+                user = value;
+                break;
+            case 'oauth2-bearer':
+                headers.push({ key: 'Authorization', value: `Bearer ${value}` });
+                break;
+            case 'user-agent':
+                headers.push({ key: 'User-Agent', value });
+                break;
+            case 'referer':
+                headers.push({ key: 'Referer', value: value.replace(/;auto$/, '') });
+                break;
+            case 'cookie':
+                if (value.includes('=')) {
+                    headers.push({ key: 'Cookie', value });
+                } else {
+                    warnings.push(`Cookies are read from the file ${value} by curl and were left out`);
+                }
+                break;
+            case 'max-time':
+                timeout = Math.round(parseFloat(value) * 1000) || undefined;
+                break;
+            case 'cert': {
+                // --cert file:passphrase; colons in Windows drive letters and escaped colons belong to the file name
+                const match = /^((?:[A-Za-z]:[\\/])?(?:\\:|[^:])*)(?::(.*))?$/.exec(value);
+                clientCert.enabled = true;
+                clientCert.certPath = (match ? match[1] : value).replace(/\\:/g, ':');
+                if (match?.[2]) {
+                    clientCert.passphrase = match[2];
+                }
+                break;
+            }
+            case 'key':
+                clientCert.enabled = true;
+                clientCert.keyPath = value;
+                break;
+            case 'pass':
+                clientCert.passphrase = value;
+                break;
+            case 'cacert':
+                clientCert.enabled = true;
+                clientCert.caCertPath = value;
+                break;
+            case 'cert-type':
+            case 'key-type':
+                if (value.toUpperCase() !== 'PEM') {
+                    warnings.push(`--${option} ${value}: only PEM certificates and keys can be used`);
+                }
+                break;
+            case 'insecure':
+                warnings.push('--insecure was left out: server certificates are always verified; add the server\'s CA certificate instead');
+                break;
+            case 'upload-file':
+                warnings.push(`The upload of ${value} was left out`);
+                break;
+            case 'compressed':
+                // The HTTP client does not decompress responses, so compressed encodings are not asked for
+                break;
+            default:
+                warnings.push(flagValue === undefined ? `--${option} was left out` : `--${option} ${value} was left out`);
+        }
+    }
+
+    if (!url) {
+        throw new Error('The cURL command has no URL');
+    }
+    // As in curl, a URL without a scheme is an http:// URL
+    if (!/^([a-z][a-z0-9+.-]*:\/\/|\{\{)/i.test(url)) {
+        url = `http://${url}`;
+    }
+    if (asQuery && data.length > 0) {
+        url += (url.includes('?') ? '&' : '?') + data.join('&');
+    }
+
+    const hasBody = !asQuery && (data.length > 0 || form.length > 0);
+    const stepMethod = method || (hasBody ? 'POST' : 'GET');
+    const step = createStep(context, `${stepMethod} ${url}`, stepMethod, url, headers);
+    if (hasBody && form.length > 0) {
+        if (data.length > 0) {
+            warnings.push('-d and -F cannot be combined; the -d data was left out');
+        }
+        setMultipartBody(step, form, context);
+    } else if (hasBody) {
+        step.body = data.join(json ? '' : '&');
+        if (json) {
+            setDefaultHeader(step, 'Content-Type', 'application/json');
+            setDefaultHeader(step, 'Accept', 'application/json');
+        } else {
+            setDefaultHeader(step, 'Content-Type', 'application/x-www-form-urlencoded');
+        }
+    }
+    if (user !== undefined) {
+        const separator = user.indexOf(':');
+        const credentials = separator >= 0 ? user : `${user}:`;
+        setDefaultHeader(step, 'Authorization', `Basic ${Buffer.from(credentials).toString('base64')}`);
+    }
+
+    return {
+        step,
+        clientCert: clientCert.enabled ? clientCert : undefined,
+        timeout,
+        warnings
+    };
+}
+
+// Pairs each option, by its long name, with its value; the URL and other positional arguments have an empty name
+function readOptions(args: string[], warnings: string[]): Array<[string, string?]> {
+    const options: Array<[string, string?]> = [];
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        if (arg.startsWith('--') && arg.length > 2) {
+            const name = arg.substring(2);
+            if (LONG_OPTIONS_WITH_VALUE.has(name)) {
+                options.push([name, args[++index] ?? '']);
+            } else if (!IGNORED_FLAGS.has(name)) {
+                options.push([name]);
+            }
+        } else if (arg.startsWith('-') && arg.length > 1) {
+            // Short flags can be combined (-sSL), and the last one may take a value, attached or not (-XPOST, -X POST)
+            for (let position = 1; position < arg.length; position++) {
+                const letter = arg[position];
+                if (SHORT_OPTIONS_WITH_VALUE.has(letter)) {
+                    const value = position + 1 < arg.length ? arg.substring(position + 1) : args[++index] ?? '';
+                    options.push([SHORT_ALIASES[letter] || letter, value]);
+                    break;
+                }
+                const name = SHORT_ALIASES[letter];
+                if (name) {
+                    options.push([name]);
+                } else if (!IGNORED_SHORT_FLAGS.has(letter)) {
+                    warnings.push(`-${letter} was left out`);
+                }
+            }
+        } else {
+            options.push(['', arg]);
+        }
+    }
+    return options;
+}
+
+// --data-urlencode name=value encodes the value; a value without a name is encoded as a whole
+function urlEncodeData(value: string, warnings: string[]): string {
+    const separator = value.search(/[=@]/);
+    if (separator >= 0 && value[separator] === '@') {
+        warnings.push(`--data-urlencode ${value}: the value is read from a file by curl and was left out`);
+        return '';
+    }
+    if (separator < 0) {
+        return encodeURIComponent(value);
+    }
+    const name = value.substring(0, separator);
+    const encoded = encodeURIComponent(value.substring(separator + 1));
+    return name ? `${name}=${encoded}` : encoded;
+}
+
+// -F name=value, name=@file (a file upload) or name=<file (the file's contents as a text field); ;type= and other attributes are dropped
+function readFormField(value: string, literal: boolean): { name: string, value: string, file?: boolean } {
+    const separator = value.indexOf('=');
+    const name = separator >= 0 ? value.substring(0, separator) : value;
+    const content = separator >= 0 ? value.substring(separator + 1) : '';
+    if (literal) {
+        return { name, value: content };
+    }
+    if (content.startsWith('@') || content.startsWith('<')) {
+        return { name, value: content.substring(1).split(';')[0], file: true };
+    }
+    return { name, value: content.replace(/;type=[^;]*$/, '') };
+}
+
+/**
+ * Splits a command line into arguments as a POSIX shell would: single quotes, double quotes, $'...'
+ * strings, backslash escapes, and line continuations with \ (bash) or ^ (Windows cmd).
+ */
+function tokenize(command: string): string[] {
+    const text = command.trim().replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+    const args: string[] = [];
+    let current = '';
+    let started = false;
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (/\s/.test(char)) {
+            if (started) {
+                args.push(current);
+                current = '';
+                started = false;
+            }
+            continue;
+        }
+        started = true;
+        if (char === '\'') {
+            const end = text.indexOf('\'', index + 1);
+            if (end < 0) {
+                throw new Error('Unterminated \' quote in the cURL command');
+            }
+            current += text.substring(index + 1, end);
+            index = end;
+        } else if (char === '$' && text[index + 1] === '\'') {
+            index += 2;
+            while (index < text.length && text[index] !== '\'') {
+                if (text[index] === '\\' && index + 1 < text.length) {
+                    const [decoded, length] = ansiEscape(text, index + 1);
+                    current += decoded;
+                    index += length + 1;
+                } else {
+                    current += text[index++];
+                }
+            }
+            if (index >= text.length) {
+                throw new Error('Unterminated $\' quote in the cURL command');
+            }
+        } else if (char === '"') {
+            index++;
+            while (index < text.length && text[index] !== '"') {
+                if (text[index] === '\\' && /["\\$`]/.test(text[index + 1] || '')) {
+                    index++;
+                }
+                current += text[index++];
+            }
+            if (index >= text.length) {
+                throw new Error('Unterminated " quote in the cURL command');
+            }
+        } else if (char === '\\' && index + 1 < text.length) {
+            current += text[++index];
+        } else {
+            current += char;
+        }
+    }
+    if (started) {
+        args.push(current);
+    }
+    return args;
+}
+
+// The character of a backslash escape inside $'...', and how many characters after the backslash it used
+function ansiEscape(text: string, index: number): [string, number] {
+    const char = text[index];
+    const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', '\'': '\'', '"': '"', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v', '?': '?' };
+    if (simple[char] !== undefined) {
+        return [simple[char], 1];
+    }
+    const hex = char === 'x' ? /^[0-9a-fA-F]{1,2}/.exec(text.substring(index + 1))
+        : char === 'u' ? /^[0-9a-fA-F]{1,4}/.exec(text.substring(index + 1))
+            : char === 'U' ? /^[0-9a-fA-F]{1,8}/.exec(text.substring(index + 1)) : null;
+    if (hex) {
+        return [String.fromCodePoint(parseInt(hex[0], 16)), hex[0].length + 1];
+    }
+    const octal = /^[0-7]{1,3}/.exec(text.substring(index));
+    if (octal) {
+        return [String.fromCharCode(parseInt(octal[0], 8)), octal[0].length];
+    }
+    return [`\\${char}`, 1];
+}
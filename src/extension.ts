@@ -1,12 +1,14 @@
 import * as vscode from 'vscode';
 import { SpekAiPanel } from './SpekAiPanel';
+import { acceptNewSnapshots } from './acceptSnapshots';
 
 export function activate(context: vscode.ExtensionContext) {
     const disposable = vscode.commands.registerCommand('spekai.openTester', () => {
-        SpekAiPanel.createOrShow(context.extensionUri);
+        SpekAiPanel.createOrShow(context.extensionUri, context.globalStorageUri);
     });
 
     context.subscriptions.push(disposable);
+    context.subscriptions.push(vscode.commands.registerCommand('spekai.acceptSnapshots', () => acceptNewSnapshots()));
 }
 
 export function deactivate() {}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { queryJsonPath } from './jsonPath';
+
+export interface ExtractionRule {
+    variable: string;
+    source: 'jsonPath' | 'header' | 'regex';
+    expression: string; // JSONPath on the JSON body, a header name, or a regular expression on the raw body
+    target: 'session' | 'environment';
+}
+
+export interface ExtractedValue {
+    variable: string;
+    target: 'session' | 'environment';
+    value?: string;
+    error?: string; // Why nothing was extracted; the variable keeps its previous value
+}
+
+export interface ExtractionResponse {
+    body: string;
+    headers: Record<string, string | string[]>;
+}
+
+/**
+ * Pulls values out of a response for later requests. JSONPath takes the first match (objects and
+ * arrays as JSON text), headers match case-insensitively, and a regular expression yields its first
+ * capture group, or the whole match when it has none.
+ */
+export function extractValues(rules: ExtractionRule[], response: ExtractionResponse): ExtractedValue[] {
+    let parsedBody: any;
+    let bodyError: string | undefined;
+    try {
+        parsedBody = JSON.parse(response.body);
+    } catch {
+        bodyError = 'Response body is not JSON';
+    }
+
+    return rules.filter(rule => rule.variable.trim() && rule.expression.trim()).map(rule => {
+        const result: ExtractedValue = { variable: rule.variable.trim(), target: rule.target };
+        try {
+            switch (rule.source) {
+                case 'jsonPath': {
+                    if (bodyError) {
+                        result.error = bodyError;
+                        break;
+                    }
+                    const matches = queryJsonPath(parsedBody, rule.expression);
+                    if (matches.length === 0) {
+                        result.error = `No match for ${rule.expression}`;
+                    } else {
+                        result.value = stringify(matches[0]);
+                    }
+                    break;
+                }
+                case 'header': {
+                    const name = Object.keys(response.headers).find(key => key.toLowerCase() === rule.expression.trim().toLowerCase());
+                    if (name === undefined) {
+                        result.error = `No ${rule.expression.trim()} header in the response`;
+                    } else {
+                        const value = response.headers[name];
+                        result.value = Array.isArray(value) ? value.join(', ') : value;
+                    }
+                    break;
+                }
+                case 'regex': {
+                    const match = new RegExp(rule.expression).exec(response.body);
+                    if (!match) {
+                        result.error = `No match for /${rule.expression}/`;
+                    } else {
+                        result.value = match.length > 1 ? match[1] ?? '' : match[0];
+                    }
+                    break;
+                }
+            }
+        } catch (error) {
+            result.error = error instanceof Error ? error.message : String(error);
+        }
+        return result;
+    });
+}
+
+function stringify(value: any): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
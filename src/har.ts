@@ -0,0 +1,98 @@
+import { CollectionStep } from './collectionRunner';
+import { ImportContext, ImportResult, buildCollections, createImportContext, createStep, setDefaultHeader, setFormBody, setMultipartBody } from './importedRequests';
+
+// Set by the HTTP client for each request, or by the browser for its own transport (HTTP/2 pseudo-headers start with ":")
+const SKIPPED_HEADERS = /^(:.*|host|content-length|connection|keep-alive|transfer-encoding|upgrade)$/i;
+// Chrome's _resourceType of entries that are page assets rather than API calls
+const ASSET_TYPES = new Set(['image', 'script', 'stylesheet', 'font', 'media', 'manifest', 'texttrack']);
+
+export function isHar(json: any): boolean {
+    return !!json && typeof json === 'object' && !!json.log && Array.isArray(json.log.entries);
+}
+
+/**
+ * Converts the entries of a HAR 1.2 capture into requests, one suite per host. Browser captures
+ * are mostly page assets, so images, scripts, styles and fonts are left out when the capture
+ * records resource types.
+ */
+export function importHar(json: any, name: string): ImportResult {
+    const context = createImportContext('har');
+    const entries: Array<{ group?: string, step: CollectionStep }> = [];
+    let assets = 0;
+    let unsupported = 0;
+
+    (json.log.entries as any[]).forEach(entry => {
+        const request = entry.request;
+        if (!request || typeof request.url !== 'string') {
+            return;
+        }
+        if (ASSET_TYPES.has(entry._resourceType)) {
+            assets++;
+            return;
+        }
+        let url: URL;
+        try {
+            url = new URL(request.url);
+        } catch {
+            unsupported++;
+            return;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            unsupported++;
+            return;
+        }
+        entries.push({ group: url.host, step: convertEntry(request, url, context) });
+    });
+
+    if (assets > 0) {
+        context.warnings.push(`${assets} image, script, style and font request(s) were left out`);
+    }
+    if (unsupported > 0) {
+        context.warnings.push(`${unsupported} request(s) with data:, blob: or other non-HTTP URLs were left out`);
+    }
+    if (json.log.version && json.log.version !== '1.2') {
+        context.warnings.push(`HAR version ${json.log.version} is read as version 1.2`);
+    }
+
+    // Steps are named by path, so the suites of a multi-host capture tell the hosts apart
+    const hosts = new Set(entries.map(entry => entry.group));
+    return {
+        source: 'HAR',
+        collections: buildCollections(name, hosts.size > 1 ? entries : entries.map(entry => ({ step: entry.step })), context),
+        environments: {},
+        warnings: context.warnings
+    };
+}
+
+function convertEntry(request: any, url: URL, context: ImportContext): CollectionStep {
+    const method = String(request.method || 'GET').toUpperCase();
+    const headers = (request.headers || [])
+        .filter((header: any) => header.name && !SKIPPED_HEADERS.test(header.name))
+        // The HTTP client does not decompress responses, so compressed encodings are not asked for
+        .filter((header: any) => header.name.toLowerCase() !== 'accept-encoding')
+        .map((header: any) => ({ key: String(header.name), value: String(header.value ?? '') }));
+    const step = createStep(context, `${method} ${url.pathname}`, method, request.url, headers);
+
+    const cookies = (request.cookies || []).filter((cookie: any) => cookie.name);
+    if (cookies.length > 0) {
+        setDefaultHeader(step, 'Cookie', cookies.map((cookie: any) => `${cookie.name}=${cookie.value ?? ''}`).join('; '));
+    }
+
+    const postData = request.postData;
+    if (postData) {
+        const mimeType = String(postData.mimeType || '').split(';')[0].trim().toLowerCase();
+        if (typeof postData.text === 'string' && postData.text.length > 0) {
+            step.body = postData.text;
+            setDefaultHeader(step, 'Content-Type', postData.mimeType || 'text/plain');
+        } else if (Array.isArray(postData.params) && mimeType === 'application/x-www-form-urlencoded') {
+            setFormBody(step, postData.params.map((param: any) => ({ name: String(param.name), value: String(param.value ?? '') })));
+        } else if (Array.isArray(postData.params) && mimeType === 'multipart/form-data') {
+            setMultipartBody(step, postData.params.map((param: any) => ({
+                name: String(param.name),
+                value: String(param.value ?? ''),
+                file: !!param.fileName
+            })), context);
+        }
+    }
+    return step;
+}
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+
+export interface HttpTimings {
+    // Phase durations in milliseconds; phases skipped on a reused socket are 0
+    dns: number;
+    connect: number;
+    tls: number;
+    firstByte: number;
+    total: number;
+}
+
+export interface RedirectHop {
+    url: string;
+    method: string;
+    statusCode: number;
+    statusText: string;
+    location: string;
+}
+
+export interface HttpResponse {
+    url: string; // Final URL after any redirects
+    body: string;
+    statusCode: number;
+    statusText: string;
+    headers: Record<string, string | string[]>;
+    contentType: string;
+    size: number;
+    timings: HttpTimings;
+    redirects: RedirectHop[];
+}
+
+export interface ClientCertificate {
+    enabled: boolean;
+    certPath?: string;
+    keyPath?: string;
+    passphrase?: string;
+    caCertPath?: string;
+}
+
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    clientCert?: ClientCertificate;
+    timeout?: number; // Deadline in milliseconds for the whole redirect chain; 0 or undefined disables it
+    signal?: AbortSignal;
+    followRedirects?: boolean; // Defaults to true
+    maxRedirects?: number; // Defaults to 10
+}
+
+export class RequestAbortedError extends Error {
+    constructor(public readonly reason: 'timeout' | 'cancelled', message: string) {
+        super(message);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+/**
+ * Sends an HTTP(S) request with optional client certificate, following redirects the way browsers do
+ * and recording per-phase timings. Used by the extension and the command-line runner alike.
+ */
+export async function httpRequest(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+    const followRedirects = options.followRedirects ?? true;
+    const maxRedirects = Math.max(0, options.maxRedirects ?? 10);
+
+    // The timeout is a deadline for the whole redirect chain, not for each hop
+    const deadline = options.timeout && options.timeout > 0 ? Date.now() + options.timeout : 0;
+    const redirects: RedirectHop[] = [];
+    let currentUrl = url;
+    let method: string = (options.method || 'GET').toUpperCase();
+    let headers: Record<string, string> = { ...(options.headers || {}) };
+    let body: string | undefined = options.body;
+    let clientCert = options.clientCert;
+
+    while (true) {
+        const remaining = deadline ? deadline - Date.now() : 0;
+        if (deadline && remaining <= 0) {
+            throw new RequestAbortedError('timeout', `Request timed out after ${options.timeout} ms`);
+        }
+
+        const response = await sendRequest(currentUrl, {
+            ...options,
+            method,
+            headers,
+            body,
+            clientCert,
+            timeout: remaining
+        }).catch(error => {
+            // Report the configured timeout rather than the time left on the last hop
+            if (error instanceof RequestAbortedError && error.reason === 'timeout') {
+                throw new RequestAbortedError('timeout', `Request timed out after ${options.timeout} ms`);
+            }
+            throw error;
+        });
+
+        const location = response.headers['location'];
+        const isRedirect = [301, 302, 303, 307, 308].includes(response.statusCode) && typeof location === 'string';
+        if (!followRedirects || !isRedirect) {
+            return { ...response, redirects };
+        }
+
+        if (redirects.length >= maxRedirects) {
+            throw new Error(`Too many redirects: exceeded the limit of ${maxRedirects} (last Location: ${location})`);
+        }
+
+        let nextUrl: URL;
+        try {
+            nextUrl = new URL(location as string, currentUrl);
+        } catch (error) {
+            throw new Error(`Invalid redirect Location "${location}" from ${currentUrl}`);
+        }
+
+        redirects.push({
+            url: currentUrl,
+            method,
+            statusCode: response.statusCode,
+            statusText: response.statusText,
+            location: nextUrl.toString()
+        });
+
+        // 303 always switches to GET; 301/302 do so for POST as browsers do; 307/308 replay method and body
+        const switchToGet = (response.statusCode === 303 && method !== 'HEAD') ||
+            ((response.statusCode === 301 || response.statusCode === 302) && method === 'POST');
+        if (switchToGet) {
+            method = 'GET';
+            body = undefined;
+            headers = withoutHeaders(headers, ['content-type', 'content-length']);
+        }
+
+        // Never forward credentials, the client certificate included, to a different origin; the CA certificate is still trusted
+        if (nextUrl.origin !== new URL(currentUrl).origin) {
+            headers = withoutHeaders(headers, ['authorization', 'cookie', 'proxy-authorization']);
+            if (clientCert) {
+                clientCert = { enabled: clientCert.enabled, caCertPath: clientCert.caCertPath };
+            }
+        }
+
+        currentUrl = nextUrl.toString();
+    }
+}
+
+function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+        if (!names.includes(name.toLowerCase())) {
+            result[name] = headers[name];
+        }
+    });
+    return result;
+}
+
+function sendRequest(url: string, options: HttpRequestOptions): Promise<Omit<HttpResponse, 'redirects'>> {
+    return new Promise((resolve, reject) => {
+        let urlObj: URL;
+        try {
+            urlObj = new URL(url);
+        } catch (error) {
+            reject(new Error(`Invalid URL: ${url}. Error: ${error}`));
+            return;
+        }
+        const client = urlObj.protocol === 'https:' ? https : http;
+
+        if (options.signal?.aborted) {
+            reject(new RequestAbortedError('cancelled', 'Request cancelled'));
+            return;
+        }
+        
+        const requestOptions: any = {
+            hostname: urlObj.hostname,
+            port: urlObj.port,
+            path: urlObj.pathname + urlObj.search,
+            method: options.method || 'GET',
+            headers: options.headers || {}
+        };
+
+        // Add client certificate options if provided
+        if (options.clientCert && options.clientCert.enabled) {
+            try {
+                if (options.clientCert.certPath) {
+                    requestOptions.cert = fs.readFileSync(options.clientCert.certPath);
+                }
+                if (options.clientCert.keyPath) {
+                    requestOptions.key = fs.readFileSync(options.clientCert.keyPath);
+                }
+                if (options.clientCert.passphrase) {
+                    requestOptions.passphrase = options.clientCert.passphrase;
+                }
+                if (options.clientCert.caCertPath) {
+                    requestOptions.ca = fs.readFileSync(options.clientCert.caCertPath);
+                }
+            } catch (certError) {
+                reject(new Error(`Client certificate error: ${certError}`));
+                return;
+            }
+        }
+
+        // Timestamps for each connection phase, relative to the start of the request
+        const startTime = process.hrtime.bigint();
+        const elapsed = () => Number(process.hrtime.bigint() - startTime) / 1e6;
+        const marks: { lookup?: number, connect?: number, secureConnect?: number, response?: number } = {};
+
+        const req = client.request(requestOptions, (res) => {
+            marks.response = elapsed();
+            const chunks: Buffer[] = [];
+            let size = 0;
+            res.on('data', (chunk: Buffer) => {
+                chunks.push(chunk);
+                size += chunk.length;
+            });
+            res.on('end', () => {
+                const total = elapsed();
+                const headers: Record<string, string | string[]> = {};
+                Object.keys(res.headers).forEach(name => {
+                    const value = res.headers[name];
+                    if (value !== undefined) {
+                        headers[name] = value;
+                    }
+                });
+
+                resolve({
+                    url: url,
+                    body: Buffer.concat(chunks).toString('utf8'),
+                    statusCode: res.statusCode || 0,
+                    statusText: res.statusMessage || http.STATUS_CODES[res.statusCode || 0] || '',
+                    headers: headers,
+                    contentType: res.headers['content-type'] || '',
+                    size: size,
+                    timings: computeTimings(marks, total)
+                });
+            });
+            res.on('error', reject);
+        });
+
+        req.on('socket', (socket) => {
+            // A reused keep-alive socket is already connected and emits none of these
+            if (!socket.connecting) {
+                return;
+            }
+            socket.once('lookup', () => marks.lookup = elapsed());
+            socket.once('connect', () => marks.connect = elapsed());
+            socket.once('secureConnect', () => marks.secureConnect = elapsed());
+        });
+
+        // Overall deadline covering connect, upload and download; 0 disables it
+        let timeoutHandle: NodeJS.Timeout | undefined;
+        if (options.timeout && options.timeout > 0) {
+            timeoutHandle = setTimeout(() => {
+                req.destroy(new RequestAbortedError('timeout', `Request timed out after ${options.timeout} ms`));
+            }, options.timeout);
+        }
+
+        const onAbort = () => req.destroy(new RequestAbortedError('cancelled', 'Request cancelled'));
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        req.on('close', () => {
+            if (timeoutHandle) {
+                clearTimeout(timeoutHandle);
+            }
+            options.signal?.removeEventListener('abort', onAbort);
+        });
+
+        req.on('error', reject);
+
+        if (options.body) {
+            req.write(options.body);
+        }
+
+        req.end();
+    });
+}
+
+function computeTimings(marks: { lookup?: number, connect?: number, secureConnect?: number, response?: number }, total: number): HttpTimings {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const lookup = marks.lookup ?? 0;
+    const connect = marks.connect ?? lookup;
+    const secureConnect = marks.secureConnect ?? connect;
+    const response = marks.response ?? total;
+
+    return {
+        dns: round(lookup),
+        connect: round(connect - lookup),
+        tls: round(secureConnect - connect),
+        firstByte: round(response - secureConnect),
+        total: round(total)
+    };
+}
@@ -0,0 +1,196 @@
+import { COLLECTION_FORMAT, Collection, CollectionStep } from './collectionRunner';
+import { SchemeCredentials } from './securitySchemes';
+import { encodeTemplate } from './variables';
+
+/** Requests read from another tool's export, ready to open as collections. */
+export interface ImportResult {
+    source: string; // Name of the format, for messages
+    collections: Collection[]; // The first holds every request; any others are suites, e.g. per top-level folder
+    environments: Record<string, Record<string, string>>; // Variables to merge into spekai.environments
+    warnings: string[]; // Parts of the export that could not be carried over
+}
+
+/** Authentication settings of an imported request, in the terms shared by Postman and Insomnia. */
+export interface ImportedAuth {
+    type: string; // bearer, basic, apikey or oauth2; anything else is reported as unsupported
+    token?: string;
+    prefix?: string; // Of bearer tokens, "Bearer" when empty
+    username?: string;
+    password?: string;
+    key?: string; // API key name
+    value?: string;
+    in?: 'header' | 'query' | 'cookie';
+    accessToken?: string; // OAuth2 token to send as is
+    grantType?: string; // client_credentials or authorization_code
+    authorizationUrl?: string;
+    tokenUrl?: string;
+    clientId?: string;
+    clientSecret?: string;
+    scope?: string;
+    clientAuthentication?: 'header' | 'body';
+}
+
+/** State shared by the requests of one import. */
+export interface ImportContext {
+    prefix: string; // Of step ids and auth setting names, e.g. "postman"
+    variables: Record<string, string>; // Known variable values, e.g. Postman collection variables or the first Insomnia environment
+    securitySchemes: Record<string, any>;
+    credentials: Record<string, SchemeCredentials>;
+    warnings: string[];
+    stepCount: number;
+}
+
+// Boundary of multipart bodies built from form fields; fixed so imported bodies stay stable between imports
+const FORM_BOUNDARY = '----SpekAiFormBoundary';
+
+export function createImportContext(prefix: string, variables: Record<string, string> = {}): ImportContext {
+    return { prefix, variables, securitySchemes: {}, credentials: {}, warnings: [], stepCount: 0 };
+}
+
+export function createStep(context: ImportContext, name: string, method: string, url: string, headers: Array<{ key: string, value: string }>): CollectionStep {
+    return { id: `${context.prefix}_${++context.stepCount}`, name, method: method.toUpperCase(), url, headers };
+}
+
+export function setDefaultHeader(step: CollectionStep, key: string, value: string) {
+    if (!step.headers.some(header => header.key.toLowerCase() === key.toLowerCase())) {
+        step.headers.push({ key, value });
+    }
+}
+
+export function setFormBody(step: CollectionStep, fields: Array<{ name: string, value: string }>) {
+    step.body = fields.map(field => `${encodeTemplate(field.name)}=${encodeTemplate(field.value)}`).join('&');
+    setDefaultHeader(step, 'Content-Type', 'application/x-www-form-urlencoded');
+}
+
+/** Builds a multipart/form-data body from text fields; file fields cannot be carried over and are reported. */
+export function setMultipartBody(step: CollectionStep, fields: Array<{ name: string, value: string, file?: boolean }>, context: ImportContext) {
+    const parts = fields.filter(field => {
+        if (field.file) {
+            context.warnings.push(`${step.name}: file field "${field.name}" of the form-data body is not imported`);
+        }
+        return !field.file;
+    });
+    step.body = parts.map(field =>
+        `--${FORM_BOUNDARY}\r\nContent-Disposition: form-data; name="${field.name}"\r\n\r\n${field.value}\r\n`
+    ).join('') + `--${FORM_BOUNDARY}--\r\n`;
+    // The boundary belongs to this body, so it replaces any Content-Type the request had
+    step.headers = step.headers.filter(header => header.key.toLowerCase() !== 'content-type');
+    step.headers.push({ key: 'Content-Type', value: `multipart/form-data; boundary=${FORM_BOUNDARY}` });
+}
+
+/**
+ * Turns auth settings into headers where the value can be written down, and otherwise into auth
+ * settings kept with the collection: basic credentials that use variables are encoded when the
+ * request is sent, with the environment active then, and OAuth2 grants need a token request first.
+ */
+export function applyAuth(step: CollectionStep, auth: ImportedAuth, context: ImportContext) {
+    switch (auth.type) {
+        case 'bearer':
+            setDefaultHeader(step, 'Authorization', `${auth.prefix || 'Bearer'} ${auth.token || ''}`);
+            break;
+        case 'apikey': {
+            const key = auth.key || 'X-API-Key';
+            const value = auth.value || '';
+            if (auth.in === 'query') {
+                step.url += `${step.url.includes('?') ? '&' : '?'}${encodeTemplate(key)}=${encodeTemplate(value)}`;
+            } else if (auth.in === 'cookie') {
+                const cookie = step.headers.find(header => header.key.toLowerCase() === 'cookie');
+                if (cookie) {
+                    cookie.value += `; ${key}=${value}`;
+                } else {
+                    step.headers.push({ key: 'Cookie', value: `${key}=${value}` });
+                }
+            } else {
+                setDefaultHeader(step, key, value);
+            }
+            break;
+        }
+        case 'basic': {
+            // Variables stay templates, so switching environments switches credentials and no secret is written into the collection
+            const username = auth.username || '';
+            const password = auth.password || '';
+            if (!/\{\{/.test(username + password)) {
+                setDefaultHeader(step, 'Authorization', `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`);
+            } else {
+                addSecurity(step, { type: 'http', scheme: 'basic' }, { username, password }, context);
+            }
+            break;
+        }
+        case 'oauth2':
+            if (auth.accessToken) {
+                setDefaultHeader(step, 'Authorization', `${auth.prefix || 'Bearer'} ${auth.accessToken}`);
+            } else if (auth.grantType === 'client_credentials' || auth.grantType === 'authorization_code') {
+                const flows = auth.grantType === 'client_credentials'
+                    ? { clientCredentials: { tokenUrl: auth.tokenUrl || '', scopes: {} } }
+                    : { authorizationCode: { authorizationUrl: auth.authorizationUrl || '', tokenUrl: auth.tokenUrl || '', scopes: {} } };
+                addSecurity(step, { type: 'oauth2', flows }, {
+                    flow: auth.grantType === 'client_credentials' ? 'clientCredentials' : 'authorizationCode',
+                    clientId: auth.clientId || '',
+                    clientSecret: auth.clientSecret || '',
+                    scope: auth.scope || '',
+                    clientAuthentication: auth.clientAuthentication || 'header'
+                }, context);
+            } else {
+                context.warnings.push(`${step.name}: OAuth2 ${auth.grantType || 'auth'} without an access token is not imported`);
+            }
+            break;
+        default:
+            context.warnings.push(`${step.name}: ${auth.type} authentication is not supported and was left out`);
+    }
+}
+
+/**
+ * Builds the collections of an import: one with every request, followed by one suite per group (such
+ * as a top-level folder) when the requests fall into more than one. Step names of grouped requests
+ * start with the group name, which the suites leave out.
+ */
+export function buildCollections(name: string, entries: Array<{ group?: string, step: CollectionStep }>, context: ImportContext, environment?: string): Collection[] {
+    const collections = [createCollection(name, entries.map(entry => entry.step), context, environment)];
+    const groups = [...new Set(entries.map(entry => entry.group))];
+    if (groups.length > 1) {
+        groups.filter((group): group is string => group !== undefined).forEach(group => {
+            const steps = entries.filter(entry => entry.group === group).map(entry => ({
+                ...entry.step,
+                name: entry.step.name.startsWith(`${group} / `) ? entry.step.name.substring(group.length + 3) : entry.step.name
+            }));
+            collections.push(createCollection(`${name} / ${group}`, steps, context, environment));
+        });
+    }
+    return collections;
+}
+
+function createCollection(name: string, steps: CollectionStep[], context: ImportContext, environment?: string): Collection {
+    // Each collection only keeps the auth settings its own steps use
+    const used = new Set(steps.flatMap(step => (step.security || []).flatMap(requirement => Object.keys(requirement))));
+    const pick = <T>(values: Record<string, T>) => Object.fromEntries(Object.entries(values).filter(([key]) => used.has(key)));
+    return {
+        format: COLLECTION_FORMAT,
+        version: 1,
+        name,
+        baseUrl: '',
+        environment,
+        mode: 'sequential',
+        stopOnFailure: false,
+        headers: [],
+        securitySchemes: used.size > 0 ? pick(context.securitySchemes) : undefined,
+        credentials: used.size > 0 ? pick(context.credentials) : undefined,
+        steps
+    };
+}
+
+function addSecurity(step: CollectionStep, scheme: any, credentials: SchemeCredentials, context: ImportContext) {
+    // Requests that share the same settings share one scheme
+    const signature = JSON.stringify([scheme, credentials]);
+    let name = Object.keys(context.securitySchemes)
+        .find(existing => JSON.stringify([context.securitySchemes[existing], context.credentials[existing]]) === signature);
+    if (!name) {
+        const base = `${context.prefix}${scheme.type === 'oauth2' ? 'OAuth2' : 'Basic'}`;
+        name = base;
+        for (let index = 2; context.securitySchemes[name]; index++) {
+            name = `${base}${index}`;
+        }
+        context.securitySchemes[name] = scheme;
+        context.credentials[name] = credentials;
+    }
+    step.security = [{ [name]: [] }];
+}
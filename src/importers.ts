@@ -0,0 +1,238 @@
+import * as path from 'path';
+import { Collection, CollectionStep } from './collectionRunner';
+import { importHar, isHar } from './har';
+import { ImportResult } from './importedRequests';
+import { importInsomniaExport, isInsomniaExport } from './insomnia';
+import { importPostmanCollection, importPostmanEnvironment, isPostmanCollection, isPostmanEnvironment } from './postman';
+import { SavedTestData } from './testData';
+
+/** A spec operation that an imported request was sent to, with the request's values for its parameters. */
+export interface OperationMatch {
+    method: string; // Upper case, as in the operation list
+    path: string; // Path template from the spec
+    summary?: string;
+    security?: Array<Record<string, string[]>>;
+    pathParameters: Record<string, string>;
+    queryParameters: Record<string, string | string[]>;
+    headerParameters: Record<string, string>;
+}
+
+/** Detects the format of an exported file and converts it; throws when the format is not recognized. */
+export function importRequests(content: string, fileName: string): ImportResult {
+    let json: any;
+    try {
+        json = JSON.parse(content);
+    } catch {
+        throw new Error(`${fileName} is not a JSON file`);
+    }
+
+    if (isPostmanCollection(json)) {
+        return importPostmanCollection(json);
+    }
+    if (isPostmanEnvironment(json)) {
+        return importPostmanEnvironment(json);
+    }
+    if (isInsomniaExport(json)) {
+        return importInsomniaExport(json);
+    }
+    if (isHar(json)) {
+        return importHar(json, path.basename(fileName, path.extname(fileName)));
+    }
+    throw new Error(`${fileName} is not a Postman v2.1 collection or environment, an Insomnia v4 export or a HAR file`);
+}
+
+/**
+ * Finds the spec operation a request URL was sent to. The URL may start with a {{variable}} for the
+ * base URL and may include a server's base path; literal path segments win over templated ones, so
+ * `/v1/items` under a `/v1` server is `/items` rather than `/{tenant}/items`.
+ */
+export function matchOperation(spec: any, method: string, url: string, headers: Array<{ key: string, value: string }> = []): OperationMatch | undefined {
+    const requestPath = pathOf(url);
+    if (!spec?.paths || requestPath === undefined) {
+        return undefined;
+    }
+
+    // Paths without a server's base path come first, so they win between matches with as many templated segments
+    const candidates = [...serverBasePaths(spec)
+        .filter(base => requestPath.startsWith(`${base}/`))
+        .map(base => requestPath.substring(base.length)), requestPath];
+    const templateCount = (template: string) => (template.match(/\{/g) || []).length;
+    const templates = Object.keys(spec.paths)
+        .filter(template => spec.paths[template]?.[method.toLowerCase()])
+        .sort((a, b) => templateCount(a) - templateCount(b));
+
+    let best: { template: string, names: string[], match: RegExpExecArray } | undefined;
+    for (const candidate of candidates) {
+        for (const template of templates) {
+            if (best && templateCount(template) >= templateCount(best.template)) {
+                break;
+            }
+            const names: string[] = [];
+            const pattern = template.split(/(\{[^}]+\})/).map(part => {
+                if (/^\{[^}]+\}$/.test(part)) {
+                    names.push(part.slice(1, -1));
+                    return '([^/]+)';
+                }
+                return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }).join('');
+            const match = new RegExp(`^${pattern}/?$`).exec(candidate);
+            if (match) {
+                best = { template, names, match };
+                break;
+            }
+        }
+    }
+    return best && describeMatch(spec, best.template, method,
+        best.names.map((name, index) => [name, decode(best!.match[index + 1])]), url, headers);
+}
+
+/** Links imported steps to the spec operations their URLs match, so schema assertions and the auth panel apply to them. */
+export function linkToOperations(collections: Collection[], spec: any) {
+    collections.forEach(collection => {
+        collection.steps.forEach(step => {
+            const match = matchOperation(spec, step.method, step.url, step.headers);
+            if (match) {
+                step.operation = { method: match.method, path: match.path };
+                step.security = step.security || (match.security && match.security.length > 0 ? match.security : undefined);
+            }
+        });
+        if (collection.steps.some(step => step.operation) && spec.components?.securitySchemes) {
+            collection.securitySchemes = { ...spec.components.securitySchemes, ...(collection.securitySchemes || {}) };
+        }
+    });
+}
+
+/** Test data that opens an imported request in the operation it matched, with its values in the parameter editor. */
+export function matchToTestData(step: CollectionStep, match: OperationMatch, environment?: string): SavedTestData {
+    let requestBody: any;
+    if (step.body) {
+        try {
+            requestBody = JSON.parse(step.body);
+        } catch {
+            // Only JSON bodies have a place in the input JSON
+        }
+    }
+    const headerNames = Object.keys(match.headerParameters).map(name => name.toLowerCase());
+    return {
+        operation: {
+            id: `${match.method}_${match.path.replace(/[^a-zA-Z0-9]/g, '_')}`,
+            method: match.method,
+            path: match.path,
+            summary: match.summary
+        },
+        inputJson: JSON.stringify({
+            pathParameters: match.pathParameters,
+            queryParameters: match.queryParameters,
+            headerParameters: match.headerParameters,
+            ...(requestBody !== undefined ? { requestBody } : {})
+        }, null, 2),
+        // Headers that are not parameters of the operation, and a body that is not JSON, are kept as they were
+        customHeaders: step.headers.filter(header => !headerNames.includes(header.key.toLowerCase()) &&
+            (requestBody === undefined || header.key.toLowerCase() !== 'content-type')),
+        environment
+    };
+}
+
+/**
+ * Combines the results of importing several files, e.g. a Postman collection and its environments.
+ * As in Postman, collection variables are the defaults of every environment imported with them, and
+ * the collections are pinned to the first of those environments.
+ */
+export function mergeImportResults(results: ImportResult[]): ImportResult {
+    const collectionVariables = combineEnvironments(results.filter(result => result.collections.length > 0));
+    const environmentFiles = combineEnvironments(results.filter(result => result.collections.length === 0));
+    const collections = results.flatMap(result => result.collections);
+
+    let environments = collectionVariables;
+    const fileNames = Object.keys(environmentFiles);
+    if (fileNames.length > 0) {
+        const defaults = Object.values(collectionVariables).reduce((values, variables) => ({ ...values, ...variables }), {} as Record<string, string>);
+        environments = Object.fromEntries(fileNames.map(name => [name, { ...defaults, ...environmentFiles[name] }]));
+        collections.forEach(collection => {
+            collection.environment = fileNames[0];
+        });
+    }
+
+    return {
+        source: [...new Set(results.map(result => result.source))].join(', '),
+        collections,
+        environments,
+        warnings: results.flatMap(result => result.warnings)
+    };
+}
+
+function combineEnvironments(results: ImportResult[]): Record<string, Record<string, string>> {
+    const environments: Record<string, Record<string, string>> = {};
+    results.forEach(result => Object.entries(result.environments).forEach(([name, variables]) => {
+        environments[name] = { ...(environments[name] || {}), ...variables };
+    }));
+    return environments;
+}
+
+function describeMatch(spec: any, template: string, method: string, pathValues: Array<[string, string]>, url: string,
+    headers: Array<{ key: string, value: string }>): OperationMatch {
+    const pathItem = spec.paths[template];
+    const operation = pathItem[method.toLowerCase()];
+    const parameters: any[] = [...(pathItem.parameters || []), ...(operation.parameters || [])];
+
+    const queryParameters: Record<string, string | string[]> = {};
+    const queryIndex = url.indexOf('?');
+    if (queryIndex >= 0) {
+        url.substring(queryIndex + 1).split('#')[0].split('&').filter(Boolean).forEach(pair => {
+            const separator = pair.indexOf('=');
+            const name = decode(separator >= 0 ? pair.substring(0, separator) : pair);
+            const value = separator >= 0 ? decode(pair.substring(separator + 1).replace(/\+/g, ' ')) : '';
+            const existing = queryParameters[name];
+            queryParameters[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+        });
+    }
+
+    const headerParameters: Record<string, string> = {};
+    parameters.filter(parameter => parameter?.in === 'header').forEach(parameter => {
+        const header = headers.find(entry => entry.key.toLowerCase() === String(parameter.name).toLowerCase());
+        if (header) {
+            headerParameters[parameter.name] = header.value;
+        }
+    });
+
+    return {
+        method: method.toUpperCase(),
+        path: template,
+        summary: operation.summary,
+        security: operation.security ?? spec.security,
+        pathParameters: Object.fromEntries(pathValues),
+        queryParameters,
+        headerParameters
+    };
+}
+
+// The path of a request URL, which may be absolute or start with a {{baseUrl}}-style variable
+function pathOf(url: string): string | undefined {
+    let rest = url.trim().replace(/^\{\{\s*[\w.-]+\s*\}\}/, '');
+    const origin = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i.exec(rest);
+    if (origin) {
+        rest = rest.substring(origin[0].length);
+    }
+    rest = rest.split(/[?#]/)[0];
+    if (rest === '') {
+        return '/';
+    }
+    return rest.startsWith('/') ? rest : undefined;
+}
+
+// Base paths of the spec's servers, e.g. /v1 for https://api.example.com/v1, with server variables at their defaults
+function serverBasePaths(spec: any): string[] {
+    return (spec.servers || []).map((server: any) => {
+        const url = String(server.url || '').replace(/\{([^}]+)\}/g, (_match: string, name: string) => server.variables?.[name]?.default ?? '');
+        const pathname = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '') : url;
+        return pathname.replace(/\/+$/, '');
+    }).filter((base: string) => base.startsWith('/') && base.length > 1);
+}
+
+function decode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
@@ -0,0 +1,222 @@
+import { CollectionStep } from './collectionRunner';
+import { ImportContext, ImportResult, ImportedAuth, applyAuth, buildCollections, createImportContext, createStep, setDefaultHeader, setFormBody, setMultipartBody } from './importedRequests';
+import { encodeTemplate, substituteVariables } from './variables';
+
+export function isInsomniaExport(json: any): boolean {
+    return !!json && typeof json === 'object' && json._type === 'export' && Array.isArray(json.resources);
+}
+
+/**
+ * Converts an Insomnia v4 export. Requests keep their folders in their names and each top-level
+ * folder becomes a suite. Sub environments become SpekAi environments with the base environment as
+ * their defaults, and cookies from the cookie jar are sent as Cookie headers on matching requests.
+ */
+export function importInsomniaExport(json: any): ImportResult {
+    const resources: any[] = json.resources.map(convertTemplates);
+    const byId = new Map(resources.map(resource => [resource._id, resource]));
+    const workspaces = resources.filter(resource => resource._type === 'workspace');
+    const name = workspaces.length === 1 ? String(workspaces[0].name || 'Insomnia') : 'Insomnia';
+
+    const environments = collectEnvironments(resources, byId, workspaces);
+    const environmentName = Object.keys(environments)[0];
+    const context = createImportContext('insomnia', environmentName ? environments[environmentName] : {});
+    if (json.__export_format !== 4) {
+        context.warnings.push(`Insomnia export format ${json.__export_format} is read as format 4`);
+    }
+
+    // Folder-level environments are merged into every environment; SpekAi has no per-folder scope
+    resources.filter(resource => resource._type === 'request_group' && resource.environment && Object.keys(resource.environment).length > 0)
+        .forEach(folder => {
+            const values = flatten(folder.environment);
+            Object.keys(environments).forEach(environment => {
+                environments[environment] = { ...values, ...environments[environment] };
+            });
+            context.variables = { ...values, ...context.variables };
+        });
+
+    const cookies = resources.filter(resource => resource._type === 'cookie_jar').flatMap(jar => jar.cookies || []);
+    const skipped = resources.filter(resource => /^(grpc_request|websocket_request)$/.test(resource._type));
+    if (skipped.length > 0) {
+        context.warnings.push(`${skipped.length} gRPC and WebSocket request(s) are not imported`);
+    }
+
+    const entries = resources
+        .filter(resource => resource._type === 'request')
+        .sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0))
+        .map(request => {
+            const folders = folderPath(request, byId, workspaces.length > 1);
+            const step = convertRequest(request, folders, inheritedAuth(request, byId), context);
+            applyCookies(step, cookies, context.variables);
+            return { group: folders[0], step };
+        });
+
+    entries.filter(entry => JSON.stringify(entry.step).includes('{%')).forEach(entry => {
+        context.warnings.push(`${entry.step.name}: Insomnia template tags such as {% response %} have no SpekAi equivalent and are sent as typed`);
+    });
+
+    return {
+        source: 'Insomnia',
+        collections: buildCollections(name, entries, context, environmentName),
+        environments,
+        warnings: context.warnings
+    };
+}
+
+function convertRequest(request: any, folders: string[], auth: any, context: ImportContext): CollectionStep {
+    const name = [...folders, String(request.name || 'Request')].join(' / ');
+    let url = String(request.url || '');
+    const query = enabled(request.parameters).map((param: any) => `${encodeTemplate(String(param.name))}=${encodeTemplate(String(param.value ?? ''))}`);
+    if (query.length > 0) {
+        url += (url.includes('?') ? '&' : '?') + query.join('&');
+    }
+
+    const step = createStep(context, name, String(request.method || 'GET'), url,
+        enabled(request.headers).map((header: any) => ({ key: String(header.name), value: String(header.value ?? '') })));
+    applyBody(step, request.body || {}, context);
+    if (auth && auth.type && auth.type !== 'none' && !auth.disabled) {
+        applyAuth(step, toImportedAuth(auth), context);
+    }
+    return step;
+}
+
+function applyBody(step: CollectionStep, body: any, context: ImportContext) {
+    const mimeType = String(body.mimeType || '');
+    if (mimeType === 'application/x-www-form-urlencoded') {
+        setFormBody(step, enabled(body.params).map((param: any) => ({ name: String(param.name), value: String(param.value ?? '') })));
+    } else if (mimeType === 'multipart/form-data') {
+        setMultipartBody(step, enabled(body.params).map((param: any) => ({
+            name: String(param.name),
+            value: String(param.value ?? ''),
+            file: param.type === 'file'
+        })), context);
+    } else if (body.fileName) {
+        context.warnings.push(`${step.name}: binary file bodies are not imported`);
+    } else if (typeof body.text === 'string' && body.text.length > 0) {
+        step.body = body.text;
+        // GraphQL bodies are stored as the JSON document that is sent
+        setDefaultHeader(step, 'Content-Type', mimeType === 'application/graphql' ? 'application/json' : mimeType || 'text/plain');
+    }
+}
+
+function toImportedAuth(auth: any): ImportedAuth {
+    switch (auth.type) {
+        case 'bearer':
+            return { type: 'bearer', token: auth.token, prefix: auth.prefix };
+        case 'apikey':
+            return { type: 'apikey', key: auth.key, value: auth.value, in: auth.addTo === 'queryParams' ? 'query' : auth.addTo === 'cookie' ? 'cookie' : 'header' };
+        case 'basic':
+            return { type: 'basic', username: auth.username, password: auth.password };
+        case 'oauth2':
+            return {
+                type: 'oauth2',
+                accessToken: auth.accessToken,
+                prefix: auth.tokenPrefix,
+                grantType: auth.grantType,
+                authorizationUrl: auth.authorizationUrl,
+                tokenUrl: auth.accessTokenUrl,
+                clientId: auth.clientId,
+                clientSecret: auth.clientSecret,
+                scope: auth.scope,
+                clientAuthentication: auth.credentialsInBody ? 'body' : 'header'
+            };
+        default:
+            return { type: auth.type };
+    }
+}
+
+// Requests without their own authentication use the nearest folder's, as in recent Insomnia versions
+function inheritedAuth(request: any, byId: Map<string, any>): any {
+    let resource = request;
+    while (resource) {
+        const auth = resource.authentication;
+        if (auth && auth.type && auth.type !== 'inherit') {
+            return auth;
+        }
+        resource = byId.get(resource.parentId);
+    }
+    return undefined;
+}
+
+function folderPath(request: any, byId: Map<string, any>, includeWorkspace: boolean): string[] {
+    const folders: string[] = [];
+    let parent = byId.get(request.parentId);
+    while (parent) {
+        if (parent._type === 'request_group' || (parent._type === 'workspace' && includeWorkspace)) {
+            folders.unshift(String(parent.name || 'Folder'));
+        }
+        parent = byId.get(parent.parentId);
+    }
+    return folders;
+}
+
+function collectEnvironments(resources: any[], byId: Map<string, any>, workspaces: any[]): Record<string, Record<string, string>> {
+    const environments: Record<string, Record<string, string>> = {};
+    const bases = resources.filter(resource => resource._type === 'environment' && byId.get(resource.parentId)?._type === 'workspace');
+    bases.forEach(base => {
+        const defaults = flatten(base.data || {});
+        const children = resources.filter(resource => resource._type === 'environment' && resource.parentId === base._id);
+        children.forEach(child => {
+            environments[String(child.name)] = { ...defaults, ...flatten(child.data || {}) };
+        });
+        // Without sub environments, the base environment is named after its workspace
+        if (children.length === 0 && Object.keys(defaults).length > 0) {
+            environments[String(byId.get(base.parentId)?.name || workspaces[0]?.name || 'Insomnia')] = defaults;
+        }
+    });
+    return environments;
+}
+
+function applyCookies(step: CollectionStep, cookies: any[], variables: Record<string, string>) {
+    let url: URL;
+    try {
+        url = new URL(substituteVariables(step.url, variables));
+    } catch {
+        return;
+    }
+    const matching = cookies.filter(cookie => {
+        const domain = String(cookie.domain || '').replace(/^\./, '').toLowerCase();
+        const host = url.hostname.toLowerCase();
+        return domain && (host === domain || host.endsWith(`.${domain}`)) && url.pathname.startsWith(cookie.path || '/');
+    });
+    if (matching.length === 0) {
+        return;
+    }
+    const value = matching.map(cookie => `${cookie.key}=${cookie.value}`).join('; ');
+    const header = step.headers.find(entry => entry.key.toLowerCase() === 'cookie');
+    if (header) {
+        header.value += `; ${value}`;
+    } else {
+        step.headers.push({ key: 'Cookie', value });
+    }
+}
+
+// Insomnia writes variables as {{ _.name }}; SpekAi as {{name}}
+function convertTemplates(value: any): any {
+    if (typeof value === 'string') {
+        return value.replace(/\{\{\s*(?:_\.)?([\w.-]+)\s*\}\}/g, '{{$1}}');
+    }
+    if (Array.isArray(value)) {
+        return value.map(convertTemplates);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, convertTemplates(item)]));
+    }
+    return value;
+}
+
+// Nested environment objects become dotted names, so {{ _.api.url }} still resolves
+function flatten(data: Record<string, any>, prefix = ''): Record<string, string> {
+    const values: Record<string, string> = {};
+    Object.entries(data).forEach(([key, value]) => {
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            Object.assign(values, flatten(value, `${prefix}${key}.`));
+        } else {
+            values[`${prefix}${key}`] = typeof value === 'string' ? value : JSON.stringify(value);
+        }
+    });
+    return values;
+}
+
+function enabled(entries: any): any[] {
+    return Array.isArray(entries) ? entries.filter(entry => entry && !entry.disabled) : [];
+}
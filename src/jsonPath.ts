@@ -0,0 +1,274 @@
+type Selector =
+    | { kind: 'name', name: string }
+    | { kind: 'wildcard' }
+    | { kind: 'index', index: number }
+    | { kind: 'slice', start?: number, end?: number, step?: number }
+    | { kind: 'filter', path: string, operator?: string, value?: any };
+
+interface Segment {
+    descendant: boolean; // `..` applies the selectors to the node and all its descendants
+    selectors: Selector[];
+}
+
+/** A value matched by a JSONPath expression, with the member names and array indexes that lead to it from the root. */
+export interface JsonPathMatch {
+    location: Array<string | number>;
+    value: any;
+}
+
+/**
+ * Evaluates a JSONPath expression and returns every matched value. Supports the common subset of
+ * RFC 9535: `$`, `.name`, `['name']`, `[0]`, `[-1]`, `[*]`, `.*`, `..name`, `[start:end:step]`,
+ * unions such as `[0,2]`, and filters like `[?(@.status == 'active')]` or `[?(@.id)]`.
+ * Paths without a leading `$` are taken relative to the root, so `data.id` means `$.data.id`.
+ */
+export function queryJsonPath(document: any, path: string): any[] {
+    return locateJsonPath(document, path).map(match => match.value);
+}
+
+/** Like queryJsonPath, but also returns where in the document each value was found. */
+export function locateJsonPath(document: any, path: string): JsonPathMatch[] {
+    let nodes: JsonPathMatch[] = [{ location: [], value: document }];
+    for (const segment of parseJsonPath(path)) {
+        const next: JsonPathMatch[] = [];
+        nodes.forEach(node => {
+            const targets = segment.descendant ? descendantsOf(node) : [node];
+            targets.forEach(target => segment.selectors.forEach(selector => {
+                select(target.value, selector).forEach(([key, value]) => next.push({ location: [...target.location, key], value }));
+            }));
+        });
+        nodes = next;
+    }
+    return nodes;
+}
+
+/**
+ * Whether a path can select at most one value (a singular query in RFC 9535): only names and
+ * indexes, without `..`, wildcards, slices, filters or unions.
+ */
+export function isSingularJsonPath(path: string): boolean {
+    return parseJsonPath(path).every(segment => !segment.descendant && segment.selectors.length === 1 &&
+        (segment.selectors[0].kind === 'name' || segment.selectors[0].kind === 'index'));
+}
+
+export function parseJsonPath(path: string): Segment[] {
+    let expression = path.trim();
+    if (!expression.startsWith('$')) {
+        expression = expression.startsWith('[') ? `$${expression}` : `$.${expression}`;
+    }
+
+    const segments: Segment[] = [];
+    let position = 1;
+    while (position < expression.length) {
+        let descendant = false;
+        if (expression.startsWith('..', position)) {
+            descendant = true;
+            position += 2;
+        } else if (expression[position] === '.') {
+            position += 1;
+        } else if (expression[position] !== '[') {
+            throw new Error(`Invalid JSONPath "${path}": unexpected "${expression[position]}" at position ${position}`);
+        }
+
+        if (expression[position] === '[') {
+            const end = findClosingBracket(expression, position);
+            if (end === -1) {
+                throw new Error(`Invalid JSONPath "${path}": missing "]"`);
+            }
+            segments.push({ descendant, selectors: parseBracket(expression.substring(position + 1, end), path) });
+            position = end + 1;
+        } else {
+            const match = /^(\*|[^.[\]]+)/.exec(expression.substring(position));
+            if (!match) {
+                throw new Error(`Invalid JSONPath "${path}": expected a name at position ${position}`);
+            }
+            segments.push({ descendant, selectors: [match[1] === '*' ? { kind: 'wildcard' } : { kind: 'name', name: match[1] }] });
+            position += match[1].length;
+        }
+    }
+    return segments;
+}
+
+function parseBracket(content: string, path: string): Selector[] {
+    const trimmed = content.trim();
+    if (trimmed.startsWith('?')) {
+        return [parseFilter(trimmed.substring(1).trim(), path)];
+    }
+    return splitOutsideQuotes(trimmed, ',').map(part => {
+        const item = part.trim();
+        if (item === '*') {
+            return { kind: 'wildcard' };
+        }
+        if (/^(['"]).*\1$/.test(item)) {
+            return { kind: 'name', name: unquote(item) };
+        }
+        if (/^-?\d+$/.test(item)) {
+            return { kind: 'index', index: Number(item) };
+        }
+        const slice = /^(-?\d+)?\s*:\s*(-?\d+)?(?:\s*:\s*(-?\d+))?$/.exec(item);
+        if (slice) {
+            return {
+                kind: 'slice',
+                start: slice[1] !== undefined ? Number(slice[1]) : undefined,
+                end: slice[2] !== undefined ? Number(slice[2]) : undefined,
+                step: slice[3] !== undefined ? Number(slice[3]) : undefined
+            };
+        }
+        throw new Error(`Invalid JSONPath "${path}": unsupported selector "[${item}]"`);
+    });
+}
+
+function parseFilter(filter: string, path: string): Selector {
+    const body = filter.startsWith('(') && filter.endsWith(')') ? filter.substring(1, filter.length - 1).trim() : filter;
+    const match = /^@((?:\.[^\s=!<>~]+|\[[^\]]+\])*)\s*(?:(==|!=|<=|>=|<|>|=~)\s*(.+))?$/.exec(body);
+    if (!match) {
+        throw new Error(`Invalid JSONPath "${path}": unsupported filter "${filter}"`);
+    }
+    if (!match[2]) {
+        return { kind: 'filter', path: `$${match[1]}` };
+    }
+    return { kind: 'filter', path: `$${match[1]}`, operator: match[2], value: parseLiteral(match[3].trim()) };
+}
+
+function parseLiteral(literal: string): any {
+    if (/^(['"]).*\1$/.test(literal)) {
+        return unquote(literal);
+    }
+    if (literal.startsWith('/')) {
+        const lastSlash = literal.lastIndexOf('/');
+        return new RegExp(literal.substring(1, lastSlash), literal.substring(lastSlash + 1));
+    }
+    try {
+        return JSON.parse(literal);
+    } catch {
+        return literal;
+    }
+}
+
+// The members or items of a node that a selector picks, as [name or index, value] pairs
+function select(node: any, selector: Selector): Array<[string | number, any]> {
+    if (!node || typeof node !== 'object') {
+        return [];
+    }
+    switch (selector.kind) {
+        case 'name':
+            return !Array.isArray(node) && Object.prototype.hasOwnProperty.call(node, selector.name) ? [[selector.name, node[selector.name]]] : [];
+        case 'wildcard':
+            return childrenOf(node);
+        case 'index': {
+            if (!Array.isArray(node)) {
+                return [];
+            }
+            const index = selector.index < 0 ? node.length + selector.index : selector.index;
+            return index >= 0 && index < node.length ? [[index, node[index]]] : [];
+        }
+        case 'slice': {
+            if (!Array.isArray(node)) {
+                return [];
+            }
+            const step = selector.step || 1;
+            const normalize = (value: number) => value < 0 ? Math.max(node.length + value, 0) : Math.min(value, node.length);
+            const start = selector.start !== undefined ? normalize(selector.start) : (step > 0 ? 0 : node.length - 1);
+            const end = selector.end !== undefined ? normalize(selector.end) : (step > 0 ? node.length : -1);
+            const result: Array<[number, any]> = [];
+            for (let i = start; step > 0 ? i < end : i > end; i += step) {
+                result.push([i, node[i]]);
+            }
+            return result;
+        }
+        case 'filter':
+            return childrenOf(node).filter(([, child]) => {
+                const matches = queryJsonPath(child, selector.path);
+                if (!selector.operator) {
+                    return matches.length > 0;
+                }
+                return matches.length > 0 && compare(matches[0], selector.operator, selector.value);
+            });
+    }
+}
+
+function compare(actual: any, operator: string, expected: any): boolean {
+    switch (operator) {
+        case '==':
+            return JSON.stringify(actual) === JSON.stringify(expected);
+        case '!=':
+            return JSON.stringify(actual) !== JSON.stringify(expected);
+        case '<':
+            return actual < expected;
+        case '<=':
+            return actual <= expected;
+        case '>':
+            return actual > expected;
+        case '>=':
+            return actual >= expected;
+        case '=~':
+            return expected instanceof RegExp && typeof actual === 'string' && expected.test(actual);
+        default:
+            return false;
+    }
+}
+
+function descendantsOf(node: JsonPathMatch): JsonPathMatch[] {
+    const result = [node];
+    if (node.value && typeof node.value === 'object') {
+        childrenOf(node.value).forEach(([key, value]) => result.push(...descendantsOf({ location: [...node.location, key], value })));
+    }
+    return result;
+}
+
+function childrenOf(node: any): Array<[string | number, any]> {
+    return Array.isArray(node) ? node.map((item, index) => [index, item] as [number, any]) : Object.entries(node);
+}
+
+function findClosingBracket(expression: string, open: number): number {
+    let quote: string | null = null;
+    let depth = 0;
+    for (let i = open; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote) {
+            if (char === '\\') {
+                i++;
+            } else if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === '[') {
+            depth++;
+        } else if (char === ']' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\') {
+                current += char + (text[++i] ?? '');
+                continue;
+            }
+            if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts;
+}
+
+function unquote(text: string): string {
+    return text.substring(1, text.length - 1).replace(/\\(.)/g, '$1');
+}
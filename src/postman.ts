@@ -0,0 +1,397 @@
+import { randomUUID } from 'crypto';
+import { Collection, CollectionStep } from './collectionRunner';
+import { ImportContext, ImportResult, ImportedAuth, applyAuth, buildCollections, createImportContext, createStep, setDefaultHeader, setFormBody, setMultipartBody } from './importedRequests';
+import { SchemeCredentials } from './securitySchemes';
+import { encodeTemplate } from './variables';
+
+export const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const RAW_CONTENT_TYPES: Record<string, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    html: 'text/html',
+    javascript: 'application/javascript',
+    text: 'text/plain'
+};
+
+export function isPostmanCollection(json: any): boolean {
+    return !!json && typeof json === 'object' && !!json.info && Array.isArray(json.item) &&
+        (typeof json.info.schema !== 'string' || json.info.schema.includes('getpostman.com'));
+}
+
+export function isPostmanEnvironment(json: any): boolean {
+    return !!json && typeof json === 'object' && Array.isArray(json.values) &&
+        (json._postman_variable_scope === 'environment' || json._postman_variable_scope === 'globals');
+}
+
+/**
+ * Converts a Postman v2.1 collection, with each top-level folder as a suite. Collection variables
+ * become an environment named after the collection. Postman's `{{variable}}` syntax is the same as
+ * SpekAi's, so URLs, headers and bodies are copied as they are.
+ */
+export function importPostmanCollection(json: any): ImportResult {
+    const name = String(json.info.name || 'Postman collection');
+    const context = createImportContext('postman', variableValues(json.variable));
+
+    if (typeof json.info.schema === 'string' && !json.info.schema.includes('v2.1') && !json.info.schema.includes('v2.0')) {
+        context.warnings.push(`${name} uses ${json.info.schema}; only v2.0 and v2.1 collections are supported`);
+    }
+
+    const entries: Array<{ group?: string, step: CollectionStep }> = [];
+    (json.item as any[]).forEach(item => {
+        const group = Array.isArray(item.item) ? String(item.name || 'Folder') : undefined;
+        collectSteps([item], [], json.auth, context).forEach(step => entries.push({ group, step }));
+    });
+
+    const hasVariables = Object.keys(context.variables).length > 0;
+    return {
+        source: 'Postman',
+        collections: buildCollections(name, entries, context, hasVariables ? name : undefined),
+        environments: hasVariables ? { [name]: context.variables } : {},
+        warnings: context.warnings
+    };
+}
+
+/** Converts an exported Postman environment (or globals) file into a SpekAi environment of the same name. */
+export function importPostmanEnvironment(json: any): ImportResult {
+    const name = String(json.name || (json._postman_variable_scope === 'globals' ? 'Postman globals' : 'Postman environment'));
+    return {
+        source: 'Postman',
+        collections: [],
+        environments: { [name]: variableValues(json.values) },
+        warnings: []
+    };
+}
+
+function collectSteps(items: any[], folders: string[], auth: any, context: ImportContext): CollectionStep[] {
+    return items.flatMap(item => {
+        if (Array.isArray(item.item)) {
+            return collectSteps(item.item, [...folders, String(item.name || 'Folder')], inheritAuth(auth, item.auth), context);
+        }
+        if (!item.request) {
+            return [];
+        }
+        return [convertRequest(item, folders, inheritAuth(auth, item.request.auth), context)];
+    });
+}
+
+function convertRequest(item: any, folders: string[], auth: any, context: ImportContext): CollectionStep {
+    // A request may be given as just its URL
+    const request = typeof item.request === 'string' ? { url: item.request } : item.request;
+    const name = [...folders, String(item.name || 'Request')].join(' / ');
+    const step = createStep(context, name, String(request.method || 'GET'), convertUrl(request.url),
+        enabled(request.header).map((header: any) => ({ key: String(header.key), value: String(header.value ?? '') })));
+
+    applyBody(step, request.body, context);
+    if (auth && auth.type !== 'noauth') {
+        applyAuth(step, toImportedAuth(auth), context);
+    }
+
+    if ((item.event || []).some((event: any) => event.script?.exec?.length > 0)) {
+        context.warnings.push(`${name}: pre-request and test scripts are not imported; add assertions or extraction rules instead`);
+    }
+    if (/\{\{\$\w+\}\}/.test(JSON.stringify(step))) {
+        context.warnings.push(`${name}: Postman dynamic variables such as {{$guid}} have no SpekAi equivalent and are sent as typed`);
+    }
+    return step;
+}
+
+function convertUrl(url: any): string {
+    if (!url) {
+        return '';
+    }
+    if (typeof url === 'string') {
+        return url;
+    }
+
+    let text = typeof url.raw === 'string' ? url.raw : '';
+    if (!text) {
+        const host = Array.isArray(url.host) ? url.host.join('.') : String(url.host || '');
+        const path = Array.isArray(url.path) ? url.path.join('/') : String(url.path || '');
+        const query = enabled(url.query)
+            .map((param: any) => param.value === null || param.value === undefined ? param.key : `${param.key}=${param.value}`)
+            .join('&');
+        text = `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+    }
+
+    // Postman path variables (/users/:id) become their value, or a {{variable}} of the same name when empty
+    const values = Object.fromEntries((url.variable || []).map((variable: any) => [variable.key, variable.value]));
+    return text.replace(/\/:([A-Za-z_][\w-]*)/g, (_segment: string, key: string) =>
+        values[key] !== undefined && values[key] !== '' ? `/${encodeTemplate(String(values[key]))}` : `/{{${key}}}`);
+}
+
+function applyBody(step: CollectionStep, body: any, context: ImportContext) {
+    if (!body || body.disabled) {
+        return;
+    }
+    switch (body.mode) {
+        case 'raw':
+            if (typeof body.raw === 'string' && body.raw.length > 0) {
+                step.body = body.raw;
+                setDefaultHeader(step, 'Content-Type', RAW_CONTENT_TYPES[body.options?.raw?.language] || 'text/plain');
+            }
+            break;
+        case 'urlencoded':
+            setFormBody(step, enabled(body.urlencoded).map((param: any) => ({ name: String(param.key), value: String(param.value ?? '') })));
+            break;
+        case 'formdata':
+            setMultipartBody(step, enabled(body.formdata).map((param: any) => ({
+                name: String(param.key),
+                value: String(param.value ?? ''),
+                file: param.type === 'file'
+            })), context);
+            break;
+        case 'graphql': {
+            let variables: any;
+            try {
+                variables = body.graphql?.variables ? JSON.parse(body.graphql.variables) : undefined;
+            } catch {
+                context.warnings.push(`${step.name}: GraphQL variables are not valid JSON and were left out`);
+            }
+            step.body = JSON.stringify({ query: body.graphql?.query || '', variables }, null, 2);
+            setDefaultHeader(step, 'Content-Type', 'application/json');
+            break;
+        }
+        case 'file':
+            context.warnings.push(`${step.name}: binary file bodies are not imported`);
+            break;
+    }
+}
+
+function toImportedAuth(auth: any): ImportedAuth {
+    const parameter = (key: string) => authParameter(auth, key);
+    switch (auth.type) {
+        case 'bearer':
+            return { type: 'bearer', token: parameter('token') };
+        case 'apikey':
+            return { type: 'apikey', key: parameter('key'), value: parameter('value'), in: parameter('in') === 'query' ? 'query' : 'header' };
+        case 'basic':
+            return { type: 'basic', username: parameter('username'), password: parameter('password') };
+        case 'oauth2':
+            return {
+                type: 'oauth2',
+                accessToken: parameter('accessToken'),
+                // Postman's PKCE variant is an authorization code grant like any other here
+                grantType: parameter('grant_type').replace(/_with_pkce$/, ''),
+                authorizationUrl: parameter('authUrl'),
+                tokenUrl: parameter('accessTokenUrl'),
+                clientId: parameter('clientId'),
+                clientSecret: parameter('clientSecret'),
+                scope: parameter('scope'),
+                clientAuthentication: parameter('client_authentication') === 'body' ? 'body' : 'header'
+            };
+        default:
+            return { type: auth.type };
+    }
+}
+
+// Requests and folders without an auth block inherit their parent's
+function inheritAuth(parent: any, own: any): any {
+    return own === undefined || own === null || own.type === 'inherit' ? parent : own;
+}
+
+// v2.1 stores auth parameters as [{ key, value }]; v2.0 as a plain object
+function authParameter(auth: any, key: string): string {
+    const parameters = auth[auth.type];
+    const value = Array.isArray(parameters)
+        ? parameters.find((parameter: any) => parameter.key === key)?.value
+        : parameters?.[key];
+    return value === undefined || value === null ? '' : String(value);
+}
+
+function variableValues(variables: any): Record<string, string> {
+    return Object.fromEntries(enabled(variables)
+        .filter((variable: any) => variable.key)
+        .map((variable: any) => [String(variable.key), variable.value === undefined || variable.value === null ? '' : String(variable.value)]));
+}
+
+// Postman marks switched-off headers, parameters and variables with disabled (enabled: false in environments)
+function enabled(entries: any): any[] {
+    return Array.isArray(entries) ? entries.filter(entry => entry && !entry.disabled && entry.enabled !== false) : [];
+}
+
+/** A Postman v2.1 collection and the environment with the variables its requests use. */
+export interface PostmanExport {
+    collection: any;
+    environment?: any; // Absent when the requests use no environment variables
+    warnings: string[];
+}
+
+/**
+ * Converts collections into one Postman v2.1 collection. Step names of the form "Folder / Request",
+ * as the importers write them, become folders again. Relative URLs start with a {{baseUrl}}
+ * collection variable, and unfilled path parameters become Postman path variables taken from the
+ * environment. Auth settings become Postman auth blocks whose secrets are environment variables of
+ * type secret, left empty unless the collection carries them, so an export can be shared without
+ * leaking the auth panel's credentials.
+ */
+export function exportPostmanCollection(name: string, collections: Collection[], variables: Record<string, string>, environmentName: string): PostmanExport {
+    const warnings: string[] = [];
+    const secrets: Record<string, string> = {};
+    const baseUrl = collections.find(collection => collection.baseUrl)?.baseUrl || '';
+    const root: any[] = [];
+
+    collections.forEach(collection => {
+        collection.steps.forEach(step => {
+            const [folders, requestName] = splitName(step.name);
+            let items = root;
+            folders.forEach(folder => {
+                let item = items.find(entry => entry.name === folder && Array.isArray(entry.item));
+                if (!item) {
+                    item = { name: folder, item: [] };
+                    items.push(item);
+                }
+                items = item.item;
+            });
+            items.push({ name: requestName, request: exportRequest(step, collection, baseUrl, secrets, warnings) });
+            if (step.extractionRules?.length || step.assertions?.length) {
+                warnings.push(`${step.name}: extraction rules and assertions have no Postman equivalent and were left out`);
+            }
+        });
+    });
+
+    // Every variable the requests refer to is listed, empty when there is no value to fill in
+    const used = new Set([...JSON.stringify(root).matchAll(/\{\{([^{}]+)\}\}/g)].map(match => match[1]).filter(key => key !== 'baseUrl'));
+    const values = [...used].sort().map(key => ({
+        key,
+        value: secrets[key] || variables[key] || '',
+        type: key in secrets ? 'secret' : 'default',
+        enabled: true
+    }));
+
+    return {
+        collection: {
+            info: { _postman_id: randomUUID(), name, schema: POSTMAN_SCHEMA },
+            item: root,
+            variable: baseUrl ? [{ key: 'baseUrl', value: baseUrl, type: 'string' }] : []
+        },
+        environment: values.length > 0
+            ? { id: randomUUID(), name: environmentName, values, _postman_variable_scope: 'environment' }
+            : undefined,
+        warnings
+    };
+}
+
+function exportRequest(step: CollectionStep, collection: Collection, baseUrl: string, secrets: Record<string, string>, warnings: string[]): any {
+    // Collections with another base URL than the exported one keep theirs written out
+    let url = step.url;
+    if (!/^([a-z][a-z0-9+.-]*:\/\/|\{\{)/i.test(url)) {
+        const base = collection.baseUrl && collection.baseUrl !== baseUrl ? collection.baseUrl.replace(/\/$/, '') : '{{baseUrl}}';
+        url = base + (url.startsWith('/') || url.startsWith('?') || url === '' ? url : `/${url}`);
+    }
+
+    const headers = [...collection.headers.filter(header => !step.headers.some(own => own.key.toLowerCase() === header.key.toLowerCase())), ...step.headers];
+    const request: any = {
+        method: step.method.toUpperCase(),
+        header: headers.map(header => ({ key: header.key, value: header.value, type: 'text' })),
+        url: exportUrl(url)
+    };
+
+    if (step.body !== undefined && step.body !== '') {
+        const contentType = headers.find(header => header.key.toLowerCase() === 'content-type')?.value.toLowerCase() || '';
+        let language = Object.keys(RAW_CONTENT_TYPES).find(key => contentType.includes(RAW_CONTENT_TYPES[key].split('/')[1]));
+        if (!contentType) {
+            try {
+                JSON.parse(step.body);
+                language = 'json';
+            } catch {
+                language = 'text';
+            }
+        }
+        request.body = { mode: 'raw', raw: step.body, options: { raw: { language: language || 'text' } } };
+    }
+
+    const requirement = step.security?.find(entry => Object.keys(entry).every(scheme => collection.securitySchemes?.[scheme]));
+    const schemeName = requirement ? Object.keys(requirement)[0] : undefined;
+    if (schemeName) {
+        const auth = exportAuth(schemeName, collection.securitySchemes![schemeName], collection.credentials?.[schemeName], secrets);
+        if (auth) {
+            request.auth = auth;
+        } else {
+            warnings.push(`${step.name}: ${collection.securitySchemes![schemeName].type} auth (${schemeName}) has no Postman equivalent and was left out`);
+        }
+        if (Object.keys(requirement!).length > 1) {
+            warnings.push(`${step.name}: Postman requests have one auth setting; only ${schemeName} was exported`);
+        }
+    }
+    return request;
+}
+
+// Postman's URL object; {param} path segments become :param path variables set to {{param}}
+function exportUrl(url: string): any {
+    const variables: string[] = [];
+    const raw = url.replace(/(^|[^{])\{([A-Za-z_][\w.-]*)\}(?!\})/g, (_match: string, before: string, key: string) => {
+        variables.push(key);
+        return `${before}:${key}`;
+    });
+    const [location, query] = splitOnce(raw, '?');
+    const protocol = /^([a-z][a-z0-9+.-]*):\/\//i.exec(location);
+    const [host, path] = splitOnce(protocol ? location.substring(protocol[0].length) : location, '/');
+    const result: any = { raw };
+    if (protocol) {
+        result.protocol = protocol[1];
+    }
+    result.host = host.startsWith('{{') ? [host] : host.split('.');
+    if (path !== undefined) {
+        result.path = path.split('/');
+    }
+    if (query !== undefined) {
+        result.query = query.split('&').filter(Boolean).map(pair => {
+            const [key, value] = splitOnce(pair, '=');
+            return { key, value: value ?? null };
+        });
+    }
+    if (variables.length > 0) {
+        // Filled in from the environment, where the parameter is listed for a value
+        result.variable = variables.map(key => ({ key, value: `{{${key}}}` }));
+    }
+    return result;
+}
+
+function exportAuth(name: string, scheme: any, credentials: SchemeCredentials | undefined, secrets: Record<string, string>): any {
+    const secret = (suffix: string, value?: string) => {
+        const key = `${name}${suffix}`;
+        secrets[key] = value ?? '';
+        return `{{${key}}}`;
+    };
+    const parameters = (values: Record<string, string>) => Object.entries(values).map(([key, value]) => ({ key, value, type: 'string' }));
+
+    // Postman API keys go in a header or the query string only
+    if (scheme.type === 'apiKey' && scheme.in !== 'cookie') {
+        return { type: 'apikey', apikey: parameters({ key: scheme.name, value: secret('ApiKey', credentials?.value), in: scheme.in === 'query' ? 'query' : 'header' }) };
+    }
+    if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') {
+        return { type: 'basic', basic: parameters({ username: secret('Username', credentials?.username), password: secret('Password', credentials?.password) }) };
+    }
+    if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'bearer') {
+        return { type: 'bearer', bearer: parameters({ token: secret('Token', credentials?.token) }) };
+    }
+    if (scheme.type === 'oauth2') {
+        const flow = credentials?.flow === 'authorizationCode' || (!scheme.flows?.clientCredentials && scheme.flows?.authorizationCode)
+            ? 'authorizationCode' : 'clientCredentials';
+        const settings = scheme.flows?.[flow] || {};
+        return {
+            type: 'oauth2',
+            oauth2: parameters({
+                grant_type: flow === 'authorizationCode' ? 'authorization_code' : 'client_credentials',
+                authUrl: settings.authorizationUrl || '',
+                accessTokenUrl: settings.tokenUrl || '',
+                clientId: secret('ClientId', credentials?.clientId),
+                clientSecret: secret('ClientSecret', credentials?.clientSecret),
+                scope: credentials?.scope || Object.keys(settings.scopes || {}).join(' '),
+                client_authentication: credentials?.clientAuthentication === 'body' ? 'body' : 'header'
+            })
+        };
+    }
+    return undefined;
+}
+
+function splitName(name: string): [string[], string] {
+    const parts = name.split(' / ');
+    return [parts.slice(0, -1), parts[parts.length - 1]];
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+    const index = text.indexOf(separator);
+    return index < 0 ? [text, undefined] : [text.substring(0, index), text.substring(index + 1)];
+}
@@ -0,0 +1,280 @@
+import { describeAssertion } from './assertions';
+import { CollectionRunResult, StepResult } from './collectionRunner';
+
+export type ReportFormat = 'junit' | 'html' | 'json';
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string, extension: string }> = {
+    junit: { label: 'JUnit XML', extension: 'xml' },
+    html: { label: 'HTML', extension: 'html' },
+    json: { label: 'JSON summary', extension: 'json' }
+};
+
+/** One or more runs reported together; each run becomes a test suite and each step a test case. */
+export interface TestReport {
+    name: string;
+    startedAt: string; // ISO timestamp
+    duration: number;
+    runs: CollectionRunResult[];
+}
+
+// Credentials are replaced in reports, which tend to end up as CI artifacts; query parameters are matched by the same pattern
+export const SENSITIVE_HEADERS = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|api-key)$|token|secret|password/i;
+const MAX_BODY_LENGTH = 100000;
+
+export function isReportFormat(value: string): value is ReportFormat {
+    return Object.prototype.hasOwnProperty.call(REPORT_FORMATS, value);
+}
+
+/** Builds a report covering the given runs, timed from the first run's start to the last run's end. */
+export function createReport(name: string, runs: CollectionRunResult[]): TestReport {
+    const starts = runs.map(run => Date.parse(run.startedAt));
+    const start = starts.length > 0 ? Math.min(...starts) : Date.now();
+    const end = runs.length > 0 ? Math.max(...runs.map((run, index) => starts[index] + run.duration)) : start;
+    return { name, startedAt: new Date(start).toISOString(), duration: end - start, runs };
+}
+
+export function renderReport(report: TestReport, format: ReportFormat): string {
+    switch (format) {
+        case 'junit':
+            return toJUnitXml(report);
+        case 'html':
+            return toHtml(report);
+        case 'json':
+            return JSON.stringify(toJsonSummary(report), null, 2);
+    }
+}
+
+/** JUnit XML as read by CI servers: a testsuite per run, a testcase per step. */
+export function toJUnitXml(report: TestReport): string {
+    const totals = countSteps(report.runs.flatMap(run => run.steps));
+    const totalErrors = report.runs.reduce((count, run) => count + run.steps.filter(isRequestError).length, 0);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(report.name)}" tests="${totals.tests}" failures="${totals.failed - totalErrors}" errors="${totalErrors}" skipped="${totals.skipped}" time="${seconds(report.duration)}">`
+    ];
+
+    report.runs.forEach(run => {
+        const errors = run.steps.filter(isRequestError).length;
+        lines.push(`  <testsuite name="${escapeXml(run.name)}" tests="${run.steps.length}" failures="${run.failed - errors}" errors="${errors}" skipped="${run.skipped}" time="${seconds(run.duration)}" timestamp="${run.startedAt.replace(/\.\d+Z$/, '')}">`);
+        run.steps.forEach(step => {
+            const testCase = `    <testcase name="${escapeXml(step.name)}" classname="${escapeXml(run.name)}" time="${seconds(step.duration)}"`;
+            if (step.status === 'passed') {
+                lines.push(`${testCase}/>`);
+                return;
+            }
+            lines.push(`${testCase}>`);
+            if (step.status === 'skipped') {
+                lines.push(`      <skipped message="${escapeXml(step.error || 'Skipped')}"/>`);
+            } else if (isRequestError(step)) {
+                lines.push(`      <error message="${escapeXml(step.error || 'Failed')}" type="RequestError">${escapeXml(failureDetails(step))}</error>`);
+            } else {
+                lines.push(`      <failure message="${escapeXml(step.error || 'Failed')}" type="AssertionFailure">${escapeXml(failureDetails(step))}</failure>`);
+            }
+            lines.push(`      <system-out>${escapeXml(`${step.method} ${maskUrl(step.url, run)}${step.response ? ` -> ${step.response.statusCode} ${step.response.statusText}` : ''}`)}</system-out>`);
+            lines.push('    </testcase>');
+        });
+        lines.push('  </testsuite>');
+    });
+
+    lines.push('</testsuites>', '');
+    return lines.join('\n');
+}
+
+/** A machine-readable summary without request and response bodies. */
+export function toJsonSummary(report: TestReport) {
+    return {
+        name: report.name,
+        startedAt: report.startedAt,
+        duration: report.duration,
+        totals: countSteps(report.runs.flatMap(run => run.steps)),
+        runs: report.runs.map(run => ({
+            name: run.name,
+            startedAt: run.startedAt,
+            duration: run.duration,
+            passed: run.passed,
+            failed: run.failed,
+            skipped: run.skipped,
+            steps: run.steps.map(step => ({
+                name: step.name,
+                status: step.status,
+                method: step.method,
+                url: maskUrl(step.url, run),
+                statusCode: step.response?.statusCode,
+                duration: step.duration,
+                timings: step.response?.timings,
+                error: step.error,
+                assertions: (step.assertions || []).map(result => ({
+                    assertion: describeAssertion(result.assertion),
+                    passed: result.passed,
+                    message: result.message
+                })),
+                snapshot: step.snapshot && {
+                    passed: step.snapshot.passed,
+                    message: step.snapshot.message,
+                    differences: (step.snapshot.diff?.differences || []).map(difference => `${difference.kind} ${difference.path}`)
+                }
+            }))
+        }))
+    };
+}
+
+/** A single HTML file with inline styles, showing each step's request, response, assertions and timings. */
+export function toHtml(report: TestReport): string {
+    const totals = countSteps(report.runs.flatMap(run => run.steps));
+    const runs = report.runs.map(run => `
+<section>
+  <h2>${escapeXml(run.name)}</h2>
+  <p class="meta">${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped in ${run.duration} ms · started ${escapeXml(run.startedAt)}</p>
+  ${run.steps.map(step => htmlStep(step, run)).join('\n')}
+</section>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(report.name)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 24px; color: #1f2328; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 16px; margin: 24px 0 4px; }
+  h4 { font-size: 12px; margin: 12px 0 4px; text-transform: uppercase; color: #59636e; }
+  .meta { color: #59636e; font-size: 13px; margin-top: 0; }
+  .totals span { display: inline-block; margin-right: 12px; padding: 2px 8px; border-radius: 4px; font-size: 13px; }
+  details { border: 1px solid #d1d9e0; border-radius: 6px; margin: 6px 0; }
+  summary { padding: 8px 12px; cursor: pointer; font-size: 14px; }
+  details > div { padding: 0 12px 12px; }
+  pre { background: #f6f8fa; padding: 8px; border-radius: 4px; font-size: 12px; white-space: pre-wrap; word-break: break-all; max-height: 400px; overflow: auto; }
+  table { border-collapse: collapse; font-size: 12px; }
+  td { padding: 2px 12px 2px 0; vertical-align: top; }
+  .passed { background: #dafbe1; color: #1a7f37; }
+  .failed { background: #ffebe9; color: #cf222e; }
+  .skipped { background: #eff2f5; color: #59636e; }
+  .badge { font-size: 11px; font-weight: bold; padding: 2px 6px; border-radius: 4px; margin-right: 8px; }
+  .error { color: #cf222e; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(report.name)}</h1>
+<p class="meta">Started ${escapeXml(report.startedAt)} · ${report.duration} ms</p>
+<p class="totals"><span class="passed">${totals.passed} passed</span><span class="failed">${totals.failed} failed</span><span class="skipped">${totals.skipped} skipped</span></p>
+${runs}
+</body>
+</html>
+`;
+}
+
+function htmlStep(step: StepResult, run: CollectionRunResult): string {
+    const request = step.request;
+    const response = step.response;
+    const parts: string[] = [];
+
+    if (step.error) {
+        parts.push(`<p class="error">${escapeXml(step.error)}</p>`);
+    }
+    if (step.assertions && step.assertions.length > 0) {
+        parts.push('<h4>Assertions</h4><table>' + step.assertions.map(result =>
+            `<tr><td><span class="badge ${result.passed ? 'passed' : 'failed'}">${result.passed ? 'PASS' : 'FAIL'}</span></td><td>${escapeXml(describeAssertion(result.assertion))}</td><td>${escapeXml(result.message)}</td></tr>`
+        ).join('') + '</table>');
+    }
+    const differences = step.snapshot?.diff?.differences || [];
+    if (step.snapshot && !step.snapshot.passed && differences.length > 0) {
+        parts.push('<h4>Snapshot</h4><table>' + differences.map(difference =>
+            `<tr><td>${difference.kind}</td><td>${escapeXml(difference.path)}</td><td>${escapeXml(describeChange(difference.before, difference.after, difference.kind))}</td></tr>`
+        ).join('') + '</table>');
+    }
+    if (request) {
+        parts.push(`<h4>Request</h4><pre>${escapeXml(`${request.method} ${maskUrl(request.url, run)}\n${formatHeaders(request.headers)}`)}</pre>`);
+        if (request.body) {
+            parts.push(`<pre>${escapeXml(formatBody(request.body))}</pre>`);
+        }
+    }
+    if (response) {
+        parts.push(`<h4>Response</h4><pre>${escapeXml(`${response.statusCode} ${response.statusText}\n${formatHeaders(response.headers)}`)}</pre>`);
+        if (response.body) {
+            parts.push(`<pre>${escapeXml(formatBody(response.body))}</pre>`);
+        }
+        if (response.timings) {
+            const timings = response.timings;
+            parts.push('<h4>Timings</h4><table>' + ([['DNS', timings.dns], ['Connect', timings.connect], ['TLS', timings.tls], ['First byte', timings.firstByte], ['Total', timings.total]] as Array<[string, number]>)
+                .map(([label, value]) => `<tr><td>${label}</td><td>${value} ms</td></tr>`).join('') + '</table>');
+        }
+    }
+
+    const status = response ? ` · ${response.statusCode}` : '';
+    return `<details${step.status === 'failed' ? ' open' : ''}>
+    <summary><span class="badge ${step.status}">${step.status.toUpperCase()}</span>${escapeXml(step.name)} <span class="meta">${escapeXml(step.method)} ${escapeXml(maskUrl(step.url, run))}${status} · ${step.duration} ms</span></summary>
+    <div>${parts.join('\n')}</div>
+  </details>`;
+}
+
+// JUnit tells errors, where the request never got a response, from failures, where the response failed a check
+function isRequestError(step: StepResult): boolean {
+    return step.status === 'failed' && !step.response;
+}
+
+function failureDetails(step: StepResult): string {
+    const failed = (step.assertions || []).filter(result => !result.passed);
+    const details = failed.map(result => `${describeAssertion(result.assertion)}: ${result.message}`);
+    if (step.snapshot && !step.snapshot.passed) {
+        details.push(step.snapshot.message, ...(step.snapshot.diff?.differences || []).map(difference => `  ${difference.kind} ${difference.path}`));
+    }
+    return details.length > 0 ? details.join('\n') : step.error || '';
+}
+
+function describeChange(before: any, after: any, kind: string): string {
+    const format = (value: any) => JSON.stringify(value) ?? 'undefined';
+    return kind === 'added' ? format(after) : kind === 'removed' ? format(before) : `${format(before)} → ${format(after)}`;
+}
+
+function countSteps(steps: StepResult[]) {
+    return {
+        tests: steps.length,
+        passed: steps.filter(step => step.status === 'passed').length,
+        failed: steps.filter(step => step.status === 'failed').length,
+        skipped: steps.filter(step => step.status === 'skipped').length
+    };
+}
+
+function formatHeaders(headers: Record<string, string | string[]>): string {
+    return Object.entries(headers)
+        .map(([name, value]) => `${name}: ${SENSITIVE_HEADERS.test(name) ? '••••••' : Array.isArray(value) ? value.join(', ') : value}`)
+        .join('\n');
+}
+
+// Masks the values of query parameters named by the run's apiKey schemes or by the credential pattern
+function maskUrl(url: string, run: CollectionRunResult): string {
+    return url.replace(/([?&])([^=&#]+)=([^&#]*)/g, (match, separator: string, name: string) => {
+        let decoded = name;
+        try {
+            decoded = decodeURIComponent(name.replace(/\+/g, ' '));
+        } catch {
+            // Malformed escapes; matched as written
+        }
+        return (run.secretParameters || []).includes(decoded) || SENSITIVE_HEADERS.test(decoded) ? `${separator}${name}=••••••` : match;
+    });
+}
+
+function formatBody(body: string): string {
+    let text = body;
+    try {
+        text = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+        // Not JSON; shown as is
+    }
+    return text.length > MAX_BODY_LENGTH ? `${text.substring(0, MAX_BODY_LENGTH)}\n… (${text.length - MAX_BODY_LENGTH} more characters)` : text;
+}
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters other than tab and newlines are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function seconds(milliseconds: number): string {
+    return (milliseconds / 1000).toFixed(3);
+}
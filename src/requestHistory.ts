@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssertionResult } from './assertions';
+import { HttpTimings, RedirectHop } from './httpClient';
+import { SENSITIVE_HEADERS } from './reporters';
+
+/** A request sent from the panel and the response it got, or the error it failed with. */
+export interface HistoryEntry {
+    id: string;
+    timestamp: string; // ISO 8601, when the request was sent
+    operationId: string; // Operation id in the UI, or fallback_<method> for Manual API Testing
+    summary?: string;
+    method: string;
+    url: string;
+    headers: Record<string, string>; // With their {{variables}}, resolved again on re-send; literal credential headers are masked
+    body?: string;
+    security?: { requirements: any[], schemes: Record<string, any> }; // Applied again with the current credentials on re-send
+    timeout?: number;
+    status?: number;
+    statusText?: string;
+    responseHeaders?: Record<string, string | string[]>;
+    contentType?: string;
+    response?: string;
+    size?: number;
+    timings?: HttpTimings;
+    finalUrl?: string;
+    redirects?: RedirectHop[];
+    assertions?: AssertionResult[];
+    error?: string;
+    bodyTruncated?: boolean; // Cut to the size limit; such a request cannot be re-sent
+    responseTruncated?: boolean;
+    pinned?: boolean;
+}
+
+/** The fields the history list shows and searches; full entries are read one at a time. */
+export type HistorySummary = Pick<HistoryEntry, 'id' | 'timestamp' | 'operationId' | 'summary' | 'method' | 'url' | 'status' | 'error' | 'pinned'> & { duration?: number };
+
+export interface HistoryLimits {
+    maxEntries: number; // Unpinned entries kept; 0 turns recording off
+    maxBodySize: number; // Bytes of each request body and response kept
+}
+
+const HISTORY_FORMAT = 1;
+
+/** Stands in for the value of a credential header that was typed in rather than taken from a variable. */
+export const MASKED_HEADER_VALUE = '••••••';
+
+/**
+ * Request history kept in one JSON file, newest entry first. Once the list grows past the limit the
+ * oldest unpinned entries are dropped; pinned entries are kept until they are unpinned or deleted.
+ * Writes are queued so entries recorded by concurrent requests are never lost.
+ */
+export class RequestHistory {
+    private _entries: HistoryEntry[] | undefined;
+    private _loading: Promise<void> | undefined;
+    private _writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly _file: string, private readonly _limits: () => HistoryLimits) {}
+
+    public async list(query = '', pinnedOnly = false): Promise<HistorySummary[]> {
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+        return (await this._load())
+            .filter(entry => !pinnedOnly || entry.pinned)
+            .filter(entry => terms.length === 0 || terms.every(term => RequestHistory._searchText(entry).includes(term)))
+            .map(entry => ({
+                id: entry.id,
+                timestamp: entry.timestamp,
+                operationId: entry.operationId,
+                summary: entry.summary,
+                method: entry.method,
+                url: entry.url,
+                status: entry.status,
+                error: entry.error,
+                pinned: entry.pinned,
+                duration: entry.timings?.total
+            }));
+    }
+
+    public async get(id: string): Promise<HistoryEntry | undefined> {
+        return (await this._load()).find(entry => entry.id === id);
+    }
+
+    /** Records a request; returns undefined when recording is turned off. */
+    public async add(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry | undefined> {
+        const limits = this._limits();
+        if (limits.maxEntries <= 0) {
+            return undefined;
+        }
+        const body = RequestHistory._truncate(entry.body, limits.maxBodySize);
+        const response = RequestHistory._truncate(entry.response, limits.maxBodySize);
+        const recorded: HistoryEntry = {
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            ...entry,
+            headers: RequestHistory._maskHeaders(entry.headers),
+            body: body.value,
+            response: response.value,
+            bodyTruncated: body.truncated || undefined,
+            responseTruncated: response.truncated || undefined
+        };
+
+        const entries = [recorded, ...(await this._load())];
+        let unpinned = 0;
+        this._entries = entries.filter(item => item.pinned || ++unpinned <= limits.maxEntries);
+        await this._save();
+        return recorded;
+    }
+
+    public async setPinned(id: string, pinned: boolean): Promise<void> {
+        const entry = await this.get(id);
+        if (entry) {
+            entry.pinned = pinned || undefined;
+            await this._save();
+        }
+    }
+
+    public async remove(id: string): Promise<void> {
+        this._entries = (await this._load()).filter(entry => entry.id !== id);
+        await this._save();
+    }
+
+    /** Deletes every entry that is not pinned. */
+    public async clear(): Promise<void> {
+        this._entries = (await this._load()).filter(entry => entry.pinned);
+        await this._save();
+    }
+
+    // Every caller waits on the same read, so an entry recorded while the file is being read is not lost
+    private async _load(): Promise<HistoryEntry[]> {
+        this._loading = this._loading || this._read().then(entries => {
+            this._entries = entries;
+        });
+        await this._loading;
+        return this._entries!;
+    }
+
+    private async _read(): Promise<HistoryEntry[]> {
+        try {
+            const json = JSON.parse(await fs.promises.readFile(this._file, 'utf8'));
+            return json?.format === HISTORY_FORMAT && Array.isArray(json.entries) ? json.entries : [];
+        } catch (error: any) {
+            // A missing file is an empty history; an unreadable one is started over rather than blocking every request
+            if (error?.code !== 'ENOENT') {
+                console.error('Failed to read request history:', error);
+            }
+            return [];
+        }
+    }
+
+    private _save(): Promise<void> {
+        // A failed write is reported to its caller and does not hold up the ones after it
+        this._writes = this._writes.catch(() => undefined).then(async () => {
+            await fs.promises.mkdir(path.dirname(this._file), { recursive: true });
+            await fs.promises.writeFile(this._file, JSON.stringify({ format: HISTORY_FORMAT, entries: this._entries }), 'utf8');
+        });
+        return this._writes;
+    }
+
+    private static _searchText(entry: HistoryEntry): string {
+        return [entry.method, entry.url, entry.summary, entry.status, entry.statusText, entry.error, entry.body, entry.response]
+            .filter(value => value !== undefined)
+            .join('\n')
+            .toLowerCase();
+    }
+
+    // A {{variable}} is a reference to a secret, not the secret itself, so only literal values are masked
+    private static _maskHeaders(headers: Record<string, string>): Record<string, string> {
+        return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+            [name, SENSITIVE_HEADERS.test(name) && !/\{\{/.test(value) ? MASKED_HEADER_VALUE : value]));
+    }
+
+    private static _truncate(value: string | undefined, maxSize: number): { value?: string, truncated: boolean } {
+        if (value === undefined || Buffer.byteLength(value, 'utf8') <= maxSize) {
+            return { value, truncated: false };
+        }
+        // Cut on a character boundary, dropping a multi-byte character split at the limit
+        return { value: Buffer.from(value, 'utf8').subarray(0, maxSize).toString('utf8').replace(/\uFFFD$/, ''), truncated: true };
+    }
+}
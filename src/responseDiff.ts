@@ -0,0 +1,211 @@
+import { locateJsonPath } from './jsonPath';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+/** A field that differs between two JSON documents, addressed by a JSONPath such as `$.items[0].id`. */
+export interface JsonDifference {
+    path: string;
+    kind: DiffKind;
+    before?: any; // Absent for added fields
+    after?: any; // Absent for removed fields
+}
+
+export interface DiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface ResponseDiff {
+    format: 'json' | 'text'; // json when both responses parse as JSON
+    equal: boolean;
+    differences: JsonDifference[]; // Only for json
+    lines: DiffLine[]; // Line diff of the raw responses, or of the JSON documents with their keys sorted
+}
+
+// Stands in for ignored array items, so the items after them are still compared with their counterparts
+const IGNORED_VALUE = '(ignored)';
+
+// Past this many line pairs the middle of a text diff is shown as removed and added, rather than aligned
+const MAX_ALIGNED_CELLS = 4000000;
+
+/**
+ * Compares a baseline response with a new one. JSON responses are compared structurally, so key
+ * order and formatting do not matter; anything else is compared line by line. Fields matched by
+ * the ignore rules, JSONPath expressions such as `$..updatedAt`, are left out of a JSON comparison.
+ */
+export function diffResponses(before: string, after: string, ignore: string[] = []): ResponseDiff {
+    const beforeJson = parseJson(before);
+    const afterJson = parseJson(after);
+    if (beforeJson.ok && afterJson.ok) {
+        const beforeValue = withoutIgnored(beforeJson.value, ignore);
+        const afterValue = withoutIgnored(afterJson.value, ignore);
+        const differences = diffJson(beforeValue, afterValue);
+        return {
+            format: 'json',
+            equal: differences.length === 0,
+            differences,
+            lines: diffLines(canonicalJson(beforeValue), canonicalJson(afterValue))
+        };
+    }
+    const lines = diffLines(before, after);
+    return { format: 'text', equal: lines.every(line => line.kind === 'same'), differences: [], lines };
+}
+
+/** Structural differences between two JSON values. Object keys are matched by name and array items by position. */
+export function diffJson(before: any, after: any, path = '$'): JsonDifference[] {
+    if (isObject(before) && isObject(after)) {
+        const differences: JsonDifference[] = [];
+        Object.keys(before).forEach(key => {
+            const childPath = memberPath(path, key);
+            differences.push(...(hasOwn(after, key)
+                ? diffJson(before[key], after[key], childPath)
+                : [{ path: childPath, kind: 'removed' as const, before: before[key] }]));
+        });
+        Object.keys(after).filter(key => !hasOwn(before, key)).forEach(key => {
+            differences.push({ path: memberPath(path, key), kind: 'added', after: after[key] });
+        });
+        return differences;
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const differences: JsonDifference[] = [];
+        for (let index = 0; index < Math.max(before.length, after.length); index++) {
+            const childPath = `${path}[${index}]`;
+            if (index >= after.length) {
+                differences.push({ path: childPath, kind: 'removed', before: before[index] });
+            } else if (index >= before.length) {
+                differences.push({ path: childPath, kind: 'added', after: after[index] });
+            } else {
+                differences.push(...diffJson(before[index], after[index], childPath));
+            }
+        }
+        return differences;
+    }
+    return before === after ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+/** Line diff of two texts along their longest common subsequence. */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = splitLines(before);
+    const b = splitLines(after);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const lines: DiffLine[] = a.slice(0, start).map(text => ({ kind: 'same', text }));
+    lines.push(...alignLines(a.slice(start, endA), b.slice(start, endB)));
+    lines.push(...a.slice(endA).map(text => ({ kind: 'same' as const, text })));
+    return lines;
+}
+
+function alignLines(a: string[], b: string[]): DiffLine[] {
+    if (a.length * b.length > MAX_ALIGNED_CELLS) {
+        return [...a.map(text => ({ kind: 'removed' as const, text })), ...b.map(text => ({ kind: 'added' as const, text }))];
+    }
+
+    // lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ kind: 'same', text: a[i++] });
+            j++;
+        } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+            lines.push({ kind: 'added', text: b[j++] });
+        } else {
+            lines.push({ kind: 'removed', text: a[i++] });
+        }
+    }
+    // Within a changed block, removed lines read better before the added ones that replace them
+    return groupChanges(lines);
+}
+
+function groupChanges(lines: DiffLine[]): DiffLine[] {
+    const grouped: DiffLine[] = [];
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+    const flush = () => {
+        grouped.push(...removed, ...added);
+        removed = [];
+        added = [];
+    };
+    lines.forEach(line => {
+        if (line.kind === 'same') {
+            flush();
+            grouped.push(line);
+        } else {
+            (line.kind === 'removed' ? removed : added).push(line);
+        }
+    });
+    flush();
+    return grouped;
+}
+
+// Removes the object members the rules match and masks the array items, changing the document in place
+function withoutIgnored(document: any, ignore: string[]): any {
+    let result = document;
+    ignore.filter(rule => rule.trim()).forEach(rule => {
+        locateJsonPath(result, rule).forEach(({ location }) => {
+            if (location.length === 0) {
+                result = IGNORED_VALUE;
+                return;
+            }
+            // A match inside a member removed earlier has no parent left, and is skipped
+            const parent = location.slice(0, -1).reduce((node, key) => node && typeof node === 'object' ? node[key] : undefined, result);
+            const key = location[location.length - 1];
+            if (Array.isArray(parent)) {
+                parent[key as number] = IGNORED_VALUE;
+            } else if (isObject(parent)) {
+                delete parent[key];
+            }
+        });
+    });
+    return result;
+}
+
+// Pretty-printed with sorted keys, so the line diff of two JSON documents shows only real changes
+function canonicalJson(value: any): string {
+    const sortKeys = (item: any): any => Array.isArray(item)
+        ? item.map(sortKeys)
+        : isObject(item) ? Object.fromEntries(Object.keys(item).sort().map(key => [key, sortKeys(item[key])])) : item;
+    return JSON.stringify(sortKeys(value), null, 2);
+}
+
+function parseJson(text: string): { ok: boolean, value?: any } {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch {
+        return { ok: false };
+    }
+}
+
+function memberPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}']`;
+}
+
+function splitLines(text: string): string[] {
+    return text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+function hasOwn(value: Record<string, any>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isObject(value: any): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,163 @@
+export interface CompositionContext {
+    resolveRef: (schema: any) => any; // Resolves a `{ $ref }` schema against the loaded spec
+    spec: any;
+    selections: Record<string, number>; // Chosen oneOf/anyOf branch index by data path (e.g. "$.pet")
+}
+
+const MAX_DEPTH = 10;
+
+/**
+ * Flattens a composed schema into a concrete one for example generation: allOf parts are merged,
+ * the selected oneOf/anyOf branch (first by default) is merged into the base schema, and the
+ * discriminator property is pinned to the value that selects that branch. JSON Schema 2020-12
+ * keywords are then normalized into their OpenAPI 3.0 equivalents (see `normalizeSchema`).
+ */
+export function composeSchema(schema: any, path: string, context: CompositionContext, depth: number = 0): any {
+    if (!schema || typeof schema !== 'object' || depth > MAX_DEPTH) {
+        return schema;
+    }
+
+    let current = schema.$ref ? context.resolveRef(schema) : schema;
+    if (!current || typeof current !== 'object') {
+        return current;
+    }
+    const original = current;
+
+    if (Array.isArray(current.allOf) && current.allOf.length > 0) {
+        const { allOf, ...base } = current;
+        current = allOf.reduce(
+            (merged: any, part: any) => mergeSchemas(merged, composeSchema(part, path, context, depth + 1)),
+            base
+        );
+    }
+
+    const branches = current.oneOf || current.anyOf;
+    if (Array.isArray(branches) && branches.length > 0) {
+        const { oneOf, anyOf, ...base } = current;
+        const selected = context.selections[path];
+        const index = typeof selected === 'number' && selected >= 0 && selected < branches.length ? selected : 0;
+        const branch = context.resolveRef(branches[index]) || branches[index];
+        current = mergeSchemas(base, composeSchema(branch, path, context, depth + 1));
+
+        // The discriminator next to oneOf/anyOf carries the mapping; a branch may inherit one without it
+        const discriminator = base.discriminator || current.discriminator;
+        if (discriminator?.propertyName) {
+            const value = discriminatorValue(discriminator, branch, context);
+            if (value !== undefined) {
+                current = pinProperty(current, discriminator.propertyName, value);
+            }
+        }
+    } else if (current.discriminator?.propertyName && original.allOf) {
+        // A subtype that inherits its parent's discriminator through allOf identifies itself by its own name
+        const value = discriminatorValue(current.discriminator, original, context);
+        if (value !== undefined) {
+            current = pinProperty(current, current.discriminator.propertyName, value);
+        }
+    }
+
+    return normalizeSchema(current);
+}
+
+/**
+ * Maps OpenAPI 3.1 / JSON Schema 2020-12 forms onto the 3.0 forms the generators understand:
+ * `type: ["string", "null"]` becomes `type: "string", nullable: true`, `const` and the first of
+ * `examples` become `example`, and numeric `exclusiveMinimum`/`exclusiveMaximum` become bounds.
+ */
+export function normalizeSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') {
+        return schema;
+    }
+    const normalized: any = { ...schema };
+
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter((type: string) => type !== 'null');
+        normalized.type = types[0] || 'null';
+        if (types.length < schema.type.length) {
+            normalized.nullable = true;
+        }
+    }
+
+    if (normalized.example === undefined) {
+        if (schema.const !== undefined) {
+            normalized.example = schema.const;
+        } else if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+            normalized.example = schema.examples[0];
+        }
+    }
+
+    const step = normalized.type === 'integer' ? 1 : 0.01;
+    if (typeof schema.exclusiveMinimum === 'number' && schema.minimum === undefined) {
+        normalized.minimum = schema.exclusiveMinimum + step;
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && schema.maximum === undefined) {
+        normalized.maximum = schema.exclusiveMaximum - step;
+    }
+
+    return normalized;
+}
+
+export function mergeSchemas(target: any, source: any): any {
+    if (!source || typeof source !== 'object') {
+        return target;
+    }
+
+    const merged: any = { ...target, ...source };
+
+    if (target.properties || source.properties) {
+        merged.properties = { ...(target.properties || {}) };
+        Object.keys(source.properties || {}).forEach(key => {
+            merged.properties[key] = merged.properties[key]
+                ? mergeSchemas(merged.properties[key], source.properties[key])
+                : source.properties[key];
+        });
+    }
+
+    if (target.required || source.required) {
+        merged.required = Array.from(new Set([...(target.required || []), ...(source.required || [])]));
+    }
+
+    // Keep a declared type when a part only adds constraints
+    merged.type = source.type || target.type || (merged.properties ? 'object' : undefined);
+    if (merged.type === undefined) {
+        delete merged.type;
+    }
+
+    return merged;
+}
+
+function discriminatorValue(discriminator: any, branch: any, context: CompositionContext): string | undefined {
+    const branchJson = JSON.stringify(branch);
+
+    // Explicit mapping: the key whose target is this branch
+    const mapping: Record<string, string> = discriminator.mapping || {};
+    for (const key of Object.keys(mapping)) {
+        const target = mapping[key].includes('/') || mapping[key].includes('#')
+            ? context.resolveRef({ $ref: mapping[key] })
+            : context.spec?.components?.schemas?.[mapping[key]];
+        if (target && JSON.stringify(target) === branchJson) {
+            return key;
+        }
+    }
+
+    // Implicit mapping: the branch's component name
+    return componentName(branch, context)
+        || branch.properties?.[discriminator.propertyName]?.enum?.[0]
+        || branch.title;
+}
+
+function componentName(schema: any, context: CompositionContext): string | undefined {
+    const schemas = context.spec?.components?.schemas || context.spec?.definitions || {};
+    const schemaJson = JSON.stringify(schema);
+    return Object.keys(schemas).find(name => JSON.stringify(schemas[name]) === schemaJson);
+}
+
+function pinProperty(schema: any, propertyName: string, value: any): any {
+    const property = schema.properties?.[propertyName] || { type: 'string' };
+    return {
+        ...schema,
+        properties: {
+            ...(schema.properties || {}),
+            [propertyName]: { ...property, enum: [value], example: value }
+        }
+    };
+}
@@ -0,0 +1,520 @@
+import { isIPv4, isIPv6 } from 'net';
+
+export interface SchemaViolation {
+    pointer: string; // JSON pointer (RFC 6901) to the offending value, "" for the root
+    keyword: string; // Schema keyword that failed, e.g. "required" or "type"
+    message: string;
+}
+
+export interface ValidationOptions {
+    resolveRef?: (ref: string) => any; // Resolves a remaining local `$ref` (circular schemas keep theirs)
+    spec?: any; // Used to look up discriminator targets by component name
+    direction?: 'request' | 'response'; // readOnly properties are not required in requests, writeOnly ones not in responses
+}
+
+export interface ResponseValidation {
+    valid: boolean;
+    statusKey?: string; // Matching key of `responses`, e.g. "200", "2XX" or "default"
+    mediaType?: string; // Matching key of the response's `content`
+    skipped?: string; // Why the body was not validated, if it wasn't
+    violations: SchemaViolation[];
+}
+
+const MAX_DEPTH = 100;
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+    'date': /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+    'date-time': /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[Tt ]([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]([01]\d|2[0-3]):[0-5]\d)$/,
+    'time': /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]([01]\d|2[0-3]):[0-5]\d)?$/,
+    'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    'hostname': /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+    'byte': /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+};
+
+/**
+ * Validates a value against an OpenAPI schema with JSON Schema semantics and returns every violation found.
+ * Supports both OpenAPI 3.0 (`nullable`, boolean `exclusiveMinimum`) and 3.1 (type arrays, `const`) forms.
+ */
+export function validateSchema(value: any, schema: any, options: ValidationOptions = {}, pointer: string = '', depth: number = 0): SchemaViolation[] {
+    if (schema === undefined || schema === null || schema === true || depth > MAX_DEPTH) {
+        return [];
+    }
+    if (schema === false) {
+        return [violation(pointer, 'false', 'No value is allowed here')];
+    }
+    if (schema.$ref) {
+        const resolved = options.resolveRef?.(schema.$ref);
+        return resolved ? validateSchema(value, resolved, options, pointer, depth + 1) : [];
+    }
+
+    const violations: SchemaViolation[] = [];
+
+    if (value === null && allowsNull(schema)) {
+        return violations;
+    }
+
+    const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+        violations.push(violation(pointer, 'type', `Expected ${types.join(' or ')} but got ${typeOf(value)}`));
+        return violations; // Further keywords would only repeat the type mismatch
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((allowed: any) => deepEqual(allowed, value))) {
+        violations.push(violation(pointer, 'enum', `Value ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`));
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        violations.push(violation(pointer, 'const', `Value must be ${JSON.stringify(schema.const)}`));
+    }
+
+    if (typeof value === 'string') {
+        violations.push(...validateString(value, schema, pointer));
+    } else if (typeof value === 'number') {
+        violations.push(...validateNumber(value, schema, pointer));
+    } else if (Array.isArray(value)) {
+        violations.push(...validateArray(value, schema, options, pointer, depth));
+    } else if (value && typeof value === 'object') {
+        violations.push(...validateObject(value, schema, options, pointer, depth));
+    }
+
+    violations.push(...validateComposition(value, schema, options, pointer, depth));
+    return violations;
+}
+
+/**
+ * Validates an HTTP response against an operation's `responses` object: the status code must be declared
+ * (exactly, as a `2XX`-style range or through `default`), the content type must match a declared media type
+ * and a JSON body must satisfy that media type's schema.
+ */
+export function validateResponse(responses: any, statusCode: number, contentType: string, body: string, options: ValidationOptions = {}): ResponseValidation {
+    if (!responses || typeof responses !== 'object' || Object.keys(responses).length === 0) {
+        return { valid: true, skipped: 'The operation declares no responses', violations: [] };
+    }
+
+    const statusKey = matchStatus(responses, statusCode);
+    if (!statusKey) {
+        return {
+            valid: false,
+            violations: [violation('', 'status', `Status ${statusCode} is not declared in the operation's responses (${Object.keys(responses).join(', ')})`)]
+        };
+    }
+
+    let response = responses[statusKey];
+    if (response?.$ref) {
+        response = options.resolveRef?.(response.$ref) || response;
+    }
+    const content = response?.content;
+    if (!content || Object.keys(content).length === 0) {
+        return { valid: true, statusKey, skipped: 'The matched response declares no content', violations: [] };
+    }
+
+    const mediaType = matchMediaType(Object.keys(content), contentType);
+    if (!mediaType) {
+        return {
+            valid: false,
+            statusKey,
+            violations: [violation('', 'contentType', `Content type "${contentType || '(none)'}" is not declared for response ${statusKey} (${Object.keys(content).join(', ')})`)]
+        };
+    }
+
+    const schema = content[mediaType]?.schema;
+    if (!schema) {
+        return { valid: true, statusKey, mediaType, skipped: 'The matched media type declares no schema', violations: [] };
+    }
+    if (!isJsonMediaType(contentType || mediaType)) {
+        return { valid: true, statusKey, mediaType, skipped: 'Only JSON bodies are validated against the schema', violations: [] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(body);
+    } catch (error) {
+        return {
+            valid: false,
+            statusKey,
+            mediaType,
+            violations: [violation('', 'json', `Response body is not valid JSON: ${error instanceof Error ? error.message : error}`)]
+        };
+    }
+
+    const violations = validateSchema(parsed, schema, { ...options, direction: 'response' });
+    return { valid: violations.length === 0, statusKey, mediaType, violations };
+}
+
+/**
+ * Validates the inputs of a request before it is sent. Violations point into the Input JSON structure
+ * (`/pathParameters/id`, `/queryParameters/limit`, `/headerParameters/X-Trace`, `/requestBody/...`).
+ * Parameter values arrive as entered in the editor and are coerced to the parameter's schema type first.
+ */
+export function validateRequest(parameters: any[], parameterValues: Record<string, any>, requestBody: any, body: any, options: ValidationOptions = {}): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const requestOptions: ValidationOptions = { ...options, direction: 'request' };
+
+    (parameters || []).forEach(parameter => {
+        parameter = resolve(parameter, options) || parameter;
+        const section = PARAMETER_SECTIONS[parameter?.in];
+        if (!section) {
+            return; // Cookie parameters are not part of the Input JSON
+        }
+        const pointer = `/${section}/${escapePointer(parameter.name)}`;
+        const value = parameterValues?.[parameter.name];
+
+        if (value === undefined || value === null || value === '') {
+            if (parameter.required || parameter.in === 'path') {
+                violations.push(violation(pointer, 'required', `Missing required ${parameter.in} parameter "${parameter.name}"`));
+            }
+            return;
+        }
+
+        const schema = resolve(parameter.schema, options) || (parameter.type ? { type: parameter.type } : undefined);
+        if (schema) {
+            violations.push(...validateSchema(coerceParameter(value, schema, options), schema, requestOptions, pointer));
+        }
+    });
+
+    const content = requestBody?.content;
+    if (content) {
+        if (body === undefined) {
+            if (requestBody.required) {
+                violations.push(violation('/requestBody', 'required', 'Missing required request body'));
+            }
+        } else {
+            const mediaType = Object.keys(content).find(isJsonMediaType);
+            if (mediaType && content[mediaType]?.schema) {
+                violations.push(...validateSchema(body, content[mediaType].schema, requestOptions, '/requestBody'));
+            }
+        }
+    }
+
+    return violations;
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+    const essence = mediaType.split(';')[0].trim().toLowerCase();
+    return essence === 'application/json' || essence.endsWith('+json') || essence === '*/*' || essence === 'application/*';
+}
+
+const PARAMETER_SECTIONS: Record<string, string> = {
+    path: 'pathParameters',
+    query: 'queryParameters',
+    header: 'headerParameters'
+};
+
+// Editor values are usually strings; parse them as the schema's type so type and range checks are meaningful
+function coerceParameter(value: any, schema: any, options: ValidationOptions): any {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const trimmed = value.trim();
+    if ((types.includes('integer') || types.includes('number')) && trimmed !== '' && !isNaN(Number(trimmed))) {
+        return Number(trimmed);
+    }
+    if (types.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+        return trimmed === 'true';
+    }
+    if (types.includes('array')) {
+        const items = resolve(schema.items, options) || {};
+        return value.split(',').map(item => coerceParameter(item, items, options));
+    }
+    return value;
+}
+
+function matchStatus(responses: any, statusCode: number): string | undefined {
+    const keys = Object.keys(responses);
+    const status = String(statusCode);
+    return keys.find(key => key === status)
+        || keys.find(key => key.toUpperCase() === `${status[0]}XX`)
+        || keys.find(key => key === 'default');
+}
+
+function matchMediaType(declared: string[], contentType: string): string | undefined {
+    const essence = (contentType || '').split(';')[0].trim().toLowerCase();
+    const [type] = essence.split('/');
+    const normalized = declared.map(key => ({ key, essence: key.split(';')[0].trim().toLowerCase() }));
+    return (normalized.find(entry => entry.essence === essence)
+        || normalized.find(entry => entry.essence === `${type}/*`)
+        || normalized.find(entry => entry.essence === '*/*'))?.key;
+}
+
+function validateString(value: string, schema: any, pointer: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const length = Array.from(value).length; // Count code points, not UTF-16 units
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+        violations.push(violation(pointer, 'minLength', `String is shorter than ${schema.minLength} characters`));
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+        violations.push(violation(pointer, 'maxLength', `String is longer than ${schema.maxLength} characters`));
+    }
+    if (typeof schema.pattern === 'string') {
+        try {
+            if (!new RegExp(schema.pattern, 'u').test(value)) {
+                violations.push(violation(pointer, 'pattern', `String does not match pattern ${schema.pattern}`));
+            }
+        } catch {
+            // Patterns using syntax JavaScript doesn't support are not checked
+        }
+    }
+    if (typeof schema.format === 'string' && !matchesFormat(value, schema.format)) {
+        violations.push(violation(pointer, 'format', `String is not a valid ${schema.format}`));
+    }
+    return violations;
+}
+
+function validateNumber(value: number, schema: any, pointer: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    // OpenAPI 3.0 uses boolean exclusiveMinimum/exclusiveMaximum next to minimum/maximum; 3.1 uses numbers
+    if (typeof schema.minimum === 'number') {
+        if (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) {
+            violations.push(violation(pointer, 'minimum', `Value must be ${schema.exclusiveMinimum === true ? 'greater than' : 'at least'} ${schema.minimum}`));
+        }
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+        violations.push(violation(pointer, 'exclusiveMinimum', `Value must be greater than ${schema.exclusiveMinimum}`));
+    }
+    if (typeof schema.maximum === 'number') {
+        if (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) {
+            violations.push(violation(pointer, 'maximum', `Value must be ${schema.exclusiveMaximum === true ? 'less than' : 'at most'} ${schema.maximum}`));
+        }
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+        violations.push(violation(pointer, 'exclusiveMaximum', `Value must be less than ${schema.exclusiveMaximum}`));
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+        const quotient = value / schema.multipleOf;
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+            violations.push(violation(pointer, 'multipleOf', `Value must be a multiple of ${schema.multipleOf}`));
+        }
+    }
+    if (schema.format === 'int32' && (value < -2147483648 || value > 2147483647)) {
+        violations.push(violation(pointer, 'format', 'Value is out of range for int32'));
+    }
+    if (schema.format === 'int64' && !Number.isSafeInteger(value) && Number.isInteger(value)) {
+        violations.push(violation(pointer, 'format', 'Value exceeds the precision JavaScript can represent for int64'));
+    }
+    return violations;
+}
+
+function validateArray(value: any[], schema: any, options: ValidationOptions, pointer: string, depth: number): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+        violations.push(violation(pointer, 'minItems', `Array must have at least ${schema.minItems} items`));
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+        violations.push(violation(pointer, 'maxItems', `Array must have at most ${schema.maxItems} items`));
+    }
+    if (schema.uniqueItems === true) {
+        value.forEach((item, index) => {
+            if (value.slice(0, index).some(earlier => deepEqual(earlier, item))) {
+                violations.push(violation(`${pointer}/${index}`, 'uniqueItems', 'Array items must be unique'));
+            }
+        });
+    }
+
+    // 2020-12 `prefixItems` describes leading positions; `items` then applies to the rest
+    const prefixItems: any[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, index) => {
+        const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+        if (itemSchema !== undefined) {
+            violations.push(...validateSchema(item, itemSchema, options, `${pointer}/${index}`, depth + 1));
+        }
+    });
+    return violations;
+}
+
+function validateObject(value: Record<string, any>, schema: any, options: ValidationOptions, pointer: string, depth: number): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const properties: Record<string, any> = schema.properties || {};
+    const keys = Object.keys(value);
+
+    if (Array.isArray(schema.required)) {
+        schema.required.forEach((name: string) => {
+            if (value[name] !== undefined) {
+                return;
+            }
+            const property = resolve(properties[name], options);
+            if ((options.direction === 'request' && property?.readOnly) || (options.direction === 'response' && property?.writeOnly)) {
+                return;
+            }
+            violations.push(violation(pointer, 'required', `Missing required property "${name}"`));
+        });
+    }
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+        violations.push(violation(pointer, 'minProperties', `Object must have at least ${schema.minProperties} properties`));
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+        violations.push(violation(pointer, 'maxProperties', `Object must have at most ${schema.maxProperties} properties`));
+    }
+
+    const patternProperties: Record<string, any> = schema.patternProperties || {};
+    keys.forEach(key => {
+        const childPointer = `${pointer}/${escapePointer(key)}`;
+        let matched = false;
+        if (key in properties) {
+            matched = true;
+            violations.push(...validateSchema(value[key], properties[key], options, childPointer, depth + 1));
+        }
+        Object.keys(patternProperties).forEach(pattern => {
+            if (safeTest(pattern, key)) {
+                matched = true;
+                violations.push(...validateSchema(value[key], patternProperties[pattern], options, childPointer, depth + 1));
+            }
+        });
+        if (!matched && schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+            if (schema.additionalProperties === false) {
+                violations.push(violation(childPointer, 'additionalProperties', `Property "${key}" is not allowed`));
+            } else {
+                violations.push(...validateSchema(value[key], schema.additionalProperties, options, childPointer, depth + 1));
+            }
+        }
+    });
+    return violations;
+}
+
+function validateComposition(value: any, schema: any, options: ValidationOptions, pointer: string, depth: number): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+
+    if (Array.isArray(schema.allOf)) {
+        schema.allOf.forEach((part: any) => violations.push(...validateSchema(value, part, options, pointer, depth + 1)));
+    }
+
+    (['oneOf', 'anyOf'] as const).forEach(keyword => {
+        const branches: any[] = schema[keyword];
+        if (!Array.isArray(branches) || branches.length === 0) {
+            return;
+        }
+
+        // With a discriminator, report the selected branch's own violations instead of a summary
+        const selected = discriminatedBranch(value, schema.discriminator, branches, options);
+        if (selected) {
+            violations.push(...validateSchema(value, selected, options, pointer, depth + 1));
+            return;
+        }
+
+        const results = branches.map(branch => validateSchema(value, branch, options, pointer, depth + 1));
+        const matching = results.filter(result => result.length === 0).length;
+        if (matching === 0) {
+            // Surface the closest branch's violations so the cause is visible
+            const closest = results.reduce((best, result) => result.length < best.length ? result : best);
+            violations.push(violation(pointer, keyword, `Value does not match any of the ${branches.length} ${keyword} schemas`), ...closest);
+        } else if (keyword === 'oneOf' && matching > 1) {
+            violations.push(violation(pointer, keyword, `Value matches ${matching} of the oneOf schemas but must match exactly one`));
+        }
+    });
+
+    if (schema.not !== undefined && validateSchema(value, schema.not, options, pointer, depth + 1).length === 0) {
+        violations.push(violation(pointer, 'not', 'Value must not match the "not" schema'));
+    }
+    return violations;
+}
+
+function discriminatedBranch(value: any, discriminator: any, branches: any[], options: ValidationOptions): any {
+    const propertyName = discriminator?.propertyName;
+    if (!propertyName || !value || typeof value !== 'object' || typeof value[propertyName] !== 'string') {
+        return undefined;
+    }
+    const discriminatorValue: string = value[propertyName];
+
+    const mapped = discriminator.mapping?.[discriminatorValue];
+    const target = mapped
+        ? (mapped.includes('/') || mapped.includes('#') ? options.resolveRef?.(mapped) : schemasOf(options.spec)[mapped])
+        : schemasOf(options.spec)[discriminatorValue];
+    if (!target) {
+        return undefined;
+    }
+    const targetJson = JSON.stringify(target);
+    return branches.find(branch => JSON.stringify(resolve(branch, options)) === targetJson);
+}
+
+function schemasOf(spec: any): Record<string, any> {
+    return spec?.components?.schemas || spec?.definitions || {};
+}
+
+function resolve(schema: any, options: ValidationOptions): any {
+    return schema?.$ref ? options.resolveRef?.(schema.$ref) : schema;
+}
+
+function allowsNull(schema: any): boolean {
+    if (schema.nullable === true) {
+        return true;
+    }
+    if (Array.isArray(schema.type)) {
+        return schema.type.includes('null');
+    }
+    return schema.type === 'null';
+}
+
+function matchesType(value: any, type: string): boolean {
+    switch (type) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && isFinite(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'array': return Array.isArray(value);
+        case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'null': return value === null;
+        default: return true;
+    }
+}
+
+function matchesFormat(value: string, format: string): boolean {
+    switch (format) {
+        case 'date':
+        case 'date-time':
+            return FORMAT_PATTERNS[format].test(value) && !isNaN(Date.parse(format === 'date' ? `${value}T00:00:00Z` : value.replace(' ', 'T')));
+        case 'uri':
+        case 'url':
+            try {
+                new URL(value);
+                return true;
+            } catch {
+                return false;
+            }
+        case 'ipv4':
+            return isIPv4(value);
+        case 'ipv6':
+            return isIPv6(value);
+        default:
+            // Unknown formats are annotations only
+            return FORMAT_PATTERNS[format] ? FORMAT_PATTERNS[format].test(value) : true;
+    }
+}
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+// JSON equality: objects are equal with the same members in any order
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    if (Array.isArray(a)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+    }
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+        keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+}
+
+function safeTest(pattern: string, value: string): boolean {
+    try {
+        return new RegExp(pattern, 'u').test(value);
+    } catch {
+        return false;
+    }
+}
+
+function escapePointer(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function violation(pointer: string, keyword: string, message: string): SchemaViolation {
+    return { pointer, keyword, message };
+}
@@ -0,0 +1,138 @@
+export interface SchemeCredentials {
+    value?: string; // apiKey
+    username?: string; // HTTP basic
+    password?: string;
+    token?: string; // HTTP bearer (or any other HTTP scheme), or an OAuth2/OpenID Connect access token pasted by hand
+    flow?: OAuth2Flow; // OAuth2 flow used to obtain tokens when the scheme declares several
+    clientId?: string; // OAuth2 client credentials and authorization code
+    clientSecret?: string;
+    scope?: string; // Space-separated scopes requested when the operation does not list any
+    clientAuthentication?: 'header' | 'body';
+}
+
+export type OAuth2Flow = 'clientCredentials' | 'authorizationCode';
+
+export interface SecurityContext {
+    requirements: Array<Record<string, string[]>>; // Effective `security` of the operation: alternatives, each needing all of its schemes
+    schemes: Record<string, any>; // components.securitySchemes
+    credentials: Record<string, SchemeCredentials>; // Entered in the UI, by scheme name
+}
+
+export interface AuthenticatedRequest {
+    url: string;
+    headers: Record<string, string>;
+    applied: string[]; // Names of the schemes whose credentials were added
+}
+
+export type TokenProvider = (scheme: any, credentials: SchemeCredentials, scopes: string[], requestUrl: string) => Promise<string>;
+
+/**
+ * Adds the credentials for an operation's security requirements to a request. The first
+ * requirement whose schemes all have credentials wins; headers the request already sets
+ * explicitly are left alone so a hand-written header still overrides the auth panel.
+ */
+export async function applySecurity(url: string, headers: Record<string, string>, context: SecurityContext, getToken: TokenProvider): Promise<AuthenticatedRequest> {
+    const requirement = selectRequirement(context);
+    const result: AuthenticatedRequest = { url, headers: { ...headers }, applied: [] };
+    if (!requirement) {
+        if (context.requirements.length > 0) {
+            console.log('No configured credentials satisfy the security requirements:', context.requirements);
+        }
+        return result;
+    }
+
+    for (const name of Object.keys(requirement)) {
+        const scheme = context.schemes[name];
+        const credentials = context.credentials[name];
+        switch (scheme.type) {
+            case 'apiKey':
+                applyApiKey(result, scheme, credentials.value!);
+                break;
+            case 'http':
+                if (String(scheme.scheme).toLowerCase() === 'basic') {
+                    const encoded = Buffer.from(`${credentials.username}:${credentials.password || ''}`).toString('base64');
+                    setHeader(result, 'Authorization', `Basic ${encoded}`);
+                } else {
+                    const prefix = String(scheme.scheme).toLowerCase() === 'bearer' ? 'Bearer' : scheme.scheme;
+                    setHeader(result, 'Authorization', `${prefix} ${credentials.token}`);
+                }
+                break;
+            case 'oauth2':
+            case 'openIdConnect': {
+                const scopes = requirement[name].length > 0
+                    ? requirement[name]
+                    : (credentials.scope || '').split(/[\s,]+/).filter(Boolean);
+                const token = credentials.token || await getToken(scheme, credentials, scopes, url);
+                setHeader(result, 'Authorization', `Bearer ${token}`);
+                break;
+            }
+        }
+        result.applied.push(name);
+    }
+    return result;
+}
+
+export function isConfigured(scheme: any, credentials?: SchemeCredentials): boolean {
+    if (!scheme || !credentials) {
+        return false;
+    }
+    switch (scheme.type) {
+        case 'apiKey':
+            return !!credentials.value;
+        case 'http':
+            return String(scheme.scheme).toLowerCase() === 'basic' ? !!credentials.username : !!credentials.token;
+        case 'oauth2':
+            return !!credentials.token || (!!oauth2Flow(scheme, credentials) && !!credentials.clientId);
+        case 'openIdConnect':
+            return !!credentials.token;
+        default:
+            return false;
+    }
+}
+
+/** The flow SpekAi uses to obtain tokens for an OAuth2 scheme: the chosen one, else client credentials, else authorization code. */
+export function oauth2Flow(scheme: any, credentials?: SchemeCredentials): OAuth2Flow | undefined {
+    const flows = scheme?.flows || {};
+    if (credentials?.flow && flows[credentials.flow]) {
+        return credentials.flow;
+    }
+    return flows.clientCredentials ? 'clientCredentials' : flows.authorizationCode ? 'authorizationCode' : undefined;
+}
+
+function selectRequirement(context: SecurityContext): Record<string, string[]> | undefined {
+    // An empty requirement ({}) makes authentication optional; it is used only when no other requirement has its credentials
+    const satisfied = context.requirements.filter(requirement =>
+        Object.keys(requirement).every(name => isConfigured(context.schemes[name], context.credentials[name])));
+    return satisfied.find(requirement => Object.keys(requirement).length > 0) || satisfied[0];
+}
+
+function applyApiKey(request: AuthenticatedRequest, scheme: any, value: string) {
+    switch (scheme.in) {
+        case 'query': {
+            const url = new URL(request.url);
+            if (!url.searchParams.has(scheme.name)) {
+                url.searchParams.set(scheme.name, value);
+            }
+            request.url = url.toString();
+            break;
+        }
+        case 'cookie': {
+            const cookieHeader = Object.keys(request.headers).find(key => key.toLowerCase() === 'cookie');
+            const cookie = `${scheme.name}=${encodeURIComponent(value)}`;
+            if (!cookieHeader) {
+                request.headers['Cookie'] = cookie;
+            } else if (!request.headers[cookieHeader].split(';').some(part => part.trim().startsWith(`${scheme.name}=`))) {
+                request.headers[cookieHeader] = `${request.headers[cookieHeader]}; ${cookie}`;
+            }
+            break;
+        }
+        default:
+            setHeader(request, scheme.name, value);
+    }
+}
+
+function setHeader(request: AuthenticatedRequest, name: string, value: string) {
+    if (!Object.keys(request.headers).some(key => key.toLowerCase() === name.toLowerCase())) {
+        request.headers[name] = value;
+    }
+}
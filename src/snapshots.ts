@@ -0,0 +1,65 @@
+import { ResponseDiff, diffResponses } from './responseDiff';
+
+/**
+ * A response accepted as the expected result of a saved test. JSON bodies are kept as JSON rather
+ * than as a string, so a snapshot committed with its `spekai-test-*.json` file reviews like code.
+ */
+export interface ResponseSnapshot {
+    status: number;
+    json?: any; // Body of a JSON response
+    text?: string; // Body of any other response
+    ignore?: string[]; // JSONPath expressions for fields that change from run to run, e.g. $..updatedAt or $.etag
+    updatedAt?: string; // ISO 8601, when the snapshot was taken or last accepted
+}
+
+export interface SnapshotResult {
+    passed: boolean;
+    message: string;
+    diff?: ResponseDiff; // The snapshot's body against the response's, with ignored fields left out; absent when it could not be compared
+}
+
+/** Takes a snapshot of a response; the ignore rules are those of the snapshot it replaces, if any. */
+export function createSnapshot(response: { statusCode: number, body: string }, ignore?: string[]): ResponseSnapshot {
+    const snapshot: ResponseSnapshot = { status: response.statusCode };
+    try {
+        snapshot.json = JSON.parse(response.body);
+    } catch {
+        snapshot.text = response.body;
+    }
+    if (ignore && ignore.length > 0) {
+        snapshot.ignore = ignore;
+    }
+    snapshot.updatedAt = new Date().toISOString();
+    return snapshot;
+}
+
+/** Compares a response with a snapshot; it passes when the status is the same and the bodies differ only in ignored fields. */
+export function checkSnapshot(snapshot: ResponseSnapshot, response: { statusCode: number, body: string }): SnapshotResult {
+    let diff: ResponseDiff;
+    try {
+        diff = diffResponses(snapshotBody(snapshot), response.body, snapshot.ignore);
+    } catch (error) {
+        // An ignore rule that does not parse
+        return { passed: false, message: `Snapshot not checked: ${error instanceof Error ? error.message : error}` };
+    }
+
+    const problems: string[] = [];
+    if (response.statusCode !== snapshot.status) {
+        problems.push(`status ${response.statusCode} instead of ${snapshot.status}`);
+    }
+    if (!diff.equal) {
+        const count = diff.format === 'json' ? diff.differences.length : diff.lines.filter(line => line.kind !== 'same').length;
+        const unit = diff.format === 'json' ? 'field' : 'line';
+        problems.push(`${count} ${unit}${count === 1 ? ' differs' : 's differ'}`);
+    }
+    return {
+        passed: problems.length === 0,
+        message: problems.length === 0 ? 'Response matches the snapshot' : `Response does not match the snapshot: ${problems.join(', ')}`,
+        diff
+    };
+}
+
+/** The body a snapshot expects, with a JSON body formatted as the panel shows responses. */
+export function snapshotBody(snapshot: ResponseSnapshot): string {
+    return snapshot.json !== undefined ? JSON.stringify(snapshot.json, null, 2) : snapshot.text ?? '';
+}
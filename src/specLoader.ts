@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { HttpResponse } from './httpClient';
+import { RefResolver } from './RefResolver';
+import { convertSwagger2, isSwagger2 } from './swaggerConverter';
+
+/** Fetches a remote document, throwing on HTTP error statuses; the caller decides on headers and certificates. */
+export type HttpGet = (url: string) => Promise<HttpResponse>;
+
+export interface LoadedSpec {
+    spec: any;
+    circularRefs: string[];
+}
+
+/**
+ * Loads an OpenAPI document from a file:// or http(s) URL with every `$ref` resolved, converting
+ * Swagger 2.0 into the OpenAPI 3 shape every other feature expects.
+ */
+export async function loadSpec(url: string, httpGet: HttpGet): Promise<LoadedSpec> {
+    const root = await loadDocument(url, httpGet);
+
+    // Resolve local, relative-file and remote $refs so callers work from a fully resolved document
+    const resolver = new RefResolver(async documentUrl => (await loadDocument(documentUrl, httpGet)).document);
+    let spec = await resolver.dereference(root.document, root.url);
+
+    if (isSwagger2(spec)) {
+        console.log('Converting Swagger 2.0 document to OpenAPI 3');
+        spec = convertSwagger2(spec, root.url);
+    }
+    return { spec, circularRefs: resolver.circularRefs };
+}
+
+async function loadDocument(url: string, httpGet: HttpGet): Promise<{ document: any, url: string }> {
+    let content: string;
+    let documentUrl: string;
+
+    if (url.startsWith('file://')) {
+        // Handle local file loading
+        const filePath = filePathFromUrl(url);
+        content = await fs.promises.readFile(filePath, 'utf8');
+        documentUrl = pathToFileURL(filePath).toString();
+    } else {
+        // Handle HTTP/HTTPS URLs; relative refs resolve against the URL after any redirects
+        const response = await httpGet(url);
+        content = response.body;
+        documentUrl = response.url;
+    }
+
+    // Parse the content - try JSON first, then YAML
+    let document: any;
+    try {
+        document = JSON.parse(content);
+    } catch {
+        // If JSON parsing fails, try YAML parsing
+        try {
+            document = yaml.load(content);
+        } catch (yamlError) {
+            // Only the position is reported: the parsers' messages quote the content
+            throw new Error(`Failed to parse ${url} as JSON or YAML: ${describeParseError(yamlError)}`);
+        }
+    }
+
+    return { document, url: documentUrl };
+}
+
+function describeParseError(error: unknown): string {
+    if (error instanceof yaml.YAMLException) {
+        return error.mark ? `${error.reason} at line ${error.mark.line + 1}, column ${error.mark.column + 1}` : error.reason;
+    }
+    return 'not a JSON or YAML document';
+}
+
+function filePathFromUrl(url: string): string {
+    // Well-formed file:/// URLs (such as those built while resolving relative refs) may contain percent-escapes
+    try {
+        const parsed = new URL(url);
+        if (!parsed.host) {
+            return fileURLToPath(parsed);
+        }
+    } catch (error) {
+        // Fall through to the lenient conversion below
+    }
+
+    let filePath = url.replace('file://', '');
+    
+    // Handle Windows-style paths vs Unix-style paths
+    if (process.platform === 'win32') {
+        // On Windows, remove leading slash and convert forward slashes to backslashes
+        filePath = filePath.replace(/^\//, '').replace(/\//g, '\\');
+    } else {
+        // On Unix-like systems, ensure leading slash is present
+        if (!filePath.startsWith('/')) {
+            filePath = '/' + filePath;
+        }
+    }
+    return filePath;
+}
@@ -0,0 +1,341 @@
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+const FORM_MEDIA_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+// Parameter/header keywords that describe the value and move into `schema` in OpenAPI 3
+const SCHEMA_KEYWORDS = [
+    'type', 'format', 'items', 'default', 'enum', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+    'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf'
+];
+
+export function isSwagger2(spec: any): boolean {
+    return typeof spec?.swagger === 'string' && spec.swagger.startsWith('2.');
+}
+
+/**
+ * Converts a dereferenced Swagger 2.0 document into the OpenAPI 3.0 shape the rest of SpekAi works with:
+ * `host`/`basePath`/`schemes` become `servers` (operation-level `servers` for operations with their own `schemes`), `in: body` and `in: formData` parameters become `requestBody`,
+ * `consumes`/`produces` become media types, and `definitions`/`securityDefinitions` move into `components`.
+ */
+export function convertSwagger2(spec: any, specUrl: string): any {
+    const converter = new SchemaConverter();
+    const globalConsumes: string[] = spec.consumes || ['application/json'];
+    const globalProduces: string[] = spec.produces || ['application/json'];
+    const servers = convertServers(spec, specUrl);
+
+    const paths: any = {};
+    Object.keys(spec.paths || {}).forEach(path => {
+        const pathItem = spec.paths[path] || {};
+        const convertedItem: any = {};
+
+        Object.keys(pathItem).forEach(key => {
+            if (HTTP_METHODS.includes(key)) {
+                // Path-level parameters are merged into each operation, since body/formData ones become its requestBody
+                const parameters = mergeParameters(pathItem.parameters || [], pathItem[key].parameters || []);
+                convertedItem[key] = convertOperation(pathItem[key], parameters, globalConsumes, globalProduces, converter);
+                if (Array.isArray(pathItem[key].schemes) && pathItem[key].schemes.length > 0) {
+                    const operationServers = convertServers(spec, specUrl, pathItem[key].schemes);
+                    if (JSON.stringify(operationServers) !== JSON.stringify(servers)) {
+                        convertedItem[key].servers = operationServers;
+                    }
+                }
+            } else if (key !== 'parameters') {
+                convertedItem[key] = pathItem[key];
+            }
+        });
+        paths[path] = convertedItem;
+    });
+
+    const components: any = {};
+    if (spec.definitions) {
+        components.schemas = mapValues(spec.definitions, schema => converter.convert(schema));
+    }
+    if (spec.parameters) {
+        components.parameters = mapValues(spec.parameters, parameter => convertParameter(parameter, converter));
+    }
+    if (spec.responses) {
+        components.responses = mapValues(spec.responses, response => convertResponse(response, globalProduces, converter));
+    }
+    if (spec.securityDefinitions) {
+        components.securitySchemes = mapValues(spec.securityDefinitions, convertSecurityScheme);
+    }
+
+    const { swagger, host, basePath, schemes, consumes, produces, definitions, parameters, responses, securityDefinitions, ...rest } = spec;
+    return rewriteRefs({
+        openapi: '3.0.3',
+        info: spec.info,
+        servers,
+        ...rest,
+        paths,
+        components
+    });
+}
+
+// Operations pass their own schemes, which replace the document's
+function convertServers(spec: any, specUrl: string, schemes: string[] = spec.schemes): Array<{ url: string }> {
+    const basePath = spec.basePath || '';
+    let host: string = spec.host;
+    if (!host) {
+        // Without a host the API is served from the host that serves the spec; relative servers resolve against it,
+        // unless an operation asks for other schemes than the spec was served with
+        const specProtocol = specUrl.split(':')[0].toLowerCase();
+        const documentSchemes: string[] = spec.schemes?.length > 0 ? spec.schemes : [specProtocol];
+        if (!(specProtocol === 'http' || specProtocol === 'https') || !schemes || schemes.every(scheme => documentSchemes.includes(scheme))) {
+            return [{ url: basePath || '/' }];
+        }
+        host = new URL(specUrl).host;
+    }
+
+    if (!schemes || schemes.length === 0) {
+        const specProtocol = specUrl.split(':')[0].toLowerCase();
+        schemes = [specProtocol === 'http' || specProtocol === 'https' ? specProtocol : 'https'];
+    }
+    // Prefer https when both are offered
+    const ordered = [...schemes].sort((a, b) => (b === 'https' ? 1 : 0) - (a === 'https' ? 1 : 0));
+    return ordered.map(scheme => ({ url: `${scheme}://${host}${basePath}` }));
+}
+
+function mergeParameters(pathParameters: any[], operationParameters: any[]): any[] {
+    const merged = [...pathParameters];
+    operationParameters.forEach(parameter => {
+        const index = merged.findIndex(existing => existing.name === parameter.name && existing.in === parameter.in);
+        if (index >= 0) {
+            merged[index] = parameter;
+        } else {
+            merged.push(parameter);
+        }
+    });
+    return merged;
+}
+
+function convertOperation(operation: any, parameters: any[], globalConsumes: string[], globalProduces: string[], converter: SchemaConverter): any {
+    const { parameters: _parameters, consumes, produces, responses, schemes, ...rest } = operation;
+    const operationConsumes: string[] = consumes || globalConsumes;
+    const operationProduces: string[] = produces || globalProduces;
+    const converted: any = { ...rest };
+
+    const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+    const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+
+    converted.parameters = parameters
+        .filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData')
+        .map(parameter => convertParameter(parameter, converter));
+
+    if (bodyParameter) {
+        const mediaTypes = operationConsumes.filter(type => !FORM_MEDIA_TYPES.includes(type));
+        const schema = converter.convert(bodyParameter.schema || {});
+        converted.requestBody = {
+            description: bodyParameter.description,
+            required: bodyParameter.required === true,
+            content: Object.fromEntries((mediaTypes.length > 0 ? mediaTypes : ['application/json']).map(type => [type, { schema }]))
+        };
+        if (bodyParameter['x-examples']) {
+            Object.keys(bodyParameter['x-examples']).forEach(type => {
+                if (converted.requestBody.content[type]) {
+                    converted.requestBody.content[type].example = bodyParameter['x-examples'][type];
+                }
+            });
+        }
+    } else if (formParameters.length > 0) {
+        const hasFile = formParameters.some(parameter => parameter.type === 'file');
+        let mediaTypes = operationConsumes.filter(type => FORM_MEDIA_TYPES.includes(type));
+        if (mediaTypes.length === 0 || (hasFile && !mediaTypes.includes('multipart/form-data'))) {
+            mediaTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+        } else if (hasFile) {
+            mediaTypes = ['multipart/form-data', ...mediaTypes.filter(type => type !== 'multipart/form-data')];
+        }
+        const schema: any = {
+            type: 'object',
+            properties: Object.fromEntries(formParameters.map(parameter => [parameter.name, {
+                ...parameterSchema(parameter, converter),
+                ...(parameter.description ? { description: parameter.description } : {})
+            }]))
+        };
+        const required = formParameters.filter(parameter => parameter.required).map(parameter => parameter.name);
+        if (required.length > 0) {
+            schema.required = required;
+        }
+        converted.requestBody = {
+            required: required.length > 0,
+            content: Object.fromEntries(mediaTypes.map(type => [type, { schema }]))
+        };
+    }
+
+    converted.responses = mapValues(responses || {}, response => convertResponse(response, operationProduces, converter));
+    return converted;
+}
+
+function convertParameter(parameter: any, converter: SchemaConverter): any {
+    if (parameter.in === 'body' || parameter.in === 'formData') {
+        return parameter; // Only reachable for shared `parameters`; operations turn these into a requestBody
+    }
+
+    const converted: any = { name: parameter.name, in: parameter.in };
+    if (parameter.description) converted.description = parameter.description;
+    if (parameter.required || parameter.in === 'path') converted.required = true;
+    if (parameter.allowEmptyValue) converted.allowEmptyValue = true;
+    if (parameter['x-example'] !== undefined) converted.example = parameter['x-example'];
+    Object.keys(parameter).filter(key => key.startsWith('x-') && key !== 'x-example').forEach(key => converted[key] = parameter[key]);
+
+    converted.schema = parameterSchema(parameter, converter);
+
+    // collectionFormat maps onto style/explode; csv is the 2.0 default
+    if (parameter.type === 'array') {
+        switch (parameter.collectionFormat) {
+            case 'multi':
+                converted.style = 'form';
+                converted.explode = true;
+                break;
+            case 'ssv':
+                converted.style = 'spaceDelimited';
+                converted.explode = false;
+                break;
+            case 'pipes':
+                converted.style = 'pipeDelimited';
+                converted.explode = false;
+                break;
+            default:
+                converted.style = parameter.in === 'query' ? 'form' : 'simple';
+                converted.explode = false;
+        }
+    }
+    return converted;
+}
+
+function parameterSchema(parameter: any, converter: SchemaConverter): any {
+    const schema: any = {};
+    SCHEMA_KEYWORDS.forEach(keyword => {
+        if (parameter[keyword] !== undefined) {
+            schema[keyword] = parameter[keyword];
+        }
+    });
+    return converter.convert(schema);
+}
+
+function convertResponse(response: any, produces: string[], converter: SchemaConverter): any {
+    if (!response || typeof response !== 'object' || response.$ref) {
+        return response;
+    }
+    const { schema, examples, headers, ...rest } = response;
+    const converted: any = { ...rest, description: response.description || '' };
+
+    if (schema) {
+        const convertedSchema = converter.convert(schema);
+        converted.content = Object.fromEntries(produces.map(type => [type, {
+            schema: convertedSchema,
+            ...(examples?.[type] !== undefined ? { example: examples[type] } : {})
+        }]));
+    }
+    if (headers) {
+        converted.headers = mapValues(headers, header => {
+            const { description, ...headerRest } = header;
+            return { ...(description ? { description } : {}), schema: parameterSchema(headerRest, converter) };
+        });
+    }
+    return converted;
+}
+
+function convertSecurityScheme(scheme: any): any {
+    const description = scheme.description ? { description: scheme.description } : {};
+    switch (scheme.type) {
+        case 'basic':
+            return { type: 'http', scheme: 'basic', ...description };
+        case 'apiKey':
+            return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+        case 'oauth2': {
+            const scopes = scheme.scopes || {};
+            const flows: any = {};
+            switch (scheme.flow) {
+                case 'implicit':
+                    flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes };
+                    break;
+                case 'password':
+                    flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+                    break;
+                case 'application':
+                    flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+                    break;
+                case 'accessCode':
+                    flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes };
+                    break;
+            }
+            return { type: 'oauth2', flows, ...description };
+        }
+        default:
+            return scheme;
+    }
+}
+
+// Converts 2.0-only schema constructs; dereferenced schemas are shared between locations, so results are cached
+class SchemaConverter {
+    private readonly _converted = new Map<any, any>();
+
+    public convert(schema: any): any {
+        if (!schema || typeof schema !== 'object') {
+            return schema;
+        }
+        if (Array.isArray(schema)) {
+            return schema.map(item => this.convert(item));
+        }
+        const cached = this._converted.get(schema);
+        if (cached) {
+            return cached;
+        }
+
+        const converted: any = {};
+        this._converted.set(schema, converted);
+        Object.keys(schema).forEach(key => {
+            const value = schema[key];
+            switch (key) {
+                case 'x-nullable':
+                    if (value === true) converted.nullable = true;
+                    break;
+                case 'discriminator':
+                    converted.discriminator = typeof value === 'string' ? { propertyName: value } : value;
+                    break;
+                case 'properties':
+                case 'definitions':
+                    converted[key] = mapValues(value || {}, property => this.convert(property));
+                    break;
+                case 'items':
+                case 'additionalProperties':
+                case 'not':
+                case 'allOf':
+                case 'oneOf':
+                case 'anyOf':
+                    converted[key] = this.convert(value);
+                    break;
+                default:
+                    converted[key] = value;
+            }
+        });
+        if (converted.type === 'file') {
+            converted.type = 'string';
+            converted.format = 'binary';
+        }
+        return converted;
+    }
+}
+
+// Circular refs are kept as local refs; point them at their OpenAPI 3 locations
+function rewriteRefs(node: any, seen = new Set<any>()): any {
+    if (!node || typeof node !== 'object' || seen.has(node)) {
+        return node;
+    }
+    seen.add(node);
+    if (Array.isArray(node)) {
+        node.forEach(item => rewriteRefs(item, seen));
+    } else {
+        if (typeof node.$ref === 'string') {
+            node.$ref = node.$ref
+                .replace(/^#\/definitions\//, '#/components/schemas/')
+                .replace(/^#\/parameters\//, '#/components/parameters/')
+                .replace(/^#\/responses\//, '#/components/responses/');
+        }
+        Object.keys(node).forEach(key => rewriteRefs(node[key], seen));
+    }
+    return node;
+}
+
+function mapValues(object: Record<string, any>, transform: (value: any) => any): Record<string, any> {
+    return Object.fromEntries(Object.keys(object).map(key => [key, transform(object[key])]));
+}
@@ -0,0 +1,150 @@
+import { Assertion } from './assertions';
+import { COLLECTION_FORMAT, Collection, CollectionStep, StepResult } from './collectionRunner';
+import { ExtractionRule } from './extraction';
+import { ClientCertificate } from './httpClient';
+import { ResponseSnapshot, createSnapshot } from './snapshots';
+import { encodeTemplate } from './variables';
+
+/** A `spekai-test-*.json` file written by Save Test Data. */
+export interface SavedTestData {
+    operation: { id: string, method: string, path: string, summary?: string }; // method is "FALLBACK" and path the URL for manual requests
+    inputJson: string; // Input JSON editor contents: pathParameters/queryParameters/headerParameters/requestBody, or the body itself
+    outputJson?: string;
+    customHeaders?: Array<{ key: string, value: string }>;
+    globalHeaders?: Array<{ key: string, value: string }>;
+    timeout?: number;
+    clientCert?: ClientCertificate;
+    apiBaseUrl?: string;
+    openApiSpecUrl?: string;
+    environment?: string;
+    webhookUrl?: string;
+    extractionRules?: ExtractionRule[];
+    assertions?: Assertion[];
+    snapshot?: ResponseSnapshot; // Expected response for regression runs
+    fallbackMode?: boolean;
+    timestamp?: string;
+}
+
+export function isSavedTestData(value: any): value is SavedTestData {
+    return !!value && typeof value === 'object' && typeof value.inputJson === 'string' && !!value.operation;
+}
+
+/**
+ * Turns saved test data into a one-step collection that replays the request. Parameter values and
+ * bodies keep their `{{variables}}`, which are resolved when the collection runs. A base URL override
+ * replaces the saved API base URL (for manual requests, the whole saved URL).
+ */
+export function testDataToCollection(testData: SavedTestData, baseUrlOverride?: string): Collection {
+    const operation = testData.operation;
+    const step: CollectionStep = {
+        id: operation.id || `${operation.method}_${operation.path}`,
+        name: operation.summary && !testData.fallbackMode ? operation.summary : `${operation.method} ${operation.path}`,
+        method: operation.method,
+        url: operation.path,
+        headers: [...(testData.customHeaders || [])],
+        extractionRules: testData.extractionRules,
+        assertions: testData.assertions,
+        snapshot: testData.snapshot,
+        timeout: testData.timeout
+    };
+
+    if (testData.fallbackMode || operation.method === 'FALLBACK') {
+        // Manual requests record the method they were last sent with in the id (fallback_get), if at all
+        const method = /^fallback_(get|post|put|delete|patch)$/i.exec(operation.id || '')?.[1] || 'get';
+        step.method = method.toUpperCase();
+        step.name = `${step.method} ${operation.path}`;
+        step.url = baseUrlOverride || testData.apiBaseUrl || operation.path;
+        if (['POST', 'PUT', 'PATCH'].includes(step.method)) {
+            step.body = testData.inputJson;
+        }
+    } else {
+        step.operation = { method: operation.method, path: operation.path };
+        applyInputJson(step, testData);
+        // Webhook payloads go to the callback URL the test was saved with
+        if (testData.webhookUrl) {
+            step.url = testData.webhookUrl;
+        }
+    }
+
+    return {
+        format: COLLECTION_FORMAT,
+        version: 1,
+        name: step.name,
+        baseUrl: baseUrlOverride || testData.apiBaseUrl || '',
+        openApiSpecUrl: testData.openApiSpecUrl,
+        environment: testData.environment,
+        mode: 'sequential',
+        stopOnFailure: false,
+        headers: testData.globalHeaders || [],
+        steps: [step]
+    };
+}
+
+/**
+ * The response body kept in saved output JSON. The panel saves `{ status, response, error }` once a
+ * request has completed, and the body alone otherwise; JSON bodies come back formatted.
+ */
+export function savedResponseBody(outputJson: string): string {
+    try {
+        const output = JSON.parse(outputJson);
+        const wrapped = !!output && typeof output === 'object' && !Array.isArray(output) && 'response' in output &&
+            Object.keys(output).every(key => ['status', 'response', 'error'].includes(key));
+        if (wrapped) {
+            return typeof output.response === 'string' ? output.response : JSON.stringify(output.response, null, 2);
+        }
+    } catch {
+        // A text body saved as it was received
+    }
+    return outputJson;
+}
+
+/**
+ * Accepts the response a run got as the new snapshot when it no longer matched the saved one.
+ * Returns false, leaving the test data as it was, when there is nothing to accept: the snapshot
+ * matched, the request failed, or the snapshot could not be compared.
+ */
+export function acceptSnapshot(testData: SavedTestData, step: StepResult): boolean {
+    if (!testData.snapshot || !step.response || !step.snapshot?.diff || step.snapshot.passed) {
+        return false;
+    }
+    testData.snapshot = createSnapshot(step.response, testData.snapshot.ignore);
+    return true;
+}
+
+function applyInputJson(step: CollectionStep, testData: SavedTestData) {
+    let input: any;
+    try {
+        input = JSON.parse(testData.inputJson);
+    } catch {
+        // The panel sends no body for input it cannot parse either
+        return;
+    }
+
+    const hasParameters = input && typeof input === 'object' &&
+        ['pathParameters', 'queryParameters', 'headerParameters', 'requestBody'].some(key => Object.prototype.hasOwnProperty.call(input, key));
+    if (!hasParameters) {
+        if (input && typeof input === 'object') {
+            step.body = JSON.stringify(input, null, 2);
+        }
+        return;
+    }
+
+    Object.entries(input.pathParameters || {}).forEach(([name, value]) => {
+        step.url = step.url.replace(`{${name}}`, encodeTemplate(String(value)));
+    });
+    const query = Object.entries(input.queryParameters || {})
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .flatMap(([name, value]) => (Array.isArray(value) ? value : [value])
+            .map(item => `${encodeURIComponent(name)}=${encodeTemplate(String(item))}`));
+    if (query.length > 0) {
+        step.url += '?' + query.join('&');
+    }
+    Object.entries(input.headerParameters || {}).forEach(([name, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+            step.headers.push({ key: name, value: String(value) });
+        }
+    });
+    if (input.requestBody !== undefined && typeof input.requestBody === 'object') {
+        step.body = JSON.stringify(input.requestBody, null, 2);
+    }
+}
@@ -0,0 +1,23 @@
+/** Replaces `{{name}}` placeholders with variable values; unknown names are left as typed. */
+export function substituteVariables(text: string, variables: Record<string, string>): string {
+    return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name) => variables[name] ?? placeholder);
+}
+
+/** Substitutes placeholders in every string of a JSON value, leaving its structure alone. */
+export function substituteInJson(value: any, variables: Record<string, string>): any {
+    if (typeof value === 'string') {
+        return substituteVariables(value, variables);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => substituteInJson(item, variables));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteInJson(item, variables)]));
+    }
+    return value;
+}
+
+/** Percent-encodes a URL component but keeps `{{name}}` placeholders intact so they can be resolved later. */
+export function encodeTemplate(value: string): string {
+    return value.split(/(\{\{\s*[\w.-]+\s*\}\})/).map((part, index) => index % 2 === 1 ? part : encodeURIComponent(part)).join('');
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 
 interface HeaderEntry {
   key: string;
@@ -8,9 +8,12 @@ interface HeaderEntry {
 interface HeadersEditorProps {
   headers: HeaderEntry[];
   onChange: (headers: HeaderEntry[]) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
 }
 
-const HeadersEditor: React.FC<HeadersEditorProps> = ({ headers, onChange }) => {
+const HeadersEditor: React.FC<HeadersEditorProps> = ({ headers, onChange, keyPlaceholder = 'Header name', valuePlaceholder = 'Header value', addLabel = 'Add Header' }) => {
   const addHeader = () => {
     onChange([...headers, { key: '', value: '' }]);
   };
@@ -34,14 +37,14 @@ const HeadersEditor: React.FC<HeadersEditorProps> = ({ headers, onChange }) => {
           <div key={index} className="header-entry">
             <input
               type="text"
-              placeholder="Header name"
+              placeholder={keyPlaceholder}
               value={header.key}
               onChange={(e) => updateHeader(index, 'key', e.target.value)}
               className="header-input header-key"
             />
             <input
               type="text"
-              placeholder="Header value"
+              placeholder={valuePlaceholder}
               value={header.value}
               onChange={(e) => updateHeader(index, 'value', e.target.value)}
               className="header-input header-value"
@@ -57,12 +60,272 @@ const HeadersEditor: React.FC<HeadersEditorProps> = ({ headers, onChange }) => {
         ))}
       </div>
       <button onClick={addHeader} className="add-header-btn">
-        + Add Header
+        + {addLabel}
       </button>
     </div>
   );
 };
 
+// Replaces {{name}} placeholders with environment variables; unknown names are left as typed. Mirrors src/variables.ts
+const substituteVariables = (text: string, variables: Record<string, string>): string =>
+  text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name) => variables[name] ?? placeholder);
+
+const substituteInJson = (value: any, variables: Record<string, string>): any => {
+  if (typeof value === 'string') {
+    return substituteVariables(value, variables);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteInJson(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteInJson(item, variables)]));
+  }
+  return value;
+};
+
+const toVariableEntries = (variables: Record<string, string>): HeaderEntry[] =>
+  Object.entries(variables).map(([key, value]) => ({ key, value }));
+
+const fromVariableEntries = (entries: HeaderEntry[]): Record<string, string> =>
+  Object.fromEntries(entries.filter(entry => entry.key.trim()).map(entry => [entry.key.trim(), entry.value]));
+
+interface ServerVariable {
+  default?: string;
+  enum?: string[];
+  description?: string;
+}
+
+interface Server {
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariable>;
+}
+
+// Substitutes {variable} placeholders (falling back to their defaults) and resolves relative URLs against the spec URL
+const resolveServerUrl = (server: Server, values: Record<string, string> = {}, specUrl: string): string => {
+  const url = server.url.replace(/\{([^}]+)\}/g, (placeholder, name) =>
+    values[name] ?? server.variables?.[name]?.default ?? placeholder);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  try {
+    return new URL(url, specUrl).toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+};
+
+interface ServerPickerProps {
+  label: string;
+  servers: Server[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  variables: Record<string, Record<string, string>>; // Values by server URL template, then variable name
+  onVariableChange: (serverUrl: string, name: string, value: string) => void;
+}
+
+const ServerPicker: React.FC<ServerPickerProps> = ({ label, servers, selectedIndex, onSelect, variables, onVariableChange }) => {
+  const server = servers[selectedIndex] || servers[0];
+  const values = variables[server.url] || {};
+
+  return (
+    <div className="server-picker">
+      <label className="server-picker-label">{label}</label>
+      <select
+        value={servers.indexOf(server)}
+        onChange={(e) => onSelect(Number(e.target.value))}
+        className="locale-select server-select"
+      >
+        {servers.map((entry, index) => (
+          <option key={index} value={index}>
+            {entry.description ? `${entry.description} (${entry.url})` : entry.url}
+          </option>
+        ))}
+      </select>
+      {Object.entries(server.variables || {}).map(([name, variable]) => (
+        <label key={name} className="server-variable" title={variable.description}>
+          <span>{name}</span>
+          {variable.enum && variable.enum.length > 0 ? (
+            <select
+              value={values[name] ?? variable.default ?? variable.enum[0]}
+              onChange={(e) => onVariableChange(server.url, name, e.target.value)}
+              className="locale-select"
+            >
+              {variable.enum.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={values[name] ?? variable.default ?? ''}
+              onChange={(e) => onVariableChange(server.url, name, e.target.value)}
+              className="url-input"
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+interface SchemeCredentials {
+  value?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+  flow?: OAuth2Flow;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  clientAuthentication?: 'header' | 'body';
+}
+
+type OAuth2Flow = 'clientCredentials' | 'authorizationCode';
+
+// Result of the last interactive sign-in for an authorization code scheme
+interface OAuth2Session {
+  pending?: boolean;
+  expiresAt?: number;
+  error?: string;
+}
+
+// Mirrors oauth2Flow in src/securitySchemes.ts
+const getOAuth2Flow = (scheme: any, credentials?: SchemeCredentials): OAuth2Flow | undefined => {
+  const flows = scheme?.flows || {};
+  if (credentials?.flow && flows[credentials.flow]) return credentials.flow;
+  return flows.clientCredentials ? 'clientCredentials' : flows.authorizationCode ? 'authorizationCode' : undefined;
+};
+
+// Mirrors isConfigured in src/securitySchemes.ts
+const isSchemeConfigured = (scheme: any, credentials?: SchemeCredentials): boolean => {
+  if (!scheme || !credentials) return false;
+  switch (scheme.type) {
+    case 'apiKey':
+      return !!credentials.value;
+    case 'http':
+      return String(scheme.scheme).toLowerCase() === 'basic' ? !!credentials.username : !!credentials.token;
+    case 'oauth2':
+      return !!credentials.token || (!!getOAuth2Flow(scheme, credentials) && !!credentials.clientId);
+    case 'openIdConnect':
+      return !!credentials.token;
+    default:
+      return false;
+  }
+};
+
+const describeScheme = (scheme: any): string => {
+  switch (scheme.type) {
+    case 'apiKey':
+      return `API key in ${scheme.in} "${scheme.name}"`;
+    case 'http':
+      return `HTTP ${String(scheme.scheme).toLowerCase()}${scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ''}`;
+    case 'oauth2':
+      return `OAuth2 (${Object.keys(scheme.flows || {}).join(', ') || 'no flows'})`;
+    case 'openIdConnect':
+      return 'OpenID Connect';
+    default:
+      return scheme.type;
+  }
+};
+
+interface AuthPanelProps {
+  schemes: Record<string, any>;
+  credentials: Record<string, SchemeCredentials>;
+  onChange: (name: string, credentials: SchemeCredentials) => void;
+  sessions: Record<string, OAuth2Session>;
+  onSignIn: (name: string) => void;
+}
+
+const AuthPanel: React.FC<AuthPanelProps> = ({ schemes, credentials, onChange, sessions, onSignIn }) => {
+  const field = (name: string, key: keyof SchemeCredentials, placeholder: string, secret = false) => (
+    <input
+      type={secret ? 'password' : 'text'}
+      placeholder={placeholder}
+      value={credentials[name]?.[key] || ''}
+      onChange={(e) => onChange(name, { ...credentials[name], [key]: e.target.value })}
+      className="header-input"
+    />
+  );
+
+  return (
+    <div className="auth-panel">
+      {Object.entries(schemes).map(([name, scheme]) => {
+        const flowName = scheme.type === 'oauth2' ? getOAuth2Flow(scheme, credentials[name]) : undefined;
+        const flow = flowName ? scheme.flows[flowName] : undefined;
+        const supportedFlows = (['clientCredentials', 'authorizationCode'] as OAuth2Flow[]).filter(candidate => scheme.flows?.[candidate]);
+        const session = sessions[name];
+        return (
+          <div key={name} className="auth-scheme">
+            <div className="auth-scheme-title">
+              <span className={`auth-status ${isSchemeConfigured(scheme, credentials[name]) ? 'configured' : ''}`} />
+              <strong>{name}</strong>
+              <span className="auth-scheme-type">{describeScheme(scheme)}</span>
+            </div>
+            {scheme.description && <div className="auth-scheme-description">{scheme.description}</div>}
+            <div className="auth-scheme-fields">
+              {scheme.type === 'apiKey' && field(name, 'value', 'API key', true)}
+              {scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic' && (
+                <>
+                  {field(name, 'username', 'Username')}
+                  {field(name, 'password', 'Password', true)}
+                </>
+              )}
+              {scheme.type === 'http' && String(scheme.scheme).toLowerCase() !== 'basic' && field(name, 'token', 'Token', true)}
+              {supportedFlows.length > 1 && (
+                <select
+                  value={flowName}
+                  onChange={(e) => onChange(name, { ...credentials[name], flow: e.target.value as OAuth2Flow })}
+                  className="locale-select"
+                >
+                  <option value="clientCredentials">Client credentials</option>
+                  <option value="authorizationCode">Authorization code (PKCE)</option>
+                </select>
+              )}
+              {flow && (
+                <>
+                  {field(name, 'clientId', 'Client ID')}
+                  {field(name, 'clientSecret', flowName === 'authorizationCode' ? 'Client secret (optional)' : 'Client secret', true)}
+                  {field(name, 'scope', `Scopes (${Object.keys(flow.scopes || {}).join(' ') || 'none declared'})`)}
+                  <select
+                    value={credentials[name]?.clientAuthentication || 'header'}
+                    onChange={(e) => onChange(name, { ...credentials[name], clientAuthentication: e.target.value as 'header' | 'body' })}
+                    className="locale-select"
+                    title="How the client authenticates to the token endpoint"
+                  >
+                    <option value="header">Basic auth header</option>
+                    <option value="body">Credentials in body</option>
+                  </select>
+                </>
+              )}
+              {(scheme.type === 'oauth2' || scheme.type === 'openIdConnect') &&
+                field(name, 'token', flow ? 'Access token (optional, skips the token request)' : 'Access token', true)}
+            </div>
+            {flowName === 'authorizationCode' && (
+              <div className="auth-sign-in">
+                <button
+                  onClick={() => onSignIn(name)}
+                  disabled={!credentials[name]?.clientId || session?.pending}
+                  className="add-header-btn"
+                >
+                  {session?.pending ? 'Waiting for browser...' : 'Sign In'}
+                </button>
+                <span className={session?.error ? 'auth-sign-in-error' : ''}>
+                  {session?.error
+                    ? session.error
+                    : session?.expiresAt !== undefined
+                      ? `Signed in${session.expiresAt > 0 ? `, token expires ${new Date(session.expiresAt).toLocaleTimeString()}` : ''}`
+                      : 'Operations using this scheme sign in through the browser when no token is cached'}
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 interface Parameter {
   name: string;
   in: string;
@@ -79,17 +342,1119 @@ interface Operation {
   path: string;
   summary?: string;
   description?: string;
+  tags?: string[];
   parameters?: Parameter[];
   requestBody?: any;
+  responses?: any;
+  servers?: Server[]; // Path- or operation-level servers overriding the spec's servers
+  security?: Array<Record<string, string[]>>; // Operation-level security; the spec-level one applies when absent
+  webhook?: boolean; // OpenAPI 3.1 webhook: the API calls us, so the payload is sent to a user-supplied callback URL
+}
+
+interface ResponseTimings {
+  dns: number;
+  connect: number;
+  tls: number;
+  firstByte: number;
+  total: number;
+}
+
+interface RedirectHop {
+  url: string;
+  method: string;
+  statusCode: number;
+  statusText: string;
+  location: string;
+}
+
+interface SchemaViolation {
+  pointer: string;
+  keyword: string;
+  message: string;
+}
+
+interface ResponseValidation {
+  valid: boolean;
+  statusKey?: string;
+  mediaType?: string;
+  skipped?: string;
+  violations: SchemaViolation[];
 }
 
 interface TestResult {
   operationId: string;
   result?: string;
   status?: number;
+  statusText?: string;
+  headers?: Record<string, string | string[]>;
+  contentType?: string;
+  size?: number;
+  timings?: ResponseTimings;
+  finalUrl?: string;
+  redirects?: RedirectHop[];
+  error?: string;
+  pending?: boolean;
+  state?: 'timeout' | 'cancelled';
+  validation?: ResponseValidation;
+  extracted?: ExtractedValue[];
+  assertions?: AssertionResult[];
+  snapshot?: SnapshotResult;
+  previousResult?: string; // Response of the run before this one, for the Diff tab
+}
+
+// Mirrors src/responseDiff.ts
+interface JsonDifference {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+interface ResponseDiff {
+  format: 'json' | 'text';
+  equal: boolean;
+  differences: JsonDifference[];
+  lines: Array<{ kind: 'same' | 'added' | 'removed', text: string }>;
+}
+
+type DiffSource = 'saved' | 'previous' | 'history';
+
+// The response shown last for an operation, carried through pending and failed runs
+const lastResponse = (result?: TestResult): string | undefined => result?.result ?? result?.previousResult;
+
+interface ExtractionRule {
+  variable: string;
+  source: 'jsonPath' | 'header' | 'regex';
+  expression: string;
+  target: 'session' | 'environment';
+}
+
+interface ExtractedValue {
+  variable: string;
+  target: 'session' | 'environment';
+  value?: string;
+  error?: string;
+}
+
+interface ExtractionRulesEditorProps {
+  rules: ExtractionRule[];
+  onChange: (rules: ExtractionRule[]) => void;
+  extracted?: ExtractedValue[]; // Outcome of the last response, shown next to each rule
+}
+
+const EXPRESSION_PLACEHOLDERS: Record<ExtractionRule['source'], string> = {
+  jsonPath: '$.data.id',
+  header: 'Location',
+  regex: 'id=(\\d+)'
+};
+
+const ExtractionRulesEditor: React.FC<ExtractionRulesEditorProps> = ({ rules, onChange, extracted }) => {
+  const updateRule = (index: number, changes: Partial<ExtractionRule>) => {
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  return (
+    <div className="headers-editor">
+      <div className="headers-list">
+        {rules.map((rule, index) => {
+          const outcome = extracted?.find(value => value.variable === rule.variable.trim());
+          return (
+            <div key={index} className="extraction-rule">
+              <div className="header-entry">
+                <input
+                  type="text"
+                  placeholder="Variable name"
+                  value={rule.variable}
+                  onChange={(e) => updateRule(index, { variable: e.target.value })}
+                  className="header-input extraction-variable"
+                />
+                <select
+                  value={rule.source}
+                  onChange={(e) => updateRule(index, { source: e.target.value as ExtractionRule['source'] })}
+                  className="locale-select extraction-select"
+                >
+                  <option value="jsonPath">JSONPath</option>
+                  <option value="header">Header</option>
+                  <option value="regex">Regex</option>
+                </select>
+                <input
+                  type="text"
+                  placeholder={EXPRESSION_PLACEHOLDERS[rule.source]}
+                  value={rule.expression}
+                  onChange={(e) => updateRule(index, { expression: e.target.value })}
+                  className="header-input header-value"
+                />
+                <select
+                  value={rule.target}
+                  onChange={(e) => updateRule(index, { target: e.target.value as ExtractionRule['target'] })}
+                  className="locale-select extraction-select"
+                  title="Session variables last until the panel is closed; environment variables are saved to the active environment"
+                >
+                  <option value="session">Session</option>
+                  <option value="environment">Environment</option>
+                </select>
+                <button
+                  onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                  className="header-remove-btn"
+                  title="Remove rule"
+                >
+                  ×
+                </button>
+              </div>
+              {outcome && (
+                <div className={`extraction-outcome ${outcome.error ? 'failed' : ''}`}>
+                  {outcome.error ? outcome.error : `{{${outcome.variable}}} = ${outcome.value}`}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => onChange([...rules, { variable: '', source: 'jsonPath', expression: '', target: 'session' }])}
+        className="add-header-btn"
+      >
+        + Add Rule
+      </button>
+    </div>
+  );
+};
+
+// Mirrors src/assertions.ts
+interface Assertion {
+  type: 'status' | 'jsonPath' | 'header' | 'responseTime' | 'schema';
+  target?: string;
+  operator?: 'equals' | 'contains' | 'matches' | 'exists' | 'present';
+  expected?: string;
+}
+
+interface AssertionResult {
+  assertion: Assertion;
+  passed: boolean;
+  message: string;
+}
+
+interface AssertionsEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+  results?: AssertionResult[];
+}
+
+const EXPECTED_PLACEHOLDERS: Record<Assertion['type'], string> = {
+  status: '200, 2XX or 200-299',
+  jsonPath: 'Expected value',
+  header: 'Expected value',
+  responseTime: 'Maximum ms',
+  schema: 'Inline JSON Schema (optional; defaults to the response schema)'
+};
+
+const ASSERTION_OPERATORS: Partial<Record<Assertion['type'], Array<NonNullable<Assertion['operator']>>>> = {
+  jsonPath: ['equals', 'contains', 'matches', 'exists'],
+  header: ['present', 'equals']
+};
+
+const AssertionsEditor: React.FC<AssertionsEditorProps> = ({ assertions, onChange, results }) => {
+  const updateAssertion = (index: number, changes: Partial<Assertion>) => {
+    onChange(assertions.map((assertion, i) => i === index ? { ...assertion, ...changes } : assertion));
+  };
+
+  const changeType = (index: number, type: Assertion['type']) => {
+    updateAssertion(index, { type, target: undefined, operator: ASSERTION_OPERATORS[type]?.[0], expected: undefined });
+  };
+
+  return (
+    <div className="headers-editor">
+      <div className="headers-list">
+        {assertions.map((assertion, index) => {
+          // Results are in the order the assertions had when the request was sent
+          const outcome = results?.[index]?.assertion.type === assertion.type ? results[index] : undefined;
+          const operators = ASSERTION_OPERATORS[assertion.type];
+          const needsExpected = !['exists', 'present'].includes(assertion.operator || '');
+          return (
+            <div key={index} className="extraction-rule">
+              <div className="header-entry">
+                <select
+                  value={assertion.type}
+                  onChange={(e) => changeType(index, e.target.value as Assertion['type'])}
+                  className="locale-select extraction-select"
+                >
+                  <option value="status">Status</option>
+                  <option value="jsonPath">JSONPath</option>
+                  <option value="header">Header</option>
+                  <option value="responseTime">Response time</option>
+                  <option value="schema">Schema</option>
+                </select>
+                {operators && (
+                  <input
+                    type="text"
+                    placeholder={assertion.type === 'jsonPath' ? '$.data.id' : 'Header name'}
+                    value={assertion.target || ''}
+                    onChange={(e) => updateAssertion(index, { target: e.target.value })}
+                    className="header-input extraction-variable"
+                  />
+                )}
+                {operators && (
+                  <select
+                    value={assertion.operator || operators[0]}
+                    onChange={(e) => updateAssertion(index, { operator: e.target.value as Assertion['operator'] })}
+                    className="locale-select extraction-select"
+                  >
+                    {operators.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+                  </select>
+                )}
+                {(!operators || needsExpected) && (
+                  <input
+                    type="text"
+                    placeholder={EXPECTED_PLACEHOLDERS[assertion.type]}
+                    value={assertion.expected || ''}
+                    onChange={(e) => updateAssertion(index, { expected: e.target.value })}
+                    className="header-input header-value"
+                  />
+                )}
+                <button
+                  onClick={() => onChange(assertions.filter((_, i) => i !== index))}
+                  className="header-remove-btn"
+                  title="Remove assertion"
+                >
+                  ×
+                </button>
+              </div>
+              {outcome && (
+                <div className={`extraction-outcome ${outcome.passed ? '' : 'failed'}`}>
+                  {outcome.passed ? '✓' : '✗'} {outcome.message}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => onChange([...assertions, { type: 'status', expected: '2XX' }])}
+        className="add-header-btn"
+      >
+        + Add Assertion
+      </button>
+    </div>
+  );
+};
+
+// Mirrors src/snapshots.ts
+interface ResponseSnapshot {
+  status: number;
+  json?: any;
+  text?: string;
+  ignore?: string[];
+  updatedAt?: string;
+}
+
+interface SnapshotResult {
+  passed: boolean;
+  message: string;
+  diff?: ResponseDiff;
+}
+
+// Same as createSnapshot in src/snapshots.ts
+const takeSnapshot = (status: number, body: string, ignore?: string[]): ResponseSnapshot => {
+  let snapshot: ResponseSnapshot;
+  try {
+    snapshot = { status, json: JSON.parse(body) };
+  } catch {
+    snapshot = { status, text: body };
+  }
+  return { ...snapshot, ...(ignore && ignore.length > 0 ? { ignore } : {}), updatedAt: new Date().toISOString() };
+};
+
+interface SnapshotEditorProps {
+  snapshot?: ResponseSnapshot;
+  result?: TestResult;
+  onChange: (snapshot: ResponseSnapshot | undefined) => void;
+}
+
+// The response later runs must match, and JSONPath rules for the fields they may change
+const SnapshotEditor: React.FC<SnapshotEditorProps> = ({ snapshot, result, onChange }) => {
+  const canTake = result?.status !== undefined && result.result !== undefined && !result.pending;
+  const take = () => onChange(takeSnapshot(result!.status!, result!.result!, snapshot?.ignore));
+  const ignore = snapshot?.ignore || [];
+  const setIgnore = (rules: string[]) => {
+    if (snapshot) {
+      onChange({ ...snapshot, ignore: rules.length > 0 ? rules : undefined });
+    }
+  };
+
+  if (!snapshot) {
+    return (
+      <div className="headers-editor">
+        <div className="snapshot-summary">
+          <span>No snapshot. Send the request, then keep its response as the baseline that later runs are compared with.</span>
+          <button onClick={take} disabled={!canTake} className="add-header-btn">Use Response as Snapshot</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="headers-editor">
+      <div className="snapshot-summary">
+        <span>
+          Status {snapshot.status} · {snapshot.json !== undefined ? 'JSON' : 'text'} body
+          {snapshot.updatedAt && ` · taken ${new Date(snapshot.updatedAt).toLocaleString()}`}
+        </span>
+        <span>
+          <button onClick={take} disabled={!canTake} className="add-header-btn" title="Replace the snapshot with the last response">
+            Accept Response
+          </button>
+          <button onClick={() => onChange(undefined)} className="add-header-btn">
+            Remove Snapshot
+          </button>
+        </span>
+      </div>
+      {result?.snapshot && (
+        <div className={`extraction-outcome ${result.snapshot.passed ? '' : 'failed'}`}>
+          {result.snapshot.passed ? '✓' : '✗'} {result.snapshot.message}
+        </div>
+      )}
+      <div className="headers-list">
+        {ignore.map((rule, index) => (
+          <div key={index} className="header-entry">
+            <input
+              type="text"
+              placeholder="$..updatedAt"
+              value={rule}
+              onChange={(e) => setIgnore(ignore.map((item, i) => i === index ? e.target.value : item))}
+              className="header-input header-value"
+              title="JSONPath of response fields to leave out of the comparison, e.g. timestamps, generated ids or ETags"
+            />
+            <button
+              onClick={() => setIgnore(ignore.filter((_, i) => i !== index))}
+              className="header-remove-btn"
+              title="Remove ignore rule"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={() => setIgnore([...ignore, ''])} className="add-header-btn">
+        + Add Ignore Rule
+      </button>
+    </div>
+  );
+};
+
+// Mirrors the collection format in src/collectionRunner.ts
+interface CollectionStep {
+  id: string;
+  name: string;
+  operation?: { method: string, path: string };
+  method: string;
+  url: string;
+  headers: HeaderEntry[];
+  body?: string;
+  variables?: HeaderEntry[];
+  security?: Array<Record<string, string[]>>;
+  extractionRules?: ExtractionRule[];
+  assertions?: Assertion[];
+  snapshot?: ResponseSnapshot;
+  timeout?: number;
+}
+
+interface Collection {
+  format: 'spekai-collection';
+  version: 1;
+  name: string;
+  baseUrl: string;
+  openApiSpecUrl?: string;
+  environment?: string;
+  mode: 'sequential' | 'parallel';
+  stopOnFailure: boolean;
+  headers: HeaderEntry[];
+  securitySchemes?: Record<string, any>;
+  credentials?: Record<string, SchemeCredentials>;
+  steps: CollectionStep[];
+}
+
+interface StepResult {
+  stepId: string;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  start: number;
+  duration: number;
+  method: string;
+  url: string;
+  response?: { statusCode: number, statusText: string, headers: Record<string, string | string[]>, body: string, contentType: string, size: number };
+  error?: string;
+  extracted?: ExtractedValue[];
+  assertions?: AssertionResult[];
+}
+
+interface CollectionRun {
+  running: boolean;
+  activeSteps: string[];
+  results: Record<string, StepResult>;
+  duration?: number;
+  error?: string;
+}
+
+const newCollection = (): Collection => ({
+  format: 'spekai-collection',
+  version: 1,
+  name: 'New Collection',
+  baseUrl: '',
+  mode: 'sequential',
+  stopOnFailure: true,
+  headers: [],
+  steps: []
+});
+
+// Percent-encodes a value but keeps {{variable}} placeholders intact for the runner to resolve. Mirrors src/variables.ts
+const encodeTemplate = (value: string): string =>
+  value.split(/(\{\{\s*[\w.-]+\s*\}\})/).map((part, index) => index % 2 === 1 ? part : encodeURIComponent(part)).join('');
+
+interface CollectionPanelProps {
+  collection: Collection;
+  onChange: (collection: Collection) => void;
+  environments: string[];
+  run: CollectionRun | null;
+  onRun: () => void;
+  onCancel: () => void;
+  onSave: () => void;
+  onLoad: () => void;
+  onImport: () => void;
+  onOpenStep: (step: CollectionStep) => void;
+  onExportReport: () => void;
+}
+
+const CollectionPanel: React.FC<CollectionPanelProps> = ({ collection, onChange, environments, run, onRun, onCancel, onSave, onLoad, onImport, onOpenStep, onExportReport }) => {
+  const [expandedStep, setExpandedStep] = useState<string | null>(null);
+
+  const updateStep = (id: string, changes: Partial<CollectionStep>) => {
+    onChange({ ...collection, steps: collection.steps.map(step => step.id === id ? { ...step, ...changes } : step) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...collection.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    onChange({ ...collection, steps });
+  };
+
+  const results = run ? collection.steps.map(step => run.results[step.id]).filter(Boolean) : [];
+  const total = Math.max(run?.duration || 0, ...results.map(result => result.start + result.duration), 1);
+
+  return (
+    <div className="collection-panel">
+      <div className="collection-settings">
+        <input
+          type="text"
+          value={collection.name}
+          onChange={(e) => onChange({ ...collection, name: e.target.value })}
+          placeholder="Collection name"
+          className="url-input collection-name"
+        />
+        <input
+          type="text"
+          value={collection.baseUrl}
+          onChange={(e) => onChange({ ...collection, baseUrl: e.target.value })}
+          placeholder="Base URL for relative step URLs, e.g. {{baseUrl}}"
+          className="url-input"
+          style={{ flex: 2 }}
+        />
+        <select
+          value={collection.environment || ''}
+          onChange={(e) => onChange({ ...collection, environment: e.target.value || undefined })}
+          className="locale-select"
+          title="Environment whose variables the run uses"
+        >
+          <option value="">Active environment</option>
+          {environments.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={collection.mode}
+          onChange={(e) => onChange({ ...collection, mode: e.target.value as Collection['mode'] })}
+          className="locale-select"
+          title="Sequential runs pass extracted variables from step to step; parallel runs send every step at once"
+        >
+          <option value="sequential">Sequential</option>
+          <option value="parallel">Parallel</option>
+        </select>
+        <label className="collection-checkbox">
+          <input
+            type="checkbox"
+            checked={collection.stopOnFailure}
+            onChange={(e) => onChange({ ...collection, stopOnFailure: e.target.checked })}
+          />
+          Stop on failure
+        </label>
+      </div>
+
+      {collection.steps.length === 0 ? (
+        <div className="collection-empty">
+          Use "Add to Collection" on an operation or in manual testing to add steps.
+        </div>
+      ) : (
+        <div className="collection-steps">
+          {collection.steps.map((step, index) => {
+            const result = run?.results[step.id];
+            const status = run?.activeSteps.includes(step.id) ? 'running' : result?.status;
+            return (
+              <div key={step.id} className="collection-step">
+                <div className="collection-step-header">
+                  <span className={`collection-status ${status || ''}`}>{index + 1}</span>
+                  <span className={`operation-method method-${step.method.toLowerCase()}`}>{step.method}</span>
+                  <span className="collection-step-name" onClick={() => setExpandedStep(expandedStep === step.id ? null : step.id)}>
+                    {step.name}
+                  </span>
+                  <button onClick={() => onOpenStep(step)} className="header-remove-btn" title="Open in Manual API Testing">↗</button>
+                  <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="header-remove-btn" title="Move up">↑</button>
+                  <button onClick={() => moveStep(index, 1)} disabled={index === collection.steps.length - 1} className="header-remove-btn" title="Move down">↓</button>
+                  <button
+                    onClick={() => onChange({ ...collection, steps: collection.steps.filter(item => item.id !== step.id) })}
+                    className="header-remove-btn"
+                    title="Remove step"
+                  >
+                    ×
+                  </button>
+                </div>
+                {expandedStep === step.id && (
+                  <div className="collection-step-details">
+                    <div className="header-entry">
+                      <input
+                        type="text"
+                        value={step.name}
+                        onChange={(e) => updateStep(step.id, { name: e.target.value })}
+                        placeholder="Step name"
+                        className="header-input"
+                      />
+                      <select
+                        value={step.method}
+                        onChange={(e) => updateStep(step.id, { method: e.target.value })}
+                        className="locale-select extraction-select"
+                      >
+                        {['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'].map(method => <option key={method} value={method}>{method}</option>)}
+                      </select>
+                      <input
+                        type="text"
+                        value={step.url}
+                        onChange={(e) => updateStep(step.id, { url: e.target.value })}
+                        placeholder="/path or absolute URL"
+                        className="header-input header-value"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.timeout ?? ''}
+                        onChange={(e) => updateStep(step.id, { timeout: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                        placeholder="Timeout (ms)"
+                        className="header-input timeout-input"
+                      />
+                    </div>
+                    <h4>Body</h4>
+                    <textarea
+                      className="json-editor collection-body"
+                      value={step.body || ''}
+                      onChange={(e) => updateStep(step.id, { body: e.target.value || undefined })}
+                      placeholder="Request body, JSON or text"
+                    />
+                    <h4>Headers</h4>
+                    <HeadersEditor headers={step.headers} onChange={(headers) => updateStep(step.id, { headers })} />
+                    <h4>Variable Overrides</h4>
+                    <HeadersEditor
+                      headers={step.variables || []}
+                      onChange={(variables) => updateStep(step.id, { variables })}
+                      keyPlaceholder="Variable name"
+                      valuePlaceholder="Value for this step"
+                      addLabel="Add Override"
+                    />
+                    <h4>Assertions</h4>
+                    <AssertionsEditor
+                      assertions={step.assertions || []}
+                      onChange={(assertions) => updateStep(step.id, { assertions })}
+                      results={result?.assertions}
+                    />
+                    <h4>Extract Variables</h4>
+                    <ExtractionRulesEditor
+                      rules={step.extractionRules || []}
+                      onChange={(extractionRules) => updateStep(step.id, { extractionRules })}
+                      extracted={result?.extracted}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="collection-actions">
+        {run?.running ? (
+          <button onClick={onCancel} className="cancel-request-button">Cancel Run</button>
+        ) : (
+          <button onClick={onRun} disabled={collection.steps.length === 0} className="test-button">Run Collection</button>
+        )}
+        <button onClick={onSave} className="add-header-btn">Save</button>
+        <button onClick={onLoad} className="add-header-btn">Load</button>
+        <button onClick={onImport} className="add-header-btn" title="Import a Postman collection and its environments, an Insomnia export or a HAR capture">Import</button>
+        <button onClick={() => onChange(newCollection())} className="add-header-btn">New</button>
+        {run && !run.running && !run.error && results.length > 0 && (
+          <button onClick={onExportReport} className="add-header-btn" title="Save the last run as JUnit XML, HTML or a JSON summary">Export Report</button>
+        )}
+      </div>
+
+      {run && (results.length > 0 || run.error) && (
+        <div className="collection-timeline">
+          {!run.running && !run.error && (
+            <div className="collection-summary">
+              {results.filter(result => result.status === 'passed').length} passed,{' '}
+              {results.filter(result => result.status === 'failed').length} failed,{' '}
+              {results.filter(result => result.status === 'skipped').length} skipped in {run.duration ?? total} ms
+            </div>
+          )}
+          {run.error && <div className="extraction-outcome failed">{run.error}</div>}
+          {results.map(result => (
+            <div key={result.stepId} className="timeline-row">
+              <span className={`collection-status ${result.status}`}>{result.status === 'passed' ? '✓' : result.status === 'failed' ? '✗' : '–'}</span>
+              <span className="timeline-name" title={`${result.method} ${result.url}`}>{result.name}</span>
+              <span className="timeline-track">
+                <span
+                  className={`timeline-bar ${result.status}`}
+                  style={{ left: `${result.start / total * 100}%`, width: `${Math.max(result.duration / total * 100, 0.5)}%` }}
+                />
+              </span>
+              <span className="timeline-detail">
+                {result.response ? `${result.response.statusCode} · ` : ''}{result.duration} ms
+              </span>
+              {result.error && <span className="timeline-error">{result.error}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// An entry of the request history kept by the extension; full requests and responses are fetched when opened
+interface HistorySummary {
+  id: string;
+  timestamp: string;
+  operationId: string;
+  summary?: string;
+  method: string;
+  url: string;
+  status?: number;
   error?: string;
+  pinned?: boolean;
+  duration?: number;
+}
+
+interface HistoryPanelProps {
+  entries: HistorySummary[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  pinnedOnly: boolean;
+  onPinnedOnlyChange: (pinnedOnly: boolean) => void;
+  onOpen: (entry: HistorySummary) => void;
+  onResend: (entry: HistorySummary) => void;
+  onPin: (entry: HistorySummary, pinned: boolean) => void;
+  onDelete: (entry: HistorySummary) => void;
+  onClear: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, query, onQueryChange, pinnedOnly, onPinnedOnlyChange, onOpen, onResend, onPin, onDelete, onClear }) => (
+  <div className="history-panel">
+    <div className="collection-settings">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        placeholder="Search by method, URL, status, request or response body"
+        className="url-input history-search"
+      />
+      <label className="collection-checkbox">
+        <input type="checkbox" checked={pinnedOnly} onChange={(e) => onPinnedOnlyChange(e.target.checked)} />
+        Pinned only
+      </label>
+      <button onClick={onClear} className="add-header-btn" title="Delete every entry that is not pinned">Clear</button>
+    </div>
+
+    {entries.length === 0 ? (
+      <div className="collection-empty">
+        {query.trim() || pinnedOnly ? 'No requests match.' : 'Requests you send are listed here.'}
+      </div>
+    ) : (
+      <div className="collection-steps history-entries">
+        {entries.map(entry => (
+          <div key={entry.id} className="collection-step-header">
+            <span className={`operation-method method-${entry.method.toLowerCase()}`}>{entry.method}</span>
+            <span className="collection-step-name" title={entry.url} onClick={() => onOpen(entry)}>
+              {entry.summary ? `${entry.summary} · ${entry.url}` : entry.url}
+            </span>
+            <span
+              className={`history-status ${entry.status !== undefined && entry.status < 400 ? 'passed' : 'failed'}`}
+              title={entry.error}
+            >
+              {entry.status ?? 'Error'}
+            </span>
+            <span className="history-meta">
+              {entry.duration !== undefined ? `${Math.round(entry.duration)} ms · ` : ''}{new Date(entry.timestamp).toLocaleString()}
+            </span>
+            <button onClick={() => onOpen(entry)} className="header-remove-btn" title="Open the request and its response">↗</button>
+            <button onClick={() => onResend(entry)} className="header-remove-btn" title="Send again with the current credentials">↻</button>
+            <button onClick={() => onPin(entry, !entry.pinned)} className="header-remove-btn" title={entry.pinned ? 'Unpin' : 'Pin, so it is never dropped from the history'}>
+              {entry.pinned ? '★' : '☆'}
+            </button>
+            <button onClick={() => onDelete(entry)} className="header-remove-btn" title="Delete from history">×</button>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// A oneOf/anyOf in the request body schema where the user can pick which branch to generate
+interface VariantPoint {
+  path: string;
+  labels: string[];
 }
 
+// Merges one allOf part (or a selected oneOf/anyOf branch) into a schema
+const mergeSchemas = (target: any, source: any): any => {
+  if (!source || typeof source !== 'object') return target;
+
+  const merged: any = { ...target, ...source };
+  if (target.properties || source.properties) {
+    merged.properties = { ...(target.properties || {}) };
+    Object.keys(source.properties || {}).forEach(key => {
+      merged.properties[key] = merged.properties[key]
+        ? mergeSchemas(merged.properties[key], source.properties[key])
+        : source.properties[key];
+    });
+  }
+  if (target.required || source.required) {
+    merged.required = Array.from(new Set([...(target.required || []), ...(source.required || [])]));
+  }
+  merged.type = source.type || target.type || (merged.properties ? 'object' : undefined);
+  if (merged.type === undefined) delete merged.type;
+  return merged;
+};
+
+// Maps OpenAPI 3.1 / JSON Schema 2020-12 forms onto the 3.0 forms the example generator understands
+const normalizeSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  const normalized: any = { ...schema };
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type: string) => type !== 'null');
+    normalized.type = types[0] || 'null';
+    if (types.length < schema.type.length) normalized.nullable = true;
+  }
+  if (normalized.example === undefined) {
+    if (schema.const !== undefined) normalized.example = schema.const;
+    else if (Array.isArray(schema.examples) && schema.examples.length > 0) normalized.example = schema.examples[0];
+  }
+  const step = normalized.type === 'integer' ? 1 : 0.01;
+  if (typeof schema.exclusiveMinimum === 'number' && schema.minimum === undefined) normalized.minimum = schema.exclusiveMinimum + step;
+  if (typeof schema.exclusiveMaximum === 'number' && schema.maximum === undefined) normalized.maximum = schema.exclusiveMaximum - step;
+  return normalized;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shows where two responses differ: fields for JSON, with a line view of both documents, or lines for text
+const ResponseDiffView: React.FC<{ diff: ResponseDiff, baseline: string }> = ({ diff, baseline }) => {
+  const [view, setView] = useState<'fields' | 'lines'>('fields');
+  const activeView = diff.format === 'json' ? view : 'lines';
+  const changedLines = diff.lines.filter(line => line.kind !== 'same').length;
+  const formatValue = (value: any) => {
+    const text = JSON.stringify(value);
+    return text.length > 120 ? `${text.substring(0, 120)}…` : text;
+  };
+
+  // Unchanged runs longer than a few lines are folded, keeping three lines of context around each change
+  const context = 3;
+  const visible = diff.lines.map((_line, index) => diff.lines
+    .slice(Math.max(0, index - context), index + context + 1)
+    .some(line => line.kind !== 'same'));
+
+  return (
+    <div className="response-tab-content">
+      <div className="validation-summary">
+        <span>
+          {diff.equal
+            ? `No differences from ${baseline}`
+            : diff.format === 'json'
+              ? `${diff.differences.length} ${diff.differences.length === 1 ? 'field differs' : 'fields differ'} from ${baseline}`
+              : `${changedLines} ${changedLines === 1 ? 'line differs' : 'lines differ'} from ${baseline}`}
+        </span>
+        {diff.format === 'json' && !diff.equal && (
+          <span>
+            <button onClick={() => setView('fields')} className={`response-tab ${activeView === 'fields' ? 'active' : ''}`}>Fields</button>
+            <button onClick={() => setView('lines')} className={`response-tab ${activeView === 'lines' ? 'active' : ''}`}>Lines</button>
+          </span>
+        )}
+      </div>
+      {!diff.equal && activeView === 'fields' && (
+        <table className="headers-table diff-table">
+          <tbody>
+            {diff.differences.map(difference => (
+              <tr key={difference.path} className={`diff-${difference.kind}`}>
+                <td className="headers-table-name"><code>{difference.path}</code></td>
+                <td className="validation-keyword">{difference.kind}</td>
+                <td>
+                  {difference.kind !== 'added' && <span className="diff-before">{formatValue(difference.before)}</span>}
+                  {difference.kind === 'changed' && ' → '}
+                  {difference.kind !== 'removed' && <span className="diff-after">{formatValue(difference.after)}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {!diff.equal && activeView === 'lines' && (
+        <pre className="diff-lines">
+          {diff.lines.map((line, index) => {
+            if (visible[index]) {
+              return (
+                <div key={index} className={`diff-line diff-line-${line.kind}`}>
+                  {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+                </div>
+              );
+            }
+            if (index > 0 && !visible[index - 1]) {
+              return null;
+            }
+            let hidden = 0;
+            while (index + hidden < diff.lines.length && !visible[index + hidden]) hidden++;
+            return <div key={index} className="diff-line diff-line-folded">⋯ {hidden} unchanged line{hidden === 1 ? '' : 's'}</div>;
+          })}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+interface ResponsePanelProps {
+  result?: TestResult;
+  body: string;
+  diff?: { diff: ResponseDiff, baseline: string };
+  hasSavedResponse?: boolean;
+  onCompare?: (source: DiffSource) => void;
+}
+
+const ResponsePanel: React.FC<ResponsePanelProps> = ({ result, body, diff, hasSavedResponse, onCompare }) => {
+  const [selectedTab, setActiveTab] = useState<'body' | 'headers' | 'timing' | 'validation' | 'diff'>('body');
+
+  const headerEntries = Object.entries(result?.headers || {});
+  const redirects = result?.redirects || [];
+  const timings = result?.timings;
+  const validation = result?.validation;
+  const assertions = result?.assertions || [];
+  const failedAssertions = assertions.filter(assertion => !assertion.passed).length;
+  const canCompare = !!onCompare && result?.result !== undefined && !result.pending;
+  const activeTab = (selectedTab === 'validation' && !validation) || (selectedTab === 'diff' && !canCompare) ? 'body' : selectedTab;
+  const tabs = [
+    ...(['body', 'headers', 'timing'] as const),
+    ...(validation ? (['validation'] as const) : []),
+    ...(canCompare ? (['diff'] as const) : [])
+  ];
+  const tabLabel = (tab: typeof tabs[number]) => {
+    switch (tab) {
+      case 'body': return 'Body';
+      case 'headers': return `Headers${headerEntries.length ? ` (${headerEntries.length})` : ''}`;
+      case 'timing': return 'Timing';
+      case 'validation': return `Validation${validation?.violations.length ? ` (${validation.violations.length})` : ''}`;
+      case 'diff': return `Diff${diff && !diff.diff.equal ? ' •' : ''}`;
+    }
+  };
+  const timingPhases: Array<{ label: string, value: number }> = timings ? [
+    { label: 'DNS Lookup', value: timings.dns },
+    { label: 'TCP Connect', value: timings.connect },
+    { label: 'TLS Handshake', value: timings.tls },
+    { label: 'Time to First Byte', value: timings.firstByte },
+    { label: 'Content Download', value: Math.max(0, timings.total - timings.dns - timings.connect - timings.tls - timings.firstByte) }
+  ] : [];
+
+  return (
+    <div className="json-section fill" style={{ marginBottom: 0 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <h3 style={{ margin: 0 }}>Response</h3>
+        {result?.pending && (
+          <span className="response-meta">Sending request...</span>
+        )}
+        {result?.state && (
+          <span className={`response-state response-state-${result.state}`}>
+            {result.state === 'timeout' ? 'Timed out' : 'Cancelled'}
+          </span>
+        )}
+        {result?.status !== undefined && (
+          <span className="response-meta">
+            {result.status} {result.statusText}
+            {result.contentType && ` · ${result.contentType}`}
+            {result.size !== undefined && ` · ${formatBytes(result.size)}`}
+            {timings && ` · ${timings.total.toFixed(0)} ms`}
+            {redirects.length > 0 && ` · ${redirects.length} redirect${redirects.length === 1 ? '' : 's'}`}
+          </span>
+        )}
+        {validation && (
+          <span
+            className={`validation-badge ${validation.valid ? 'validation-badge-valid' : 'validation-badge-invalid'}`}
+            onClick={() => setActiveTab('validation')}
+          >
+            {validation.valid ? '✓ Matches spec' : `✗ ${validation.violations.length} violation${validation.violations.length === 1 ? '' : 's'}`}
+          </span>
+        )}
+        {assertions.length > 0 && (
+          <span
+            className={`validation-badge ${failedAssertions === 0 ? 'validation-badge-valid' : 'validation-badge-invalid'}`}
+            title={assertions.map(assertion => `${assertion.passed ? '✓' : '✗'} ${assertion.message}`).join('\n')}
+          >
+            {failedAssertions === 0
+              ? `✓ ${assertions.length} assertion${assertions.length === 1 ? '' : 's'} passed`
+              : `✗ ${failedAssertions} of ${assertions.length} assertion${assertions.length === 1 ? '' : 's'} failed`}
+          </span>
+        )}
+        {result?.snapshot && (
+          <span
+            className={`validation-badge ${result.snapshot.passed ? 'validation-badge-valid' : 'validation-badge-invalid'}`}
+            title={result.snapshot.message}
+            onClick={() => canCompare && setActiveTab('diff')}
+          >
+            {result.snapshot.passed ? '✓ Matches snapshot' : '✗ Snapshot changed'}
+          </span>
+        )}
+      </div>
+      <div className="response-tabs">
+        {tabs.map(tab => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`response-tab ${activeTab === tab ? 'active' : ''}`}
+          >
+            {tabLabel(tab)}
+          </button>
+        ))}
+      </div>
+      {activeTab === 'body' && (
+        <textarea
+          className="json-editor"
+          value={body}
+          readOnly
+          placeholder="Response will appear here after making a request..."
+        />
+      )}
+      {activeTab === 'headers' && (
+        <div className="response-tab-content">
+          {redirects.length > 0 && (
+            <div className="redirect-chain">
+              <div className="redirect-chain-title">Redirect Chain</div>
+              {redirects.map((hop, index) => (
+                <div key={index} className="redirect-hop">
+                  <span className="redirect-status">{hop.statusCode}</span>
+                  <span>{hop.method} {hop.url}</span>
+                  <span className="redirect-location">→ {hop.location}</span>
+                </div>
+              ))}
+              <div className="redirect-hop">
+                <span className="redirect-status">{result?.status}</span>
+                <span>{result?.finalUrl}</span>
+              </div>
+            </div>
+          )}
+          {headerEntries.length > 0 ? (
+            <table className="headers-table">
+              <tbody>
+                {headerEntries.map(([name, value]) => (
+                  <tr key={name}>
+                    <td className="headers-table-name">{name}</td>
+                    <td>{Array.isArray(value) ? value.join(', ') : value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="response-tab-empty">Response headers will appear here after making a request...</div>
+          )}
+        </div>
+      )}
+      {activeTab === 'timing' && (
+        <div className="response-tab-content">
+          {timings ? (
+            <>
+              {timingPhases.map(phase => (
+                <div key={phase.label} className="timing-row">
+                  <span className="timing-label">{phase.label}</span>
+                  <div className="timing-track">
+                    <div
+                      className="timing-bar"
+                      style={{ width: `${timings.total > 0 ? (phase.value / timings.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="timing-value">{phase.value.toFixed(2)} ms</span>
+                </div>
+              ))}
+              <div className="timing-row timing-total">
+                <span className="timing-label">Total</span>
+                <div className="timing-track" />
+                <span className="timing-value">{timings.total.toFixed(2)} ms</span>
+              </div>
+            </>
+          ) : (
+            <div className="response-tab-empty">Timing breakdown will appear here after making a request...</div>
+          )}
+        </div>
+      )}
+      {activeTab === 'validation' && validation && (
+        <div className="response-tab-content">
+          <div className="validation-summary">
+            {validation.statusKey && <span>Response <code>{validation.statusKey}</code></span>}
+            {validation.mediaType && <span>Media type <code>{validation.mediaType}</code></span>}
+            {validation.skipped && <span className="validation-skipped">{validation.skipped}</span>}
+          </div>
+          {validation.violations.length > 0 ? (
+            <table className="headers-table validation-table">
+              <tbody>
+                {validation.violations.map((violation, index) => (
+                  <tr key={index}>
+                    <td className="headers-table-name"><code>{violation.pointer || '/'}</code></td>
+                    <td className="validation-keyword">{violation.keyword}</td>
+                    <td>{violation.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="response-tab-empty">The response matches the operation's declared responses.</div>
+          )}
+        </div>
+      )}
+      {activeTab === 'diff' && onCompare && (
+        <>
+          <div className="diff-sources">
+            <span>Compare with:</span>
+            <button onClick={() => onCompare('saved')} disabled={!hasSavedResponse} className="add-header-btn" title="The outputJson of the loaded test data file">
+              Saved response
+            </button>
+            <button onClick={() => onCompare('previous')} disabled={result?.previousResult === undefined} className="add-header-btn">
+              Previous run
+            </button>
+            <button onClick={() => onCompare('history')} className="add-header-btn" title="Pick a response from the request history">
+              History entry…
+            </button>
+          </div>
+          {diff ? (
+            <ResponseDiffView diff={diff.diff} baseline={diff.baseline} />
+          ) : (
+            <div className="response-tab-empty">Choose a response to compare this one with. JSON responses are compared field by field, ignoring key order.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
 declare global {
   interface Window {
     acquireVsCodeApi?: () => any;
@@ -158,6 +1523,58 @@ const App: React.FC = () => {
   // Pending test data waiting for spec to load
   const [pendingTestData, setPendingTestData] = useState<any>(null);
 
+  // Per-request timeout overrides in milliseconds, keyed by operation id (empty uses the spekai.requestTimeout setting)
+  const [requestTimeouts, setRequestTimeouts] = useState<Record<string, string>>({});
+  
+  // Selected oneOf/anyOf branch per operation, keyed by data path within the request body (e.g. "$.pet")
+  const [schemaVariants, setSchemaVariants] = useState<Record<string, Record<string, number>>>({});
+
+  // Pre-flight validation errors that stopped the last request, per operation
+  const [requestViolations, setRequestViolations] = useState<Record<string, SchemaViolation[]>>({});
+
+  // Callback URLs that webhook payloads are sent to, per webhook operation
+  const [webhookUrls, setWebhookUrls] = useState<Record<string, string>>({});
+
+  // Credentials entered for the spec's securitySchemes, by scheme name
+  const [authCredentials, setAuthCredentials] = useState<Record<string, SchemeCredentials>>({});
+  const [oauth2Sessions, setOAuth2Sessions] = useState<Record<string, OAuth2Session>>({});
+
+  // Named environments (kept in the spekai.environments setting) and the one whose variables resolve {{name}} placeholders
+  const [environments, setEnvironments] = useState<Record<string, HeaderEntry[]>>({});
+  const [activeEnvironment, setActiveEnvironment] = useState('');
+  const [newEnvironmentName, setNewEnvironmentName] = useState('');
+  const savedEnvironments = useRef<string>('{}'); // Last value written to the setting, to ignore its echo
+  const activeEnvironmentRef = useRef(''); // For the message listener, which only sees the initial state
+
+  // Rules pulling values out of each operation's responses, and the session variables they fill
+  const [extractionRules, setExtractionRules] = useState<Record<string, ExtractionRule[]>>({});
+  const [sessionVariables, setSessionVariables] = useState<Record<string, string>>({});
+
+  // Assertions checked against each operation's responses
+  const [assertions, setAssertions] = useState<Record<string, Assertion[]>>({});
+
+  // Server picked from spec.servers, the server picked per operation with its own servers, and variable values by server URL template
+  const [selectedServer, setSelectedServer] = useState(0);
+  const [operationServers, setOperationServers] = useState<Record<string, number>>({});
+  const [serverVariables, setServerVariables] = useState<Record<string, Record<string, string>>>({});
+
+  // Collection of steps built from operations and manual requests, and the state of its current or last run
+  const [collection, setCollection] = useState<Collection>(newCollection);
+  const [collectionRun, setCollectionRun] = useState<CollectionRun | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<HistorySummary[]>([]);
+  const [savedResponses, setSavedResponses] = useState<Record<string, string>>({}); // outputJson of loaded test data, by operation id
+  const [responseDiffs, setResponseDiffs] = useState<Record<string, { diff: ResponseDiff, baseline: string }>>({});
+  const [snapshots, setSnapshots] = useState<Record<string, ResponseSnapshot>>({}); // Expected responses, by operation id
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [historyPinnedOnly, setHistoryPinnedOnly] = useState(false);
+
+  // Requests in flight, keyed by operation id; the request id tells their messages from those of superseded requests
+  const pendingRequests = useRef<Record<string, { requestId: string, controller: AbortController }>>({});
+
+  // Messages without a request id, such as history entries being opened, always apply
+  const isCurrentRequest = (message: { operationId: string, requestId?: string }) =>
+    !message.requestId || pendingRequests.current[message.operationId]?.requestId === message.requestId;
+
   // Auto-enable fallback mode when error conditions are met
   useEffect(() => {
     if (error && operations.length === 0 && url.trim() && !fallbackMode) {
@@ -168,6 +1585,41 @@ const App: React.FC = () => {
     }
   }, [error, operations.length, url, fallbackMode, baseApiUrl]);
 
+  useEffect(() => {
+    activeEnvironmentRef.current = activeEnvironment;
+  }, [activeEnvironment]);
+
+  // Only uses setters and refs, so it is safe to call from the message listener
+  const storeExtractedValues = (extracted: ExtractedValue[]) => {
+    const values = extracted.filter(item => item.value !== undefined);
+    const environment = activeEnvironmentRef.current;
+    // Environment targets fall back to the session when no environment is active
+    const toEnvironment = environment ? values.filter(item => item.target === 'environment') : [];
+    const toSession = values.filter(item => !toEnvironment.includes(item));
+
+    if (toSession.length > 0) {
+      setSessionVariables(prev => ({ ...prev, ...Object.fromEntries(toSession.map(item => [item.variable, item.value!])) }));
+    }
+    if (toEnvironment.length > 0) {
+      setEnvironments(prev => {
+        if (!prev[environment]) return prev;
+        const entries = [...prev[environment]];
+        toEnvironment.forEach(item => {
+          const index = entries.findIndex(entry => entry.key.trim() === item.variable);
+          if (index >= 0) {
+            entries[index] = { ...entries[index], value: item.value! };
+          } else {
+            entries.push({ key: item.variable, value: item.value! });
+          }
+        });
+        return { ...prev, [environment]: entries };
+      });
+      // An extracted environment value supersedes a stale session value of the same name
+      setSessionVariables(prev => Object.fromEntries(Object.entries(prev)
+        .filter(([name]) => !toEnvironment.some(item => item.variable === name))));
+    }
+  };
+
   useEffect(() => {
     if (window.acquireVsCodeApi) {
       const vscodeApi = window.acquireVsCodeApi();
@@ -183,7 +1635,14 @@ const App: React.FC = () => {
         setSelectedOperation(previousState.selectedOperation || null);
         setParameterValues(previousState.parameterValues || {});
         setRequestBodies(previousState.requestBodies || {});
-        setTestResults(previousState.testResults || {});
+        // Requests in flight when the webview was torn down will never report back
+        const restoredResults: Record<string, TestResult> = previousState.testResults || {};
+        Object.keys(restoredResults).forEach(operationId => {
+          if (restoredResults[operationId].pending) {
+            restoredResults[operationId] = { operationId, error: 'Request interrupted', state: 'cancelled' };
+          }
+        });
+        setTestResults(restoredResults);
         setSelectedLocale(previousState.selectedLocale || 'en-US');
         setLlmGeneratedJson(previousState.llmGeneratedJson || {});
         setLlmProvider(previousState.llmProvider || {});
@@ -200,31 +1659,188 @@ const App: React.FC = () => {
         setClientCertPassphrase(previousState.clientCertPassphrase || '');
         setCaCertPath(previousState.caCertPath || '');
         setOpenApiSpec(previousState.openApiSpec || null);
+        setRequestTimeouts(previousState.requestTimeouts || {});
+        setSchemaVariants(previousState.schemaVariants || {});
+        setWebhookUrls(previousState.webhookUrls || {});
+        setAuthCredentials(previousState.authCredentials || {});
+        setSelectedServer(previousState.selectedServer || 0);
+        setOperationServers(previousState.operationServers || {});
+        setServerVariables(previousState.serverVariables || {});
+        setActiveEnvironment(previousState.activeEnvironment || '');
+        setExtractionRules(previousState.extractionRules || {});
+        setAssertions(previousState.assertions || {});
+        setSavedResponses(previousState.savedResponses || {});
+        setSnapshots(previousState.snapshots || {});
+        setSessionVariables(previousState.sessionVariables || {});
+        setCollection(previousState.collection || newCollection());
       }
 
+      vscodeApi.postMessage({ command: 'getEnvironments' });
+
       const handleMessage = (event: MessageEvent) => {
         const message = event.data;
         switch (message.command) {
           case 'openApiSpecLoaded':
             setError(null); // Clear errors when spec loads successfully
+            if (message.circularRefs && message.circularRefs.length > 0) {
+              console.log('SpekAi: circular references in spec:', message.circularRefs);
+            }
             handleOpenApiSpecLoaded(message.spec, message.specUrl);
             break;
           case 'operationTestResult':
+            if (!isCurrentRequest(message)) break;
+            delete pendingRequests.current[message.operationId];
             setTestResults(prev => ({
               ...prev,
               [message.operationId]: {
                 operationId: message.operationId,
                 result: message.result,
-                status: message.status
+                status: message.status,
+                statusText: message.statusText,
+                headers: message.headers,
+                contentType: message.contentType,
+                size: message.size,
+                timings: message.timings,
+                finalUrl: message.finalUrl,
+                redirects: message.redirects,
+                validation: message.validation,
+                extracted: message.extracted,
+                assertions: message.assertions,
+                snapshot: message.snapshot,
+                previousResult: lastResponse(prev[message.operationId])
               }
             }));
+            // A diff against the response this one replaced is out of date; a snapshot check comes with its own
+            setResponseDiffs(({ [message.operationId]: _stale, ...rest }) => message.snapshot?.diff
+              ? { ...rest, [message.operationId]: { diff: message.snapshot.diff, baseline: 'the snapshot' } }
+              : rest);
+            if (message.extracted) {
+              storeExtractedValues(message.extracted);
+            }
+            break;
+          case 'collectionStepStarted':
+            setCollectionRun(prev => prev && { ...prev, activeSteps: [...prev.activeSteps, message.stepId] });
+            break;
+          case 'collectionStepResult':
+            setCollectionRun(prev => prev && {
+              ...prev,
+              activeSteps: prev.activeSteps.filter(id => id !== message.result.stepId),
+              results: { ...prev.results, [message.result.stepId]: message.result }
+            });
+            break;
+          case 'collectionRunComplete': {
+            const results: StepResult[] = message.result.steps.filter(Boolean);
+            setCollectionRun(prev => ({
+              running: false,
+              activeSteps: [],
+              results: { ...(prev?.results || {}), ...Object.fromEntries(results.map(result => [result.stepId, result])) },
+              duration: message.result.duration
+            }));
+            const extracted = results.flatMap(result => result.extracted || []);
+            if (extracted.length > 0) {
+              storeExtractedValues(extracted);
+            }
+            break;
+          }
+          case 'collectionRunError':
+            setCollectionRun(prev => ({ running: false, activeSteps: [], results: prev?.results || {}, error: message.error }));
+            break;
+          case 'collectionLoaded':
+            setCollection({ ...newCollection(), ...message.collection });
+            setCollectionRun(null);
+            break;
+          case 'requestsImported':
+            setCollection({ ...newCollection(), ...message.collection });
+            setCollectionRun(null);
+            // The environment is written to settings first, so it is in the list by the time it is selected
+            if (message.collection.environment) {
+              setActiveEnvironment(message.collection.environment);
+            }
+            // A single imported request opens straight in Manual API Testing
+            if (message.collection.steps.length === 1) {
+              const [step] = message.collection.steps;
+              setBaseApiUrl(step.url);
+              setFallbackHeaders([...message.collection.headers, ...step.headers]);
+              setFallbackJsonInput(step.body || '');
+              setLastFallbackMethod(step.method.toLowerCase());
+              setFallbackMode(true);
+            }
+            break;
+          case 'curlImported':
+          case 'historyRequestOpened': {
+            const request = message.request;
+            const method = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method) ? request.method : 'GET';
+            setError(null);
+            setBaseApiUrl(request.url);
+            setFallbackHeaders(request.headers);
+            setFallbackJsonInput(request.body || '');
+            setLastFallbackMethod(method.toLowerCase());
+            setRequestTimeouts(prev => ({ ...prev, fallback: message.timeout ? String(message.timeout) : '' }));
+            if (message.clientCert) {
+              setClientCertEnabled(true);
+              setClientCertPath(message.clientCert.certPath || '');
+              setClientKeyPath(message.clientCert.keyPath || '');
+              setClientCertPassphrase(message.clientCert.passphrase || '');
+              setCaCertPath(message.clientCert.caCertPath || '');
+            }
+            setFallbackMode(true);
+            break;
+          }
+          case 'responseDiff':
+            setResponseDiffs(prev => ({ ...prev, [message.operationId]: { diff: message.diff, baseline: message.baseline } }));
+            break;
+          case 'historyLoaded':
+            setHistoryEntries(message.entries);
+            break;
+          case 'historyRequestSent': {
+            // Tracked like a request sent from the editor so it can be cancelled; the extension supersedes any earlier one itself
+            const { operationId, requestId } = message;
+            const controller = new AbortController();
+            controller.signal.addEventListener('abort', () => {
+              vscodeApi.postMessage({ command: 'cancelApiOperation', operationId, requestId });
+            });
+            pendingRequests.current[operationId] = { requestId, controller };
+            setRequestViolations(prev => ({ ...prev, [operationId]: [] }));
+            setTestResults(prev => ({ ...prev, [operationId]: { operationId, pending: true, previousResult: lastResponse(prev[operationId]) } }));
+            break;
+          }
+          case 'oauth2Authorized':
+            setOAuth2Sessions(prev => ({ ...prev, [message.schemeName]: { expiresAt: message.expiresAt } }));
+            break;
+          case 'oauth2AuthorizationFailed':
+            setOAuth2Sessions(prev => ({ ...prev, [message.schemeName]: { error: message.error } }));
+            break;
+          case 'environmentsLoaded': {
+            // Ignore the change notification for our own write so rows being edited are kept
+            const serialized = JSON.stringify(message.environments || {});
+            if (serialized !== savedEnvironments.current) {
+              savedEnvironments.current = serialized;
+              setEnvironments(Object.fromEntries(Object.entries(message.environments || {})
+                .map(([name, variables]) => [name, toVariableEntries(variables as Record<string, string>)])));
+            }
+            break;
+          }
+          case 'requestValidationFailed':
+            // The request was not sent, so drop its placeholder result
+            if (!isCurrentRequest(message)) break;
+            delete pendingRequests.current[message.operationId];
+            setRequestViolations(prev => ({ ...prev, [message.operationId]: message.violations }));
+            setTestResults(prev => {
+              const { [message.operationId]: _pending, ...rest } = prev;
+              return rest;
+            });
             break;
           case 'operationTestError':
+            // A superseded request fails as cancelled; its error must not replace the pending result of the new one
+            if (!isCurrentRequest(message)) break;
+            delete pendingRequests.current[message.operationId];
             setTestResults(prev => ({
               ...prev,
               [message.operationId]: {
                 operationId: message.operationId,
-                error: message.error
+                error: message.error,
+                state: message.state,
+                previousResult: lastResponse(prev[message.operationId])
               }
             }));
             break;
@@ -274,6 +1890,16 @@ const App: React.FC = () => {
             // Load the test data into the UI
             if (message.testData) {
               const loadedOperation = message.testData.operation;
+
+              // Saved values may reference {{variables}}; switch to the environment they were saved with
+              if (message.testData.environment) {
+                setEnvironments(current => {
+                  if (current[message.testData.environment]) {
+                    setActiveEnvironment(message.testData.environment);
+                  }
+                  return current;
+                });
+              }
               
               // Check if this is fallback mode data
               if (message.testData.fallbackMode || loadedOperation.method === 'FALLBACK') {
@@ -282,6 +1908,10 @@ const App: React.FC = () => {
                 setFallbackMode(true);
                 setFallbackJsonInput(message.testData.inputJson || '{\n  "key": "value"\n}');
                 setFallbackHeaders(message.testData.customHeaders || []);
+                setRequestTimeouts(prev => ({
+                  ...prev,
+                  fallback: message.testData.timeout ? String(message.testData.timeout) : ''
+                }));
 
                 // Update URL field from saved data
                 if (message.testData.savedUrl) {
@@ -305,6 +1935,7 @@ const App: React.FC = () => {
                     ? loadedOperation.id.replace('fallback_', '').toUpperCase()
                     : 'GET';
                   setLastFallbackMethod(savedMethod);
+                  setSavedResponses(prev => ({ ...prev, [`fallback_${savedMethod.toLowerCase()}`]: message.testData.outputJson }));
                   setTestResults(prev => ({
                     ...prev,
                     [`fallback_${savedMethod.toLowerCase()}`]: {
@@ -348,6 +1979,41 @@ const App: React.FC = () => {
                       [matchingOperation.id]: message.testData.inputJson
                     }));
                     
+                    setRequestTimeouts(prev => ({
+                      ...prev,
+                      [matchingOperation.id]: message.testData.timeout ? String(message.testData.timeout) : ''
+                    }));
+
+                    setSchemaVariants(prev => ({
+                      ...prev,
+                      [matchingOperation.id]: message.testData.schemaVariants || {}
+                    }));
+
+                    setExtractionRules(prev => ({
+                      ...prev,
+                      [matchingOperation.id]: message.testData.extractionRules || []
+                    }));
+
+                    setAssertions(prev => ({
+                      ...prev,
+                      [matchingOperation.id]: message.testData.assertions || []
+                    }));
+
+                    setSnapshots(({ [matchingOperation.id]: _previous, ...rest }) => message.testData.snapshot
+                      ? { ...rest, [matchingOperation.id]: message.testData.snapshot }
+                      : rest);
+
+                    if (message.testData.outputJson) {
+                      setSavedResponses(prev => ({ ...prev, [matchingOperation.id]: message.testData.outputJson }));
+                    }
+
+                    if (message.testData.webhookUrl) {
+                      setWebhookUrls(prev => ({
+                        ...prev,
+                        [matchingOperation.id]: message.testData.webhookUrl
+                      }));
+                    }
+
                     // Load custom headers if available
                     if (message.testData.customHeaders) {
                       setCustomHeaders(prev => ({
@@ -459,7 +2125,21 @@ const App: React.FC = () => {
         clientKeyPath,
         clientCertPassphrase,
         caCertPath,
-        openApiSpec
+        openApiSpec,
+        requestTimeouts,
+        schemaVariants,
+        webhookUrls,
+        authCredentials,
+        activeEnvironment,
+        extractionRules,
+        assertions,
+        savedResponses,
+        snapshots,
+        sessionVariables,
+        collection,
+        selectedServer,
+        operationServers,
+        serverVariables
       };
       vscode.setState(currentState);
     }
@@ -467,7 +2147,22 @@ const App: React.FC = () => {
       requestBodies, testResults, selectedLocale, llmGeneratedJson, llmProvider, editableJsonInput,
       customHeaders, globalHeaders, fallbackMode, fallbackJsonInput, fallbackHeaders, 
       lastFallbackMethod, clientCertEnabled, clientCertPath, clientKeyPath, clientCertPassphrase, 
-      caCertPath, openApiSpec]);
+      caCertPath, openApiSpec, requestTimeouts, schemaVariants, webhookUrls, authCredentials, activeEnvironment, extractionRules,
+      assertions, savedResponses, snapshots, sessionVariables, collection, selectedServer, operationServers,
+      serverVariables]);
+
+  // Write environment edits back to the spekai.environments setting once typing pauses
+  useEffect(() => {
+    if (!vscode) return;
+    const serialized = JSON.stringify(Object.fromEntries(Object.entries(environments)
+      .map(([name, entries]) => [name, fromVariableEntries(entries)])));
+    if (serialized === savedEnvironments.current) return;
+    const timer = setTimeout(() => {
+      savedEnvironments.current = serialized;
+      vscode.postMessage({ command: 'saveEnvironments', environments: JSON.parse(serialized) });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [vscode, environments]);
 
   // Trigger spec load when pending test data is set and no operations are loaded
   useEffect(() => {
@@ -498,6 +2193,15 @@ const App: React.FC = () => {
     }
   }, [pendingTestData, vscode, operations.length, loading]);
 
+  // The extension filters the history, so typing in the search box only asks once it pauses
+  useEffect(() => {
+    if (!vscode) return;
+    const timer = setTimeout(() => {
+      vscode.postMessage({ command: 'getHistory', query: historyQuery, pinnedOnly: historyPinnedOnly });
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [vscode, historyQuery, historyPinnedOnly]);
+
   // Apply pending test data once operations are loaded
   useEffect(() => {
     if (pendingTestData && operations.length > 0) {
@@ -513,12 +2217,28 @@ const App: React.FC = () => {
           ...prev,
           [matchingOperation.id]: pendingTestData.inputJson
         }));
+        setRequestTimeouts(prev => ({
+          ...prev,
+          [matchingOperation.id]: pendingTestData.timeout ? String(pendingTestData.timeout) : ''
+        }));
         if (pendingTestData.customHeaders) {
           setCustomHeaders(prev => ({
             ...prev,
             [matchingOperation.id]: pendingTestData.customHeaders
           }));
         }
+        if (pendingTestData.extractionRules) {
+          setExtractionRules(prev => ({ ...prev, [matchingOperation.id]: pendingTestData.extractionRules }));
+        }
+        if (pendingTestData.assertions) {
+          setAssertions(prev => ({ ...prev, [matchingOperation.id]: pendingTestData.assertions }));
+        }
+        if (pendingTestData.snapshot) {
+          setSnapshots(prev => ({ ...prev, [matchingOperation.id]: pendingTestData.snapshot }));
+        }
+        if (pendingTestData.outputJson) {
+          setSavedResponses(prev => ({ ...prev, [matchingOperation.id]: pendingTestData.outputJson }));
+        }
         if (pendingTestData.globalHeaders) {
           setGlobalHeaders(pendingTestData.globalHeaders);
         }
@@ -553,16 +2273,14 @@ const App: React.FC = () => {
       console.log('- spec.servers:', spec.servers);
       console.log('- specUrl:', specUrl);
       
+      // A newly loaded spec starts from its first server with default variable values
+      setSelectedServer(0);
+      setOperationServers({});
+      setServerVariables({});
+      
       if (spec.servers && spec.servers.length > 0) {
-        apiBaseUrl = spec.servers[0].url;
-        console.log('- Using servers[0].url:', apiBaseUrl);
-        
-        // Handle relative URLs in servers
-        if (apiBaseUrl.startsWith('/')) {
-          const specUrlObj = new URL(specUrl);
-          apiBaseUrl = `${specUrlObj.protocol}//${specUrlObj.host}${apiBaseUrl}`;
-          console.log('- Converted relative URL to:', apiBaseUrl);
-        }
+        apiBaseUrl = resolveServerUrl(spec.servers[0], {}, specUrl);
+        console.log('- Using servers[0]:', spec.servers[0].url, '->', apiBaseUrl);
       } else {
         console.log('- No servers found, using fallback extraction');
         // Fallback: try to extract from the spec URL
@@ -602,9 +2320,9 @@ const App: React.FC = () => {
     setBaseApiUrl(apiBaseUrl);
     
     const ops: Operation[] = [];
-    const paths = spec.paths || {};
     
-    Object.keys(paths).forEach(path => {
+    // OpenAPI 3.1 webhooks are path items keyed by name instead of path
+    const collectOperations = (paths: any, webhook: boolean) => Object.keys(paths).forEach(path => {
       const pathItem = paths[path];
       Object.keys(pathItem).forEach(method => {
         if (['get', 'post', 'put', 'delete', 'patch'].includes(method.toLowerCase())) {
@@ -623,22 +2341,79 @@ const App: React.FC = () => {
           console.log('- allParameters:', allParameters);
           
           ops.push({
-            id: `${method.toUpperCase()}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`,
+            id: `${webhook ? 'WEBHOOK_' : ''}${method.toUpperCase()}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`,
             method: method.toUpperCase(),
             path,
             summary: operation.summary,
             description: operation.description,
+            tags: operation.tags,
             parameters: allParameters,
-            requestBody: operation.requestBody
+            requestBody: operation.requestBody,
+            responses: operation.responses,
+            servers: operation.servers || pathItem.servers,
+            security: operation.security,
+            webhook: webhook || undefined
           });
         }
       });
     });
+    collectOperations(spec.paths || {}, false);
+    collectOperations(spec.webhooks || {}, true);
     
     setOperations(ops);
     setSelectedOperation(null);
   };
 
+  // Session variables from extraction rules take precedence over the active environment
+  const getEnvironmentVariables = (): Record<string, string> => ({
+    ...fromVariableEntries(environments[activeEnvironment] || []),
+    ...sessionVariables
+  });
+
+  const resolveVariables = (text: string): string => substituteVariables(text, getEnvironmentVariables());
+
+  // Client certificate settings with environment variables resolved, or undefined when disabled
+  const getClientCert = () => clientCertEnabled ? {
+    enabled: true,
+    certPath: resolveVariables(clientCertPath),
+    keyPath: resolveVariables(clientKeyPath),
+    passphrase: resolveVariables(clientCertPassphrase) || undefined,
+    caCertPath: resolveVariables(caCertPath) || undefined
+  } : undefined;
+
+  const resolveHeaders = (entries: HeaderEntry[]): HeaderEntry[] =>
+    entries.map(header => ({ key: resolveVariables(header.key), value: resolveVariables(header.value) }));
+
+  // The sent headers as typed, with their {{variables}}, for the request history; headers set any other way are kept as sent
+  const headerTemplates = (headers: Record<string, string>, entries: HeaderEntry[]): Record<string, string> => {
+    const templates = { ...headers };
+    entries.forEach(header => {
+      const key = resolveVariables(header.key).trim();
+      if (key && header.value.trim() && resolveVariables(header.value).trim() === headers[key]) {
+        templates[key] = header.value.trim();
+      }
+    });
+    return templates;
+  };
+
+  const handleAddEnvironment = () => {
+    const name = newEnvironmentName.trim();
+    if (!name || environments[name]) return;
+    // A new environment starts with the variable names of the active one, so only values need filling in
+    const template = (environments[activeEnvironment] || []).map(entry => ({ key: entry.key, value: '' }));
+    setEnvironments(prev => ({ ...prev, [name]: template }));
+    setActiveEnvironment(name);
+    setNewEnvironmentName('');
+  };
+
+  const handleDeleteEnvironment = () => {
+    setEnvironments(prev => {
+      const { [activeEnvironment]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setActiveEnvironment('');
+  };
+
   const handleLoadSpec = () => {
     if (!url.trim()) {
       setError('Please enter a valid URL');
@@ -652,22 +2427,13 @@ const App: React.FC = () => {
     setOpenApiSpec(null);
     setFallbackMode(false);
     setFallbackResponse('');
-    
-    // Prepare client certificate data if enabled
-    const clientCert = clientCertEnabled ? {
-      enabled: true,
-      certPath: clientCertPath,
-      keyPath: clientKeyPath,
-      passphrase: clientCertPassphrase || undefined,
-      caCertPath: caCertPath || undefined
-    } : undefined;
 
     if (vscode) {
       vscode.postMessage({
         command: 'fetchOpenApiSpec',
-        url: url.trim(),
-        clientCert,
-        globalHeaders: globalHeaders
+        url: resolveVariables(url.trim()),
+        clientCert: getClientCert(),
+        globalHeaders: resolveHeaders(globalHeaders)
       });
     } else {
       setError('VSCode API not available');
@@ -692,18 +2458,38 @@ const App: React.FC = () => {
     }));
   };
 
-  const handleTestOperation = (operation: Operation) => {
-    if (!vscode) {
-      setError('VSCode API not available');
+  const handleServerSelect = (index: number) => {
+    setSelectedServer(index);
+    const server = openApiSpec.servers[index];
+    setBaseApiUrl(resolveServerUrl(server, serverVariables[server.url], openApiSpecUrl));
+  };
+
+  const handleServerVariableChange = (serverUrl: string, name: string, value: string) => {
+    const values = { ...(serverVariables[serverUrl] || {}), [name]: value };
+    setServerVariables(prev => ({ ...prev, [serverUrl]: values }));
+
+    // Keep the base URL in sync when the edited server is the spec-level one in use
+    const server = openApiSpec?.servers?.[selectedServer];
+    if (server && server.url === serverUrl) {
+      setBaseApiUrl(resolveServerUrl(server, values, openApiSpecUrl));
+    }
+  };
+
+  // The request handleTestOperation sends for an operation; undefined, with the error shown, when it cannot be built
+  const buildTestRequest = (operation: Operation, skipValidation: boolean = false) => {
+    if (operation.webhook && !webhookUrls[operation.id]?.trim()) {
+      setError('Enter a callback URL to send the webhook payload to');
       return;
     }
 
-    if (!baseApiUrl) {
+    if (!baseApiUrl && !operation.webhook) {
       setError('Base API URL not available');
       return;
     }
 
-    const params = parameterValues[operation.id] || {};
+    // Environment variables are resolved in every part of the request; the edited values keep their {{placeholders}}
+    const params = Object.fromEntries(Object.entries(parameterValues[operation.id] || {})
+      .map(([name, value]) => [name, typeof value === 'string' ? resolveVariables(value) : value]));
     
     console.log('Parameter Debug:');
     console.log('- parameterValues[operation.id]:', params);
@@ -716,13 +2502,25 @@ const App: React.FC = () => {
       console.log('- baseApiUrl:', baseApiUrl);
       console.log('- operation.path:', operation.path);
       
-      // Normalize the base URL and path
-      const normalizedBase = baseApiUrl.endsWith('/') ? baseApiUrl.slice(0, -1) : baseApiUrl;
-      const normalizedPath = operation.path.startsWith('/') ? operation.path : '/' + operation.path;
-      testUrl = normalizedBase + normalizedPath;
-      
-      console.log('- normalizedBase:', normalizedBase);
-      console.log('- normalizedPath:', normalizedPath);
+      if (operation.webhook) {
+        // Webhooks are keyed by name, not path; the payload goes straight to the callback URL
+        testUrl = resolveVariables(webhookUrls[operation.id].trim());
+      } else {
+        // Path- and operation-level servers override the spec-level server
+        let operationBase = resolveVariables(baseApiUrl);
+        if (operation.servers && operation.servers.length > 0) {
+          const server = operation.servers[operationServers[operation.id] || 0] || operation.servers[0];
+          operationBase = resolveVariables(resolveServerUrl(server, serverVariables[server.url], openApiSpecUrl));
+        }
+        
+        // Normalize the base URL and path
+        const normalizedBase = operationBase.endsWith('/') ? operationBase.slice(0, -1) : operationBase;
+        const normalizedPath = operation.path.startsWith('/') ? operation.path : '/' + operation.path;
+        testUrl = normalizedBase + normalizedPath;
+        
+        console.log('- normalizedBase:', normalizedBase);
+        console.log('- normalizedPath:', normalizedPath);
+      }
       console.log('- testUrl:', testUrl);
       
       // Validate the URL construction
@@ -738,14 +2536,14 @@ const App: React.FC = () => {
     const queryParams: string[] = [];
 
     // Add global headers first
-    globalHeaders.forEach(header => {
+    resolveHeaders(globalHeaders).forEach(header => {
       if (header.key.trim() && header.value.trim()) {
         headers[header.key.trim()] = header.value.trim();
       }
     });
 
     // Add custom headers (operation-specific headers can override global headers)
-    const operationCustomHeaders = customHeaders[operation.id] || [];
+    const operationCustomHeaders = resolveHeaders(customHeaders[operation.id] || []);
     operationCustomHeaders.forEach(header => {
       if (header.key.trim() && header.value.trim()) {
         headers[header.key.trim()] = header.value.trim();
@@ -756,7 +2554,7 @@ const App: React.FC = () => {
       const value = params[param.name];
       console.log(`Parameter replacement: ${param.name} (${param.in}) = "${value}"`);
       
-      if (value) {
+      if (value !== undefined && value !== null && value !== '') {
         if (param.in === 'path') {
           console.log(`Replacing {${param.name}} with ${value} in URL: ${testUrl}`);
           testUrl = testUrl.replace(`{${param.name}}`, encodeURIComponent(value));
@@ -782,7 +2580,7 @@ const App: React.FC = () => {
       try {
         // Get the current value from the JSON editor (this is what the user sees/edits)
         const jsonEditorValue = getCurrentJsonInput(operation);
-        const inputData = JSON.parse(jsonEditorValue);
+        const inputData = substituteInJson(JSON.parse(jsonEditorValue), getEnvironmentVariables());
         
         // Check if inputData has a requestBody property or if inputData itself is the request body
         if (inputData.requestBody !== undefined && typeof inputData.requestBody === 'object') {
@@ -800,42 +2598,281 @@ const App: React.FC = () => {
       }
     }
 
+    const clientCert = getClientCert();
+
+    // The request as typed, with its {{variables}}, for the request history; a step URL is relative unless the operation has its own servers
+    const template = buildCollectionStep(operation);
+    const urlTemplate = operation.webhook || operation.servers?.length ? template.url : baseApiUrl.replace(/\/$/, '') + template.url;
+
+    return {
+      id: operation.id,
+      summary: operation.summary,
+      url: testUrl,
+      urlTemplate,
+      method: operation.method,
+      headers,
+      headerTemplates: headerTemplates(headers, [
+        ...globalHeaders,
+        ...(customHeaders[operation.id] || []),
+        ...(operation.parameters || []).filter(param => param.in === 'header')
+          .map(param => ({ key: param.name, value: String(parameterValues[operation.id]?.[param.name] ?? '') }))
+      ]),
+      body: requestBody,
+      bodyTemplate: template.body !== undefined && requestBody !== undefined ? JSON.parse(template.body) : undefined,
+      clientCert,
+      timeout: parseTimeout(requestTimeouts[operation.id]),
+      responses: operation.responses,
+      security: getSecurityContext(operation),
+      extractionRules: extractionRules[operation.id],
+      assertions: assertions[operation.id],
+      snapshot: snapshots[operation.id],
+      validation: {
+        parameters: operation.parameters,
+        parameterValues: params,
+        requestBody: operation.requestBody
+      },
+      skipValidation
+    };
+  };
 
-    // Prepare client certificate data if enabled
-    const clientCert = clientCertEnabled ? {
-      enabled: true,
-      certPath: clientCertPath,
-      keyPath: clientKeyPath,
-      passphrase: clientCertPassphrase || undefined,
-      caCertPath: caCertPath || undefined
-    } : undefined;
+  const handleTestOperation = (operation: Operation, skipValidation: boolean = false) => {
+    if (!vscode) {
+      setError('VSCode API not available');
+      return;
+    }
 
-    vscode.postMessage({
-      command: 'testApiOperation',
-      operation: {
-        id: operation.id,
-        url: testUrl,
-        method: operation.method,
-        headers,
-        body: requestBody,
-        clientCert
+    const request = buildTestRequest(operation, skipValidation);
+    if (!request) {
+      return;
+    }
+    const requestId = trackRequest(operation.id);
+    vscode.postMessage({ command: 'testApiOperation', operation: { ...request, requestId } });
+
+    setRequestViolations(prev => ({ ...prev, [operation.id]: [] }));
+    setTestResults(prev => ({
+      ...prev,
+      [operation.id]: { operationId: operation.id, pending: true, previousResult: lastResponse(prev[operation.id]) }
+    }));
+  };
+
+  // Builds a collection step from the operation's current inputs; {{placeholders}} are kept for the runner to resolve
+  const buildCollectionStep = (operation: Operation): CollectionStep => {
+    const params = parameterValues[operation.id] || {};
+    let url: string;
+    if (operation.webhook) {
+      url = (webhookUrls[operation.id] || '').trim();
+    } else {
+      // Steps of operations with their own servers are absolute; the rest are relative to the collection's base URL
+      let base = '';
+      if (operation.servers && operation.servers.length > 0) {
+        const server = operation.servers[operationServers[operation.id] || 0] || operation.servers[0];
+        base = resolveServerUrl(server, serverVariables[server.url], openApiSpecUrl).replace(/\/$/, '');
+      }
+      url = base + (operation.path.startsWith('/') ? operation.path : '/' + operation.path);
+    }
+
+    const headers: HeaderEntry[] = [...(customHeaders[operation.id] || [])];
+    const queryParams: string[] = [];
+    operation.parameters?.forEach(param => {
+      const value = params[param.name];
+      if (value === undefined || value === null || value === '') return;
+      if (param.in === 'path') {
+        url = url.replace(`{${param.name}}`, encodeTemplate(value));
+      } else if (param.in === 'query') {
+        queryParams.push(`${encodeURIComponent(param.name)}=${encodeTemplate(value)}`);
+      } else if (param.in === 'header') {
+        headers.push({ key: param.name, value });
       }
     });
+    if (queryParams.length > 0) {
+      url += '?' + queryParams.join('&');
+    }
 
-    setTestResults(prev => ({
+    // Same unwrapping of the input JSON as handleTestOperation
+    let body: string | undefined;
+    if (operation.requestBody) {
+      try {
+        const inputData = JSON.parse(getCurrentJsonInput(operation));
+        if (inputData.requestBody !== undefined && typeof inputData.requestBody === 'object') {
+          body = JSON.stringify(inputData.requestBody, null, 2);
+        } else if (typeof inputData === 'object' && inputData !== null && !inputData.hasOwnProperty('pathParameters') && !inputData.hasOwnProperty('queryParameters')) {
+          body = JSON.stringify(inputData, null, 2);
+        }
+      } catch (e) {
+        body = undefined;
+      }
+    }
+
+    const security = getSecurityRequirements(operation);
+    return {
+      id: `step_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+      name: operation.summary || `${operation.method} ${operation.path}`,
+      operation: { method: operation.method, path: operation.path },
+      method: operation.webhook ? 'POST' : operation.method,
+      url,
+      headers,
+      body,
+      security: security.length > 0 ? security : undefined,
+      extractionRules: extractionRules[operation.id]?.length ? extractionRules[operation.id] : undefined,
+      assertions: assertions[operation.id]?.length ? assertions[operation.id] : undefined,
+      snapshot: snapshots[operation.id],
+      timeout: parseTimeout(requestTimeouts[operation.id])
+    };
+  };
+
+  // Offers the operations with their current inputs, the collection, or saved test data files for export; the extension asks which
+  const exportToPostman = () => {
+    if (!vscode) {
+      setError('VSCode API not available');
+      return;
+    }
+    // The first tag of an operation becomes its Postman folder
+    const steps = operations
+      .filter(operation => !operation.webhook || webhookUrls[operation.id]?.trim())
+      .map(operation => {
+        const step = buildCollectionStep(operation);
+        return operation.tags?.[0] ? { ...step, name: `${operation.tags[0]} / ${step.name}` } : step;
+      });
+    vscode.postMessage({
+      command: 'exportPostman',
+      operations: steps.length > 0 ? {
+        ...newCollection(),
+        name: openApiSpec?.info?.title || 'SpekAi',
+        baseUrl: baseApiUrl,
+        openApiSpecUrl: openApiSpecUrl || undefined,
+        headers: globalHeaders,
+        securitySchemes: openApiSpec?.components?.securitySchemes,
+        steps
+      } : undefined,
+      collection,
+      environment: activeEnvironment,
+      variables: fromVariableEntries(environments[activeEnvironment] || [])
+    });
+  };
+
+  const addToCollection = (step: CollectionStep) => {
+    setCollection(prev => ({
       ...prev,
-      [operation.id]: { operationId: operation.id }
+      baseUrl: prev.baseUrl || baseApiUrl,
+      openApiSpecUrl: prev.openApiSpecUrl || openApiSpecUrl || undefined,
+      headers: prev.steps.length === 0 && prev.headers.length === 0 ? globalHeaders : prev.headers,
+      securitySchemes: openApiSpec?.components?.securitySchemes || prev.securitySchemes,
+      steps: [...prev.steps, step]
     }));
   };
 
+  const addFallbackToCollection = () => {
+    const method = (lastFallbackMethod || 'get').toUpperCase();
+    addToCollection({
+      id: `step_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+      name: `${method} ${baseApiUrl || url.trim()}`,
+      method,
+      url: baseApiUrl || url.trim(),
+      headers: [...fallbackHeaders],
+      body: ['POST', 'PUT', 'PATCH'].includes(method) ? fallbackJsonInput : undefined,
+      timeout: parseTimeout(requestTimeouts['fallback'])
+    });
+  };
+
+  // Copies a collection step into Manual API Testing, where it can be edited and sent on its own
+  const openStepInFallback = (step: CollectionStep) => {
+    const stepUrl = /^([a-z][a-z0-9+.-]*:\/\/|\{\{)/i.test(step.url) || !collection.baseUrl
+      ? step.url
+      : collection.baseUrl.replace(/\/$/, '') + (step.url.startsWith('/') || step.url.startsWith('?') ? step.url : `/${step.url}`);
+    setBaseApiUrl(stepUrl);
+    setFallbackHeaders([...collection.headers, ...step.headers]);
+    setFallbackJsonInput(step.body || '');
+    setLastFallbackMethod(step.method.toLowerCase());
+    if (collection.environment && environments[collection.environment]) {
+      setActiveEnvironment(collection.environment);
+    }
+    setFallbackMode(true);
+  };
+
+  const handleRunCollection = () => {
+    if (!vscode) {
+      setError('VSCode API not available');
+      return;
+    }
+    // A collection pinned to an environment runs with its variables; session variables apply either way
+    const variables = collection.environment && environments[collection.environment]
+      ? { ...fromVariableEntries(environments[collection.environment]), ...sessionVariables }
+      : getEnvironmentVariables();
+    vscode.postMessage({
+      command: 'runCollection',
+      collection,
+      variables,
+      credentials: authCredentials,
+      clientCert: getClientCert()
+    });
+    setCollectionRun({ running: true, activeSteps: [], results: {} });
+  };
+
+  const handleOAuth2SignIn = (schemeName: string) => {
+    if (!vscode) return;
+    vscode.postMessage({
+      command: 'authorizeOAuth2',
+      schemeName,
+      scheme: openApiSpec?.components?.securitySchemes?.[schemeName],
+      credentials: substituteInJson(authCredentials[schemeName] || {}, getEnvironmentVariables()),
+      baseUrl: resolveVariables(baseApiUrl) || openApiSpecUrl,
+      clientCert: getClientCert()
+    });
+    setOAuth2Sessions(prev => ({ ...prev, [schemeName]: { pending: true } }));
+  };
+
+  const getSecurityRequirements = (operation: Operation): Array<Record<string, string[]>> =>
+    operation.security || openApiSpec?.security || [];
+
+  const getSecurityContext = (operation: Operation) => {
+    const requirements = getSecurityRequirements(operation);
+    return requirements.length > 0 ? {
+      requirements,
+      schemes: openApiSpec?.components?.securitySchemes || {},
+      credentials: substituteInJson(authCredentials, getEnvironmentVariables())
+    } : undefined;
+  };
+
+  const parseTimeout = (value?: string): number | undefined => {
+    const timeout = Number(value);
+    return value && value.trim() && Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+  };
+
+  // Returns the id the request is sent with. An earlier request for the operation is not aborted here:
+  // the extension host supersedes it, and a cancel forwarded now would reach it after the new request
+  const trackRequest = (operationId: string): string => {
+    const requestId = `request_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`;
+    // Cancelling through the controller forwards the abort to the extension host
+    const controller = new AbortController();
+    controller.signal.addEventListener('abort', () => {
+      vscode?.postMessage({
+        command: 'cancelApiOperation',
+        operationId,
+        requestId
+      });
+    });
+    pendingRequests.current[operationId] = { requestId, controller };
+    return requestId;
+  };
+
+  const cancelRequest = (operationId: string) => {
+    const pending = pendingRequests.current[operationId];
+    if (pending) {
+      delete pendingRequests.current[operationId];
+      pending.controller.abort();
+    }
+  };
+
   const getMethodClass = (method: string) => {
     return `method-${method.toLowerCase()}`;
   };
 
   const resolveSchemaRef = (ref: string, spec: any): any => {
+    // Specs arrive dereferenced, so only local refs kept for circular schemas remain
     if (!ref || !ref.startsWith('#/')) return null;
     
-    const path = ref.replace('#/', '').split('/');
+    const path = ref.replace('#/', '').split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
     let current = spec;
     
     for (const segment of path) {
@@ -1046,6 +3083,18 @@ You MUST generate completely different values for every single field. Do NOT cop
     if (requestBodySchema) {
       prompt += `**Request Body Schema:**\n`;
       prompt += `"requestBody": ${JSON.stringify(requestBodySchema, null, 2)}\n\n`;
+
+      // Tell the model which oneOf/anyOf branch to generate
+      const variants = schemaVariants[operation.id] || {};
+      const variantPoints = findVariantPoints(getRequestBodySchema(operation.requestBody), variants);
+      if (variantPoints.length > 0) {
+        prompt += `**Schema Variants (generate exactly these oneOf/anyOf options):**\n`;
+        variantPoints.forEach(point => {
+          const path = point.path.replace(/^\$/, 'requestBody');
+          prompt += `- ${path}: ${point.labels[variants[point.path]] || point.labels[0]}\n`;
+        });
+        prompt += '\n';
+      }
     }
 
     prompt += `**Expected JSON Output Structure:**\n{\n`;
@@ -1130,49 +3179,133 @@ You MUST generate completely different values for every single field. Do NOT cop
     }
   };
 
-  const generateExampleFromSchema = (schema: any, depth: number = 0): any => {
+  const resolveSchema = (schema: any): any => {
+    if (!schema?.$ref) return schema;
+    return openApiSpec ? resolveSchemaRef(schema.$ref, openApiSpec) : null;
+  };
+
+  // Mirrors the extension's discriminator lookup: explicit mapping, then component name, enum or title
+  const discriminatorValue = (discriminator: any, branch: any): string | undefined => {
+    const branchJson = JSON.stringify(branch);
+    const mapping: Record<string, string> = discriminator.mapping || {};
+    for (const key of Object.keys(mapping)) {
+      const target = mapping[key].includes('/') || mapping[key].includes('#')
+        ? resolveSchemaRef(mapping[key], openApiSpec)
+        : openApiSpec?.components?.schemas?.[mapping[key]];
+      if (target && JSON.stringify(target) === branchJson) return key;
+    }
+
+    const schemas = openApiSpec?.components?.schemas || openApiSpec?.definitions || {};
+    return Object.keys(schemas).find(name => JSON.stringify(schemas[name]) === branchJson)
+      || branch.properties?.[discriminator.propertyName]?.enum?.[0]
+      || branch.title;
+  };
+
+  const pinProperty = (schema: any, propertyName: string, value: string): any => ({
+    ...schema,
+    properties: {
+      ...(schema.properties || {}),
+      [propertyName]: { ...(schema.properties?.[propertyName] || { type: 'string' }), enum: [value], example: value }
+    }
+  });
+
+  // Flattens allOf parts and the selected oneOf/anyOf branch (first by default) into one schema,
+  // reporting each oneOf/anyOf it meets through onVariants
+  const composeSchema = (
+    schema: any,
+    path: string,
+    variants: Record<string, number>,
+    onVariants?: (path: string, branches: any[], discriminator: any) => void,
+    depth: number = 0
+  ): any => {
+    if (!schema || typeof schema !== 'object' || depth > 10) return schema;
+
+    let current = resolveSchema(schema);
+    if (!current || typeof current !== 'object') return current;
+    const original = current;
+
+    if (Array.isArray(current.allOf) && current.allOf.length > 0) {
+      const { allOf, ...base } = current;
+      current = allOf.reduce(
+        (merged: any, part: any) => mergeSchemas(merged, composeSchema(part, path, variants, onVariants, depth + 1)),
+        base
+      );
+    }
+
+    const branches = current.oneOf || current.anyOf;
+    if (Array.isArray(branches) && branches.length > 0) {
+      const { oneOf, anyOf, ...base } = current;
+      onVariants?.(path, branches, base.discriminator);
+      const selected = variants[path];
+      const index = typeof selected === 'number' && selected >= 0 && selected < branches.length ? selected : 0;
+      const branch = resolveSchema(branches[index]) || branches[index];
+      current = mergeSchemas(base, composeSchema(branch, path, variants, onVariants, depth + 1));
+
+      const discriminator = base.discriminator || current.discriminator;
+      if (discriminator?.propertyName) {
+        const value = discriminatorValue(discriminator, branch);
+        if (value !== undefined) current = pinProperty(current, discriminator.propertyName, value);
+      }
+    } else if (current.discriminator?.propertyName && original.allOf) {
+      // A subtype that inherits its parent's discriminator through allOf identifies itself by its own name
+      const value = discriminatorValue(current.discriminator, original);
+      if (value !== undefined) current = pinProperty(current, current.discriminator.propertyName, value);
+    }
+
+    return normalizeSchema(current);
+  };
+
+  // Lists the oneOf/anyOf choices reachable from a schema, following the currently selected branches
+  const findVariantPoints = (schema: any, variants: Record<string, number>, path: string = '$', depth: number = 0): VariantPoint[] => {
+    if (!schema || depth > 5) return [];
+
+    const points: VariantPoint[] = [];
+    const composed = composeSchema(schema, path, variants, (variantPath, branches, discriminator) => {
+      if (points.some(point => point.path === variantPath)) return;
+      points.push({
+        path: variantPath,
+        labels: branches.map((branch, index) => {
+          const resolved = resolveSchema(branch) || branch;
+          const label = (discriminator?.propertyName && discriminatorValue(discriminator, resolved)) || resolved.title;
+          return label || `Option ${index + 1}${resolved.type ? ` (${resolved.type})` : ''}`;
+        })
+      });
+    });
+    if (!composed || typeof composed !== 'object') return points;
+
+    Object.keys(composed.properties || {}).forEach(key => {
+      points.push(...findVariantPoints(composed.properties[key], variants, `${path}.${key}`, depth + 1));
+    });
+    if (composed.items) {
+      points.push(...findVariantPoints(composed.items, variants, `${path}[]`, depth + 1));
+    }
+    return points;
+  };
+
+  const getRequestBodySchema = (requestBody: any): any => {
+    if (!requestBody) return null;
+    if (requestBody.content) {
+      const contentType = requestBody.content['application/json'] ? 'application/json' : Object.keys(requestBody.content)[0];
+      return contentType ? requestBody.content[contentType].schema : null;
+    }
+    return requestBody.schema || null;
+  };
+
+  const generateExampleFromSchema = (schema: any, depth: number = 0, path: string = '$', variants: Record<string, number> = {}): any => {
     if (!schema) return '';
     
-    // Prevent infinite recursion
-    if (depth > 5) return '...';
-    
-    // Return example if provided
-    if (schema.example !== undefined) return schema.example;
+    // Prevent infinite recursion
+    if (depth > 5) return '...';
     
-    // Handle $ref - resolve the reference
-    if (schema.$ref) {
-      if (openApiSpec) {
-        const resolvedSchema = resolveSchemaRef(schema.$ref, openApiSpec);
-        if (resolvedSchema) {
-          return generateExampleFromSchema(resolvedSchema, depth + 1);
-        }
-      }
+    // Resolve $ref and allOf/oneOf/anyOf into a single schema
+    const composed = composeSchema(schema, path, variants);
+    if (!composed) {
       return `<ref: ${schema.$ref}>`;
     }
+    schema = composed;
     
-    // Handle allOf, oneOf, anyOf
-    if (schema.allOf && schema.allOf.length > 0) {
-      // For allOf, merge all schemas (simplified - just use first for now)
-      let mergedSchema = schema.allOf[0];
-      if (mergedSchema.$ref && openApiSpec) {
-        mergedSchema = resolveSchemaRef(mergedSchema.$ref, openApiSpec) || mergedSchema;
-      }
-      return generateExampleFromSchema(mergedSchema, depth + 1);
-    }
-    if (schema.oneOf && schema.oneOf.length > 0) {
-      let selectedSchema = schema.oneOf[0];
-      if (selectedSchema.$ref && openApiSpec) {
-        selectedSchema = resolveSchemaRef(selectedSchema.$ref, openApiSpec) || selectedSchema;
-      }
-      return generateExampleFromSchema(selectedSchema, depth + 1);
-    }
-    if (schema.anyOf && schema.anyOf.length > 0) {
-      let selectedSchema = schema.anyOf[0];
-      if (selectedSchema.$ref && openApiSpec) {
-        selectedSchema = resolveSchemaRef(selectedSchema.$ref, openApiSpec) || selectedSchema;
-      }
-      return generateExampleFromSchema(selectedSchema, depth + 1);
-    }
+    // Return example if provided
+    if (schema.example !== undefined) return schema.example;
     
     // Handle different schema types
     switch (schema.type) {
@@ -1201,9 +3334,15 @@ You MUST generate completely different values for every single field. Do NOT cop
       case 'boolean':
         return schema.default !== undefined ? schema.default : true;
       
+      case 'null':
+        return null;
+      
       case 'array':
+        if (Array.isArray(schema.prefixItems)) {
+          return schema.prefixItems.map((item: any, index: number) => generateExampleFromSchema(item, depth + 1, `${path}[${index}]`, variants));
+        }
         if (schema.items) {
-          const itemExample = generateExampleFromSchema(schema.items, depth + 1);
+          const itemExample = generateExampleFromSchema(schema.items, depth + 1, `${path}[]`, variants);
           const minItems = schema.minItems || 1;
           return Array(Math.min(minItems, 3)).fill(itemExample);
         }
@@ -1215,7 +3354,7 @@ You MUST generate completely different values for every single field. Do NOT cop
           Object.keys(schema.properties).forEach(prop => {
             // Only include required properties by default, or all if none specified
             if (!schema.required || schema.required.includes(prop) || Object.keys(schema.properties).length <= 5) {
-              obj[prop] = generateExampleFromSchema(schema.properties[prop], depth + 1);
+              obj[prop] = generateExampleFromSchema(schema.properties[prop], depth + 1, `${path}.${prop}`, variants);
             }
           });
         }
@@ -1228,13 +3367,16 @@ You MUST generate completely different values for every single field. Do NOT cop
           Object.keys(schema.properties).forEach(prop => {
             // Only include required properties by default, or all if none specified
             if (!schema.required || schema.required.includes(prop) || Object.keys(schema.properties).length <= 5) {
-              obj[prop] = generateExampleFromSchema(schema.properties[prop], depth + 1);
+              obj[prop] = generateExampleFromSchema(schema.properties[prop], depth + 1, `${path}.${prop}`, variants);
             }
           });
           return obj;
         }
+        if (Array.isArray(schema.prefixItems)) {
+          return schema.prefixItems.map((item: any, index: number) => generateExampleFromSchema(item, depth + 1, `${path}[${index}]`, variants));
+        }
         if (schema.items) {
-          const itemExample = generateExampleFromSchema(schema.items, depth + 1);
+          const itemExample = generateExampleFromSchema(schema.items, depth + 1, `${path}[]`, variants);
           return [itemExample];
         }
         if (schema.enum) return schema.enum[0];
@@ -1242,28 +3384,13 @@ You MUST generate completely different values for every single field. Do NOT cop
     }
   };
 
-  const generateRequestBodyExample = (requestBody: any): any => {
+  const generateRequestBodyExample = (requestBody: any, variants: Record<string, number> = {}): any => {
     if (!requestBody) return null;
     
-    // Handle OpenAPI 3.0 request body structure
-    if (requestBody.content) {
-      // Try application/json first
-      if (requestBody.content['application/json']) {
-        const schema = requestBody.content['application/json'].schema;
-        return generateExampleFromSchema(schema);
-      }
-      
-      // Try first available content type
-      const contentTypes = Object.keys(requestBody.content);
-      if (contentTypes.length > 0) {
-        const schema = requestBody.content[contentTypes[0]].schema;
-        return generateExampleFromSchema(schema);
-      }
-    }
-    
-    // Handle OpenAPI 2.0 style
-    if (requestBody.schema) {
-      return generateExampleFromSchema(requestBody.schema);
+    // Try application/json first, then the first available content type (or an OpenAPI 2.0 style schema)
+    const schema = getRequestBodySchema(requestBody);
+    if (schema) {
+      return generateExampleFromSchema(schema, 0, '$', variants);
     }
     
     return null;
@@ -1291,10 +3418,26 @@ You MUST generate completely different values for every single field. Do NOT cop
       operation: operation,
       locale: selectedLocale,
       openApiSpec: openApiSpec,
+      variantSelections: schemaVariants[operation.id] || {},
       globalHeaders: globalHeaders
     });
   };
 
+  const selectSchemaVariant = (operationId: string, path: string, index: number) => {
+    setSchemaVariants(prev => ({
+      ...prev,
+      [operationId]: { ...(prev[operationId] || {}), [path]: index }
+    }));
+    // Regenerate the input from the schema so it reflects the chosen variant
+    const withoutOperation = (prev: Record<string, string>) => {
+      const { [operationId]: _removed, ...rest } = prev;
+      return rest;
+    };
+    setEditableJsonInput(withoutOperation);
+    setLlmGeneratedJson(withoutOperation);
+    setRequestBodies(withoutOperation);
+  };
+
   const getCurrentJsonInput = (operation: Operation) => {
     // Return user's edited version if it exists, otherwise generate default
     if (editableJsonInput[operation.id]) {
@@ -1374,7 +3517,7 @@ You MUST generate completely different values for every single field. Do NOT cop
         }
       } else {
         // Generate example from schema
-        requestBodyValue = generateRequestBodyExample(operation.requestBody);
+        requestBodyValue = generateRequestBodyExample(operation.requestBody, schemaVariants[operation.id]);
       }
       
       if (requestBodyValue !== null) {
@@ -1402,6 +3545,12 @@ You MUST generate completely different values for every single field. Do NOT cop
         inputJson: getCurrentJsonInput(operation),
         outputJson: formatJsonOutput(operation),
         customHeaders: customHeaders[operation.id] || [],
+        timeout: parseTimeout(requestTimeouts[operation.id]),
+        schemaVariants: schemaVariants[operation.id],
+        webhookUrl: operation.webhook ? webhookUrls[operation.id] : undefined,
+        extractionRules: extractionRules[operation.id],
+        assertions: assertions[operation.id],
+        snapshot: snapshots[operation.id],
         globalHeaders: globalHeaders,
         clientCert: clientCertEnabled ? {
           enabled: true,
@@ -1413,7 +3562,8 @@ You MUST generate completely different values for every single field. Do NOT cop
         timestamp: new Date().toISOString(),
         apiBaseUrl: baseApiUrl,
         openApiSpecUrl: openApiSpecUrl,
-        savedUrl: url.trim()
+        savedUrl: url.trim(),
+        environment: activeEnvironment || undefined
       };
 
       vscode.postMessage({
@@ -1460,6 +3610,7 @@ You MUST generate completely different values for every single field. Do NOT cop
         inputJson: fallbackJsonInput,
         outputJson: lastFallbackMethod ? getFallbackResponse(lastFallbackMethod) : '',
         customHeaders: fallbackHeaders,
+        timeout: parseTimeout(requestTimeouts['fallback']),
         globalHeaders: globalHeaders,
         clientCert: clientCertEnabled ? {
           enabled: true,
@@ -1472,6 +3623,7 @@ You MUST generate completely different values for every single field. Do NOT cop
         apiBaseUrl: effectiveApiUrl,
         openApiSpecUrl: openApiSpecUrl || url.trim(),
         savedUrl: url.trim(),
+        environment: activeEnvironment || undefined,
         fallbackMode: true
       };
 
@@ -1558,15 +3710,106 @@ You MUST generate completely different values for every single field. Do NOT cop
     return JSON.stringify(outputJson, null, 2);
   };
 
-  const handleFallbackOperation = (method: string) => {
+  // The request a Manual API Testing method button sends; undefined, with the error shown, when it cannot be built
+  const buildFallbackRequest = (method: string) => {
+    const effectiveApiUrl = resolveVariables(baseApiUrl || url.trim());
+    if (!effectiveApiUrl) {
+      setError('URL not available');
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    
+    // Add global headers first
+    resolveHeaders(globalHeaders).forEach(header => {
+      if (header.key.trim() && header.value.trim()) {
+        headers[header.key.trim()] = header.value.trim();
+      }
+    });
+
+    // Add custom headers (fallback-specific headers can override global headers)
+    resolveHeaders(fallbackHeaders).forEach(header => {
+      if (header.key.trim() && header.value.trim()) {
+        headers[header.key.trim()] = header.value.trim();
+      }
+    });
+
+    let requestBody;
+    let bodyTemplate; // As typed, with its {{variables}}, for the request history
+    if (['POST', 'PUT', 'PATCH'].includes(method.toUpperCase()) && fallbackJsonInput.trim()) {
+      const hasContentType = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+      try {
+        bodyTemplate = JSON.parse(fallbackJsonInput);
+        requestBody = substituteInJson(bodyTemplate, getEnvironmentVariables());
+        if (!hasContentType) {
+          headers['Content-Type'] = 'application/json';
+        }
+      } catch (e) {
+        // Form, multipart and XML bodies are sent as typed when a Content-Type header says what they are
+        if (!hasContentType) {
+          setError('Invalid JSON in request body. Add a Content-Type header to send it as text');
+          return;
+        }
+        bodyTemplate = fallbackJsonInput;
+        requestBody = resolveVariables(fallbackJsonInput);
+      }
+    }
+
+    const clientCert = getClientCert();
+
+    return {
+      id: `fallback_${method.toLowerCase()}`,
+      url: effectiveApiUrl,
+      urlTemplate: baseApiUrl || url.trim(),
+      method: method.toUpperCase(),
+      headers,
+      headerTemplates: headerTemplates(headers, [...globalHeaders, ...fallbackHeaders]),
+      body: requestBody,
+      bodyTemplate,
+      clientCert,
+      timeout: parseTimeout(requestTimeouts['fallback'])
+    };
+  };
+
+  // The last run's snapshot check, and the diff it came with, no longer apply once the snapshot changes
+  const updateSnapshot = (operationId: string, snapshot: ResponseSnapshot | undefined) => {
+    setSnapshots(({ [operationId]: _previous, ...rest }) => snapshot ? { ...rest, [operationId]: snapshot } : rest);
+    setTestResults(prev => prev[operationId]?.snapshot ? { ...prev, [operationId]: { ...prev[operationId], snapshot: undefined } } : prev);
+    setResponseDiffs(prev => {
+      if (prev[operationId]?.baseline !== 'the snapshot') return prev;
+      const { [operationId]: _stale, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // The extension computes the diff; for a history entry it also asks which one
+  const compareResponse = (operationId: string, source: DiffSource) => {
+    const result = testResults[operationId];
+    if (!vscode || result?.result === undefined) return;
+    vscode.postMessage({
+      command: 'diffResponse',
+      operationId,
+      response: result.result,
+      source,
+      baseline: source === 'saved' ? savedResponses[operationId] : source === 'previous' ? result.previousResult : undefined
+    });
+  };
+
+  // Copies the request a test would send, as cURL or code; the extension applies credentials before rendering it
+  const copyRequestAs = (request: ReturnType<typeof buildTestRequest> | ReturnType<typeof buildFallbackRequest>) => {
     if (!vscode) {
       setError('VSCode API not available');
       return;
     }
+    if (request) {
+      setError(null);
+      vscode.postMessage({ command: 'copyRequestAs', operation: request });
+    }
+  };
 
-    const effectiveApiUrl = baseApiUrl || url.trim();
-    if (!effectiveApiUrl) {
-      setError('URL not available');
+  const handleFallbackOperation = (method: string) => {
+    if (!vscode) {
+      setError('VSCode API not available');
       return;
     }
 
@@ -1575,59 +3818,18 @@ You MUST generate completely different values for every single field. Do NOT cop
     setFallbackMode(true);
 
     try {
-      const headers: Record<string, string> = {};
-      
-      // Add global headers first
-      globalHeaders.forEach(header => {
-        if (header.key.trim() && header.value.trim()) {
-          headers[header.key.trim()] = header.value.trim();
-        }
-      });
-
-      // Add custom headers (fallback-specific headers can override global headers)
-      fallbackHeaders.forEach(header => {
-        if (header.key.trim() && header.value.trim()) {
-          headers[header.key.trim()] = header.value.trim();
-        }
-      });
-
-      let requestBody;
-      if (['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
-        try {
-          requestBody = JSON.parse(fallbackJsonInput);
-          headers['Content-Type'] = 'application/json';
-        } catch (e) {
-          setError('Invalid JSON in request body');
-          return;
-        }
+      const request = buildFallbackRequest(method);
+      if (!request) {
+        return;
       }
-
-      // Prepare client certificate data if enabled
-      const clientCert = clientCertEnabled ? {
-        enabled: true,
-        certPath: clientCertPath,
-        keyPath: clientKeyPath,
-        passphrase: clientCertPassphrase || undefined,
-        caCertPath: caCertPath || undefined
-      } : undefined;
-
-      vscode.postMessage({
-        command: 'testApiOperation',
-        operation: {
-          id: `fallback_${method.toLowerCase()}`,
-          url: effectiveApiUrl,
-          method: method.toUpperCase(),
-          headers,
-          body: requestBody,
-          clientCert
-        }
-      });
+      const requestId = trackRequest(`fallback_${method.toLowerCase()}`);
+      vscode.postMessage({ command: 'testApiOperation', operation: { ...request, requestId } });
 
       // Set a placeholder result to show loading state and track the last method used
       setLastFallbackMethod(method.toLowerCase());
       setTestResults(prev => ({
         ...prev,
-        [`fallback_${method.toLowerCase()}`]: { operationId: `fallback_${method.toLowerCase()}` }
+        [`fallback_${method.toLowerCase()}`]: { operationId: `fallback_${method.toLowerCase()}`, pending: true, previousResult: lastResponse(prev[`fallback_${method.toLowerCase()}`]) }
       }));
 
     } catch (error) {
@@ -1730,7 +3932,7 @@ You MUST generate completely different values for every single field. Do NOT cop
         </button>
       </div>
 
-      <div style={{ marginBottom: '20px' }}>
+      <div style={{ marginBottom: '20px', display: 'flex', gap: '8px' }}>
         <button
           onClick={() => {
             if (!vscode) {
@@ -1762,6 +3964,101 @@ You MUST generate completely different values for every single field. Do NOT cop
         >
           Load Saved Request
         </button>
+        <button
+          onClick={() => vscode?.postMessage({ command: 'importCurl' })}
+          className="add-header-btn"
+          style={{ padding: '10px 16px', fontSize: '14px', flexShrink: 0 }}
+          title="Open a cURL command, e.g. from API docs, in Manual API Testing"
+        >
+          Import cURL
+        </button>
+        <button
+          onClick={exportToPostman}
+          className="add-header-btn"
+          style={{ padding: '10px 16px', fontSize: '14px', flexShrink: 0 }}
+          title="Export the operations with their current inputs, the collection, or saved test data files as a Postman v2.1 collection and environment"
+        >
+          Export to Postman
+        </button>
+      </div>
+
+      {/* Environment Section */}
+      <div style={{ 
+        marginBottom: '20px', 
+        padding: '16px', 
+        backgroundColor: 'var(--vscode-textCodeBlock-background)', 
+        borderRadius: '4px', 
+        border: '1px solid var(--vscode-panel-border)' 
+      }}>
+        <div className="environment-bar">
+          <h3 style={{ 
+            margin: 0, 
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: 'var(--vscode-foreground)'
+          }}>
+            Environment
+          </h3>
+          <select
+            value={environments[activeEnvironment] ? activeEnvironment : ''}
+            onChange={(e) => setActiveEnvironment(e.target.value)}
+            className="locale-select"
+          >
+            <option value="">No environment</option>
+            {Object.keys(environments).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          {environments[activeEnvironment] && (
+            <button onClick={handleDeleteEnvironment} className="header-remove-btn" title="Delete this environment">
+              ×
+            </button>
+          )}
+          <input
+            type="text"
+            value={newEnvironmentName}
+            onChange={(e) => setNewEnvironmentName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddEnvironment()}
+            placeholder="New environment name"
+            className="header-input"
+          />
+          <button
+            onClick={handleAddEnvironment}
+            disabled={!newEnvironmentName.trim() || !!environments[newEnvironmentName.trim()]}
+            className="add-header-btn"
+          >
+            + Add Environment
+          </button>
+        </div>
+        {environments[activeEnvironment] && (
+          <div style={{ marginTop: '15px' }}>
+            <HeadersEditor
+              headers={environments[activeEnvironment]}
+              onChange={(entries) => setEnvironments(prev => ({ ...prev, [activeEnvironment]: entries }))}
+              keyPlaceholder="Variable name"
+              valuePlaceholder="Value"
+              addLabel="Add Variable"
+            />
+          </div>
+        )}
+        {Object.keys(sessionVariables).length > 0 && (
+          <div className="session-variables">
+            <span>Session variables:</span>
+            {Object.entries(sessionVariables).map(([name, value]) => (
+              <code key={name} title={value}>{name} = {value.length > 40 ? `${value.substring(0, 40)}…` : value}</code>
+            ))}
+            <button onClick={() => setSessionVariables({})} className="add-header-btn">
+              Clear
+            </button>
+          </div>
+        )}
+        <div style={{ 
+          fontSize: '11px', 
+          color: 'var(--vscode-descriptionForeground)', 
+          marginTop: '10px' 
+        }}>
+          Use {'{{name}}'} in the base URL, parameters, headers, request bodies, credentials and certificate paths. Environments are stored in the spekai.environments setting, so saved test data can reference variables instead of secrets.
+        </div>
       </div>
 
       {/* Global Headers Section */}
@@ -1793,6 +4090,40 @@ You MUST generate completely different values for every single field. Do NOT cop
         </div>
       </div>
 
+      {/* Authentication Section */}
+      {openApiSpec?.components?.securitySchemes && Object.keys(openApiSpec.components.securitySchemes).length > 0 && (
+        <div style={{ 
+          marginBottom: '20px', 
+          padding: '16px', 
+          backgroundColor: 'var(--vscode-textCodeBlock-background)', 
+          borderRadius: '4px', 
+          border: '1px solid var(--vscode-panel-border)' 
+        }}>
+          <h3 style={{ 
+            margin: '0 0 15px 0', 
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: 'var(--vscode-foreground)'
+          }}>
+            Authentication (securitySchemes)
+          </h3>
+          <AuthPanel
+            schemes={openApiSpec.components.securitySchemes}
+            credentials={authCredentials}
+            onChange={(name, credentials) => setAuthCredentials(prev => ({ ...prev, [name]: credentials }))}
+            sessions={oauth2Sessions}
+            onSignIn={handleOAuth2SignIn}
+          />
+          <div style={{ 
+            fontSize: '11px', 
+            color: 'var(--vscode-descriptionForeground)', 
+            marginTop: '10px' 
+          }}>
+            Credentials are applied to each operation according to its security requirements. Headers set explicitly take precedence.
+          </div>
+        </div>
+      )}
+
       {/* Client Certificate Section */}
       <div style={{ 
         marginBottom: '20px', 
@@ -1969,6 +4300,87 @@ You MUST generate completely different values for every single field. Do NOT cop
         )}
       </div>
 
+      {/* Collection Section */}
+      <div style={{ 
+        marginBottom: '20px', 
+        padding: '16px', 
+        backgroundColor: 'var(--vscode-textCodeBlock-background)', 
+        borderRadius: '4px', 
+        border: '1px solid var(--vscode-panel-border)' 
+      }}>
+        <h3 style={{ 
+          margin: '0 0 15px 0', 
+          fontSize: '14px',
+          fontWeight: 'bold',
+          color: 'var(--vscode-foreground)'
+        }}>
+          Collection{collection.steps.length > 0 ? ` (${collection.steps.length} steps)` : ''}
+        </h3>
+        <CollectionPanel
+          collection={collection}
+          onChange={setCollection}
+          environments={Object.keys(environments)}
+          run={collectionRun}
+          onRun={handleRunCollection}
+          onCancel={() => vscode?.postMessage({ command: 'cancelCollectionRun' })}
+          onSave={() => vscode?.postMessage({ command: 'saveCollection', collection })}
+          onLoad={() => vscode?.postMessage({ command: 'loadCollection' })}
+          onImport={() => vscode?.postMessage({ command: 'importRequests' })}
+          onOpenStep={openStepInFallback}
+          onExportReport={() => vscode?.postMessage({ command: 'exportReport' })}
+        />
+        <div style={{ 
+          fontSize: '11px', 
+          color: 'var(--vscode-descriptionForeground)', 
+          marginTop: '10px' 
+        }}>
+          Steps run in order with the collection headers, the authentication credentials and the client certificate above. A step fails on a network error, a failed assertion, or an HTTP status of 400 or more unless it has a status assertion; values extracted by one step are available to the steps after it.
+        </div>
+      </div>
+
+      {/* Request History Section */}
+      <div style={{ 
+        marginBottom: '20px', 
+        padding: '16px', 
+        backgroundColor: 'var(--vscode-textCodeBlock-background)', 
+        borderRadius: '4px', 
+        border: '1px solid var(--vscode-panel-border)' 
+      }}>
+        <h3 style={{ 
+          margin: '0 0 15px 0', 
+          fontSize: '14px',
+          fontWeight: 'bold',
+          color: 'var(--vscode-foreground)'
+        }}>
+          Request History
+        </h3>
+        <HistoryPanel
+          entries={historyEntries}
+          query={historyQuery}
+          onQueryChange={setHistoryQuery}
+          pinnedOnly={historyPinnedOnly}
+          onPinnedOnlyChange={setHistoryPinnedOnly}
+          onOpen={(entry) => vscode?.postMessage({ command: 'openHistoryEntry', id: entry.id })}
+          onResend={(entry) => vscode?.postMessage({
+            command: 'resendHistoryEntry',
+            id: entry.id,
+            credentials: substituteInJson(authCredentials, getEnvironmentVariables()),
+            clientCert: getClientCert(),
+            variables: getEnvironmentVariables()
+          })}
+          onPin={(entry, pinned) => vscode?.postMessage({ command: 'pinHistoryEntry', id: entry.id, pinned })}
+          onDelete={(entry) => vscode?.postMessage({ command: 'deleteHistoryEntry', id: entry.id })}
+          onClear={() => vscode?.postMessage({ command: 'clearHistory' })}
+        />
+        <div style={{ 
+          fontSize: '11px', 
+          color: 'var(--vscode-descriptionForeground)', 
+          marginTop: '10px' 
+        }}>
+          Every request sent from an operation or from manual testing is kept, up to the spekai.historySize setting; pinned entries are never dropped. Credentials from the authentication section are not stored and are applied again when a request is re-sent.
+        </div>
+      </div>
+
       {error && (
         <div className="error-message" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
           <span style={{ flex: 1 }}>{error}</span>
@@ -1991,6 +4403,17 @@ You MUST generate completely different values for every single field. Do NOT cop
       )}
 
 
+      {openApiSpec?.servers?.length > 1 || Object.keys(openApiSpec?.servers?.[0]?.variables || {}).length > 0 ? (
+        <ServerPicker
+          label="Server:"
+          servers={openApiSpec.servers}
+          selectedIndex={selectedServer}
+          onSelect={handleServerSelect}
+          variables={serverVariables}
+          onVariableChange={handleServerVariableChange}
+        />
+      ) : null}
+
       {baseApiUrl && (
         <div style={{ 
           marginBottom: '10px', 
@@ -2028,12 +4451,12 @@ You MUST generate completely different values for every single field. Do NOT cop
           <div className="fallback-content">
             <div className="fallback-left-panel">
               <div className="json-section fill">
-                <h3>Request Body (JSON)</h3>
+                <h3>Request Body</h3>
                 <textarea
                   className="json-editor"
                   value={fallbackJsonInput}
                   onChange={(e) => setFallbackJsonInput(e.target.value)}
-                  placeholder="Enter JSON request body for POST/PUT operations..."
+                  placeholder="Enter a JSON request body for POST/PUT/PATCH operations, or any text with a Content-Type header..."
                 />
               </div>
 
@@ -2048,7 +4471,7 @@ You MUST generate completely different values for every single field. Do NOT cop
               <div className="http-methods-section">
                 <h3>HTTP Methods</h3>
                 <div className="http-methods-grid">
-                  {['GET', 'POST', 'PUT', 'DELETE'].map(method => (
+                  {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => (
                     <button
                       key={method}
                       onClick={() => handleFallbackOperation(method)}
@@ -2065,7 +4488,24 @@ You MUST generate completely different values for every single field. Do NOT cop
                 </div>
               </div>
 
-              <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '20px' }}>
+              <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', alignItems: 'center', marginTop: '20px' }}>
+                <input
+                  type="number"
+                  min={0}
+                  value={requestTimeouts['fallback'] || ''}
+                  onChange={(e) => setRequestTimeouts(prev => ({ ...prev, fallback: e.target.value }))}
+                  placeholder="Timeout (ms)"
+                  title="Request timeout in milliseconds. Leave empty to use the spekai.requestTimeout setting"
+                  className="url-input timeout-input"
+                />
+                {lastFallbackMethod && testResults[`fallback_${lastFallbackMethod}`]?.pending && (
+                  <button
+                    onClick={() => cancelRequest(`fallback_${lastFallbackMethod}`)}
+                    className="cancel-request-button"
+                  >
+                    Cancel Request
+                  </button>
+                )}
                 <button
                   onClick={() => saveFallbackTestData()}
                   style={{
@@ -2082,19 +4522,33 @@ You MUST generate completely different values for every single field. Do NOT cop
                 >
                   Save Test Data
                 </button>
+                <button
+                  onClick={() => addFallbackToCollection()}
+                  className="add-header-btn"
+                  style={{ padding: '10px 16px', fontSize: '14px' }}
+                  title="Append this request, using the last method sent, to the collection"
+                >
+                  Add to Collection
+                </button>
+                <button
+                  onClick={() => copyRequestAs(buildFallbackRequest(lastFallbackMethod || 'get'))}
+                  className="add-header-btn"
+                  style={{ padding: '10px 16px', fontSize: '14px' }}
+                  title="Copy this request, using the last method sent, as cURL, fetch, axios, Python requests or Go net/http"
+                >
+                  Copy as…
+                </button>
               </div>
             </div>
 
             <div className="fallback-right-panel">
-              <div className="json-section fill" style={{ marginBottom: 0 }}>
-                <h3>Response</h3>
-                <textarea
-                  className="json-editor"
-                  value={lastFallbackMethod ? getFallbackResponse(lastFallbackMethod) : ''}
-                  readOnly
-                  placeholder="Response will appear here after making a request..."
-                />
-              </div>
+              <ResponsePanel
+                result={lastFallbackMethod ? testResults[`fallback_${lastFallbackMethod.toLowerCase()}`] : undefined}
+                body={lastFallbackMethod ? getFallbackResponse(lastFallbackMethod) : ''}
+                diff={lastFallbackMethod ? responseDiffs[`fallback_${lastFallbackMethod.toLowerCase()}`] : undefined}
+                hasSavedResponse={!!lastFallbackMethod && savedResponses[`fallback_${lastFallbackMethod.toLowerCase()}`] !== undefined}
+                onCompare={(source) => compareResponse(`fallback_${lastFallbackMethod.toLowerCase()}`, source)}
+              />
             </div>
           </div>
         </div>
@@ -2168,7 +4622,10 @@ You MUST generate completely different values for every single field. Do NOT cop
                       {operation.method}
                     </span>
                     <div className="operation-list-content">
-                      <div className="operation-list-path">{operation.path}</div>
+                      <div className="operation-list-path">
+                        {operation.path}
+                        {operation.webhook && <span className="webhook-badge">webhook</span>}
+                      </div>
                       {operation.summary && (
                         <div className="operation-list-summary">{operation.summary}</div>
                       )}
@@ -2195,6 +4652,54 @@ You MUST generate completely different values for every single field. Do NOT cop
                   </p>
                 )}
 
+                {getSecurityRequirements(selectedOperation).length > 0 && (
+                  <div className="security-requirements">
+                    <span>Security:</span>
+                    {getSecurityRequirements(selectedOperation).map((requirement, index) => {
+                      const names = Object.keys(requirement);
+                      const schemes = openApiSpec?.components?.securitySchemes || {};
+                      const configured = names.every(name => isSchemeConfigured(schemes[name], authCredentials[name]));
+                      return (
+                        <span
+                          key={index}
+                          className={`security-requirement ${configured ? 'configured' : ''}`}
+                          title={configured ? 'Credentials configured' : 'Enter credentials in the Authentication section'}
+                        >
+                          {names.length > 0 ? names.map(name => requirement[name].length > 0
+                            ? `${name} (${requirement[name].join(', ')})`
+                            : name).join(' + ') : 'none'}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {!selectedOperation.webhook && selectedOperation.servers && selectedOperation.servers.length > 0 && (
+                  <ServerPicker
+                    label="Operation server"
+                    servers={selectedOperation.servers}
+                    selectedIndex={operationServers[selectedOperation.id] || 0}
+                    onSelect={(index) => setOperationServers(prev => ({ ...prev, [selectedOperation.id]: index }))}
+                    variables={serverVariables}
+                    onVariableChange={handleServerVariableChange}
+                  />
+                )}
+
+                {selectedOperation.webhook && (
+                  <div className="webhook-url-row">
+                    <label htmlFor="webhook-url">Callback URL</label>
+                    <input
+                      id="webhook-url"
+                      type="text"
+                      value={webhookUrls[selectedOperation.id] || ''}
+                      onChange={(e) => setWebhookUrls(prev => ({ ...prev, [selectedOperation.id]: e.target.value }))}
+                      placeholder="https://localhost:3000/webhooks/handler"
+                      title="This is a webhook: the API sends it to you. Test Operation posts the sample payload to this URL"
+                      className="url-input"
+                    />
+                  </div>
+                )}
+
                 <div className="json-section fill">
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -2228,6 +4733,30 @@ You MUST generate completely different values for every single field. Do NOT cop
                       </button>
                     </div>
                   </div>
+                  {(() => {
+                    const variants = schemaVariants[selectedOperation.id] || {};
+                    const variantPoints = findVariantPoints(getRequestBodySchema(selectedOperation.requestBody), variants);
+                    if (variantPoints.length === 0) return null;
+                    return (
+                      <div className="schema-variants">
+                        <span className="schema-variants-title">Schema Variants</span>
+                        {variantPoints.map(point => (
+                          <label key={point.path} className="schema-variant">
+                            <span className="schema-variant-path">{point.path.replace(/^\$/, 'requestBody')}</span>
+                            <select
+                              className="locale-select"
+                              value={variants[point.path] !== undefined && variants[point.path] < point.labels.length ? variants[point.path] : 0}
+                              onChange={(e) => selectSchemaVariant(selectedOperation.id, point.path, Number(e.target.value))}
+                            >
+                              {point.labels.map((label, index) => (
+                                <option key={index} value={index}>{label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    );
+                  })()}
                   <textarea
                     className="json-editor"
                     value={getCurrentJsonInput(selectedOperation)}
@@ -2273,7 +4802,51 @@ You MUST generate completely different values for every single field. Do NOT cop
                   />
                 </div>
 
-                <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginTop: '20px' }}>
+                <div className="json-section">
+                  <h3>Extract Variables</h3>
+                  <ExtractionRulesEditor
+                    rules={extractionRules[selectedOperation.id] || []}
+                    onChange={(rules) => setExtractionRules(prev => ({ ...prev, [selectedOperation.id]: rules }))}
+                    extracted={testResults[selectedOperation.id]?.extracted}
+                  />
+                </div>
+
+                <div className="json-section">
+                  <h3>Assertions</h3>
+                  <AssertionsEditor
+                    assertions={assertions[selectedOperation.id] || []}
+                    onChange={(items) => setAssertions(prev => ({ ...prev, [selectedOperation.id]: items }))}
+                    results={testResults[selectedOperation.id]?.assertions}
+                  />
+                </div>
+
+                <div className="json-section">
+                  <h3>Snapshot</h3>
+                  <SnapshotEditor
+                    snapshot={snapshots[selectedOperation.id]}
+                    result={testResults[selectedOperation.id]}
+                    onChange={(snapshot) => updateSnapshot(selectedOperation.id, snapshot)}
+                  />
+                </div>
+
+                <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', alignItems: 'center', marginTop: '20px' }}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={requestTimeouts[selectedOperation.id] || ''}
+                    onChange={(e) => setRequestTimeouts(prev => ({ ...prev, [selectedOperation.id]: e.target.value }))}
+                    placeholder="Timeout (ms)"
+                    title="Request timeout in milliseconds. Leave empty to use the spekai.requestTimeout setting"
+                    className="url-input timeout-input"
+                  />
+                  {testResults[selectedOperation.id]?.pending && (
+                    <button
+                      onClick={() => cancelRequest(selectedOperation.id)}
+                      className="cancel-request-button"
+                    >
+                      Cancel Request
+                    </button>
+                  )}
                   <button
                     onClick={() => handleTestOperation(selectedOperation)}
                     style={{
@@ -2310,17 +4883,57 @@ You MUST generate completely different values for every single field. Do NOT cop
                   >
                     Save Test Data
                   </button>
+                  <button
+                    onClick={() => addToCollection(buildCollectionStep(selectedOperation))}
+                    className="add-header-btn"
+                    style={{ height: '38px', padding: '0 16px', fontSize: '14px' }}
+                    title="Append this request, with its current inputs, to the collection"
+                  >
+                    Add to Collection
+                  </button>
+                  <button
+                    onClick={() => copyRequestAs(buildTestRequest(selectedOperation, true))}
+                    className="add-header-btn"
+                    style={{ height: '38px', padding: '0 16px', fontSize: '14px' }}
+                    title="Copy the request this operation sends as cURL, fetch, axios, Python requests or Go net/http"
+                  >
+                    Copy as…
+                  </button>
                 </div>
 
-                <div className="json-section fill" style={{ marginBottom: 0 }}>
-                  <h3>Response</h3>
-                  <textarea
-                    className="json-editor"
-                    value={formatJsonOutput(selectedOperation)}
-                    readOnly
-                    placeholder="Response will appear here after making a request..."
-                  />
-                </div>
+                {(requestViolations[selectedOperation.id] || []).length > 0 && (
+                  <div className="request-violations">
+                    <div className="request-violations-header">
+                      <span>Request not sent: the input does not match the spec</span>
+                      <button
+                        onClick={() => handleTestOperation(selectedOperation, true)}
+                        className="send-anyway-button"
+                        title="Send the request as is, e.g. to test how the API handles invalid input"
+                      >
+                        Send Anyway
+                      </button>
+                    </div>
+                    <table className="headers-table validation-table">
+                      <tbody>
+                        {requestViolations[selectedOperation.id].map((violation, index) => (
+                          <tr key={index}>
+                            <td className="headers-table-name"><code>{violation.pointer}</code></td>
+                            <td className="validation-keyword">{violation.keyword}</td>
+                            <td>{violation.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <ResponsePanel
+                  result={testResults[selectedOperation.id]}
+                  body={formatJsonOutput(selectedOperation)}
+                  diff={responseDiffs[selectedOperation.id]}
+                  hasSavedResponse={savedResponses[selectedOperation.id] !== undefined}
+                  onCompare={(source) => compareResponse(selectedOperation.id, source)}
+                />
               </div>
             ) : (
               <div className="no-operation-selected">